@@ -2,7 +2,9 @@ import { Toaster } from '@/components/ui/sonner';
 import { TooltipProvider } from '@/components/ui/tooltip';
 import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
 import { BrowserRouter, Routes, Route } from 'react-router-dom';
+import History from './pages/History';
 import Index from './pages/Index';
+import RunReport from './pages/RunReport';
 import NotFound from './pages/NotFound';
 
 const queryClient = new QueryClient();
@@ -14,6 +16,8 @@ const App = () => (
       <BrowserRouter>
         <Routes>
           <Route path="/" element={<Index />} />
+          <Route path="/history" element={<History />} />
+          <Route path="/history/:jobId" element={<RunReport />} />
           <Route path="*" element={<NotFound />} />
         </Routes>
       </BrowserRouter>
@@ -0,0 +1,199 @@
+import { useEffect, useState } from 'react';
+import { AlertCircle, RefreshCw, RotateCcw } from 'lucide-react';
+import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from '@/components/ui/accordion';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { toast } from '@/components/ui/sonner';
+import * as api from '@/lib/api';
+import type { ErrorCategory, FailedFile, Failures, Job, MigrationDirection } from '@/lib/api';
+import { categoryLabels } from '@/lib/failures';
+import { formatBytes } from '@/lib/format';
+import { migrationDirectionOptions } from '@/lib/migrationDirection';
+
+interface FailuresPanelProps {
+  /** Changes whenever the failure list may be stale, e.g. after a job finishes */
+  refreshKey?: string;
+  onRetryStarted: (job: Job) => void;
+}
+
+/**
+ * Lists every file the ledger has marked as failed, grouped by error
+ * category, and starts retry runs for a selection or for all of them.
+ * A retry runs in the direction the files failed in, one direction at a time.
+ */
+export function FailuresPanel({ refreshKey, onRetryStarted }: FailuresPanelProps) {
+  const [failures, setFailures] = useState<Failures | null>(null);
+  const [selected, setSelected] = useState<Set<number>>(new Set());
+  const [loading, setLoading] = useState(false);
+
+  const loadFailures = () => {
+    setLoading(true);
+    api.getFailures()
+      .then(results => {
+        setFailures(results);
+        setSelected(new Set());
+      })
+      .catch(error => toast.error('Error loading failed files: ' + error.message))
+      .finally(() => setLoading(false));
+  };
+
+  useEffect(loadFailures, [refreshKey]);
+
+  if (!failures || failures.files.length === 0) {
+    return null;
+  }
+
+  const groups = Object.keys(categoryLabels)
+    .map(category => ({
+      category: category as ErrorCategory,
+      files: failures.files.filter(file => file.category === category),
+    }))
+    .filter(group => group.files.length > 0);
+
+  const toggle = (files: FailedFile[], checked: boolean) => {
+    setSelected(current => {
+      const next = new Set(current);
+      for (const file of files) {
+        if (checked) {
+          next.add(file.fileid);
+        } else {
+          next.delete(file.fileid);
+        }
+      }
+      return next;
+    });
+  };
+
+  const directions = Object.keys(failures.directions) as MigrationDirection[];
+  const mixedDirections = directions.length > 1;
+  const selectedDirections = new Set(failures.files.filter(file => selected.has(file.fileid)).map(file => file.direction));
+
+  const retry = (selection: { fileids: number[] } | { all: true; direction?: MigrationDirection }) => {
+    const count = 'all' in selection
+      ? (selection.direction ? failures.directions[selection.direction] : failures.files.length)
+      : selection.fileids.length;
+    if (!window.confirm(`Retry ${count}${failures.truncated && 'all' in selection && !selection.direction ? '+' : ''} failed files?`)) {
+      return;
+    }
+
+    api.retryFailed(selection)
+      .then(onRetryStarted)
+      .catch(error => toast.error('Failed to start retry: ' + error.message));
+  };
+
+  return (
+    <div className="border rounded-md p-4 space-y-3">
+      <div className="flex items-center justify-between">
+        <h4 className="font-medium flex items-center">
+          <AlertCircle className="mr-2 h-4 w-4 text-red-500" />
+          Failed files
+        </h4>
+        <div className="flex gap-2">
+          <Button variant="ghost" size="sm" onClick={loadFailures} disabled={loading}>
+            <RefreshCw className="h-4 w-4" />
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            disabled={selected.size === 0 || selectedDirections.size > 1}
+            title={selectedDirections.size > 1 ? 'The selected files failed in runs of different directions' : undefined}
+            onClick={() => retry({ fileids: Array.from(selected) })}
+          >
+            <RotateCcw className="mr-2 h-4 w-4" />
+            Retry selected ({selected.size})
+          </Button>
+          {mixedDirections ? directions.map(direction => (
+            <Button key={direction} size="sm" onClick={() => retry({ all: true, direction })}>
+              <RotateCcw className="mr-2 h-4 w-4" />
+              Retry all {migrationDirectionOptions[direction].done}
+            </Button>
+          )) : (
+            <Button size="sm" onClick={() => retry({ all: true })}>
+              <RotateCcw className="mr-2 h-4 w-4" />
+              Retry all failed
+            </Button>
+          )}
+        </div>
+      </div>
+
+      {mixedDirections && (
+        <p className="text-sm text-muted-foreground">
+          The files failed in runs of different directions. Each is retried in the direction it failed in,
+          one direction at a time.
+        </p>
+      )}
+
+      {failures.truncated && (
+        <p className="text-sm text-muted-foreground">
+          Only the first {failures.files.length} failed files are listed. Retrying all failed files covers the rest too.
+        </p>
+      )}
+
+      <Accordion type="multiple" className="w-full">
+        {groups.map(({ category, files }) => {
+          const allSelected = files.every(file => selected.has(file.fileid));
+          const totals = failures.categories[category];
+
+          return (
+            <AccordionItem key={category} value={category}>
+              <AccordionTrigger className="text-sm">
+                <span className="flex items-center gap-2">
+                  {categoryLabels[category]}
+                  <Badge variant="destructive">{totals?.count ?? files.length}</Badge>
+                  <span className="text-muted-foreground font-normal">
+                    {formatBytes(totals?.size ?? files.reduce((sum, file) => sum + file.size, 0))}
+                  </span>
+                </span>
+              </AccordionTrigger>
+              <AccordionContent>
+                <div className="border rounded-md max-h-96 overflow-auto">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead className="w-8">
+                          <Checkbox
+                            checked={allSelected}
+                            onCheckedChange={checked => toggle(files, checked === true)}
+                          />
+                        </TableHead>
+                        <TableHead>File ID</TableHead>
+                        <TableHead>Path</TableHead>
+                        <TableHead>Owner</TableHead>
+                        {mixedDirections && <TableHead>Direction</TableHead>}
+                        <TableHead className="text-right">Size</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {files.map(file => (
+                        <TableRow key={file.fileid}>
+                          <TableCell>
+                            <Checkbox
+                              checked={selected.has(file.fileid)}
+                              onCheckedChange={checked => toggle([file], checked === true)}
+                            />
+                          </TableCell>
+                          <TableCell className="font-mono">{file.fileid}</TableCell>
+                          <TableCell className="max-w-xs">
+                            <p className="truncate" title={file.path}>{file.path}</p>
+                            {file.error && <p className="text-xs text-red-500 truncate" title={file.error}>{file.error}</p>}
+                          </TableCell>
+                          <TableCell>{file.owner ?? '-'}</TableCell>
+                          {mixedDirections && (
+                            <TableCell className="whitespace-nowrap">{migrationDirectionOptions[file.direction].label}</TableCell>
+                          )}
+                          <TableCell className="text-right whitespace-nowrap">{formatBytes(file.size)}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              </AccordionContent>
+            </AccordionItem>
+          );
+        })}
+      </Accordion>
+    </div>
+  );
+}
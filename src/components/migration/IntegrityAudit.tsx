@@ -0,0 +1,300 @@
+import { useEffect, useState } from 'react';
+import { formatDistanceToNow } from 'date-fns';
+import { Download, Eye, ShieldCheck, Trash2 } from 'lucide-react';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Progress } from '@/components/ui/progress';
+import { toast } from '@/components/ui/sonner';
+import * as api from '@/lib/api';
+import type { AuditCleanupOptions, AuditCleanupResult, AuditJob, AuditListName } from '@/lib/api';
+import { formatBytes } from '@/lib/format';
+
+const auditLists: { list: AuditListName; label: string; description: string }[] = [
+  {
+    list: 'missing',
+    label: 'Missing from S3',
+    description: 'Files in oc_filecache with no object in the bucket',
+  },
+  {
+    list: 'orphans',
+    label: 'Orphaned objects',
+    description: 'Objects no file on the object storage refers to',
+  },
+  {
+    list: 'size_mismatches',
+    label: 'Size mismatches',
+    description: 'Objects whose size differs from the size in oc_filecache',
+  },
+];
+
+// The server refuses cleanups of younger orphans, which may still be uploading
+const MIN_CLEANUP_AGE_HOURS = 1;
+
+const cleanupOutcomes: { key: keyof Pick<AuditCleanupResult, 'deleted' | 'too_recent' | 'live' | 'failed'>; label: string }[] = [
+  { key: 'deleted', label: 'Deleted' },
+  { key: 'too_recent', label: 'Kept, too recent' },
+  { key: 'live', label: 'Kept, file in use or awaiting its storage switch' },
+  { key: 'failed', label: 'Failed to delete' },
+];
+
+interface IntegrityAuditProps {
+  /** Job of an audit started elsewhere, attached to instead of the latest one */
+  startedJob?: AuditJob | null;
+}
+
+/**
+ * Runs an audit of the object storage against the contents of its buckets
+ * in the background and shows what it found
+ */
+export function IntegrityAudit({ startedJob }: IntegrityAuditProps) {
+  const [job, setJob] = useState<AuditJob | null>(null);
+  const [starting, setStarting] = useState(false);
+  const [minAgeHours, setMinAgeHours] = useState(24);
+
+  useEffect(() => {
+    if (startedJob) {
+      setJob(startedJob);
+      return;
+    }
+
+    api.listAudits()
+      .then(jobs => setJob(jobs[0] ?? null))
+      .catch(error => toast.error('Error loading audits: ' + error.message));
+  }, [startedJob]);
+
+  const jobId = job?.id;
+  const jobActive = job !== null && api.isJobActive(job);
+
+  useEffect(() => {
+    if (!jobId || !jobActive) {
+      return;
+    }
+
+    // Poll the audit until its worker finishes
+    const interval = setInterval(() => {
+      api.getAudit(jobId)
+        .then(setJob)
+        .catch(error => toast.error('Error checking audit status: ' + error.message));
+    }, 1000);
+
+    return () => clearInterval(interval);
+  }, [jobId, jobActive]);
+
+  const startAudit = (cleanup?: AuditCleanupOptions) => {
+    setStarting(true);
+    api.startAudit(cleanup)
+      .then(setJob)
+      .catch(error => toast.error('Failed to start audit: ' + error.message))
+      .finally(() => setStarting(false));
+  };
+
+  const startCleanup = (dryRun: boolean) => {
+    startAudit({ dry_run: dryRun, min_age_hours: minAgeHours });
+  };
+
+  const cancelAudit = () => {
+    api.cancelAudit(job.id)
+      .then(setJob)
+      .catch(error => toast.error('Failed to cancel audit: ' + error.message));
+  };
+
+  const cleanupOptions = job?.options.cleanup as AuditCleanupOptions | undefined;
+  const cleanup = job?.result?.cleanup;
+  const minAgeValid = minAgeHours >= MIN_CLEANUP_AGE_HOURS;
+
+  const progress = job?.progress;
+  const percent = progress ? Math.min(100, Math.round(progress.files_checked / Math.max(1, progress.total) * 100)) : 0;
+  const counts: Record<AuditListName, number> = {
+    missing: progress?.missing ?? 0,
+    orphans: progress?.orphans ?? 0,
+    size_mismatches: progress?.size_mismatches ?? 0,
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <p className="text-sm text-muted-foreground">
+          Walks every file of the object storage in oc_filecache and every <code>urn:oid:</code> object
+          in the bucket side by side. The audit only reads: only the orphan cleanup below deletes anything.
+        </p>
+        <div className="flex gap-2 ml-4">
+          {jobActive ? (
+            <Button variant="outline" onClick={cancelAudit} disabled={job.control === 'cancel'}>
+              Cancel Audit
+            </Button>
+          ) : (
+            <Button onClick={() => startAudit()} disabled={starting}>
+              <ShieldCheck className="mr-2 h-4 w-4" />
+              {job ? 'Run Audit Again' : 'Run Audit'}
+            </Button>
+          )}
+        </div>
+      </div>
+
+      {job && (
+        <div className="border rounded-md p-4 space-y-4">
+          <div className="flex items-center justify-between text-sm">
+            <p className="font-medium">
+              Audit {job.id}
+              <Badge variant={job.status === 'failed' ? 'destructive' : 'secondary'} className="ml-2">{job.status}</Badge>
+              {cleanupOptions && (
+                <Badge variant={cleanupOptions.dry_run ? 'outline' : 'destructive'} className="ml-2">
+                  {cleanupOptions.dry_run ? 'cleanup preview' : 'cleanup'}
+                </Badge>
+              )}
+            </p>
+            <p className="text-muted-foreground">
+              {job.finished_at
+                ? `Finished ${formatDistanceToNow(new Date(job.finished_at), { addSuffix: true })}`
+                : `Started ${formatDistanceToNow(new Date(job.created_at), { addSuffix: true })}`}
+            </p>
+          </div>
+
+          {job.error && <p className="text-sm text-red-600">{job.error}</p>}
+
+          {progress && (
+            <div className="space-y-2">
+              <div className="flex justify-between text-sm">
+                <span>{progress.files_checked} of {progress.total} files, {progress.objects_checked} objects</span>
+                <span>{percent}%</span>
+              </div>
+              <Progress value={percent} className="w-full" />
+              {jobActive && progress.bucket && (
+                <p className="text-sm text-muted-foreground">Bucket: {progress.bucket}</p>
+              )}
+              {jobActive && cleanupOptions && (
+                <p className="text-sm text-muted-foreground">
+                  {cleanupOptions.dry_run ? 'Would delete' : 'Deleted'} {progress.deleted ?? 0} orphaned objects so far
+                </p>
+              )}
+            </div>
+          )}
+
+          <div className="grid grid-cols-3 gap-4">
+            {auditLists.map(({ list, label, description }) => {
+              const summary = job.result?.lists[list];
+              return (
+                <div key={list} className="border rounded-md p-3 space-y-1">
+                  <p className="text-sm text-muted-foreground">{label}</p>
+                  <p className={`text-lg font-medium ${counts[list] > 0 ? 'text-amber-600' : ''}`}>
+                    {summary?.count ?? counts[list]}
+                  </p>
+                  {summary && summary.count > 0 && (
+                    <p className="text-xs text-muted-foreground">{formatBytes(summary.size)}</p>
+                  )}
+                  <p className="text-xs text-muted-foreground">{description}</p>
+                  {!jobActive && counts[list] > 0 && (
+                    <Button variant="outline" size="sm" asChild>
+                      <a href={api.getAuditListUrl(job.id, list)} download>
+                        <Download className="mr-2 h-4 w-4" />
+                        CSV
+                      </a>
+                    </Button>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+
+          {cleanup && (
+            <div className="space-y-2">
+              <p className="text-sm font-medium">
+                {cleanup.dry_run ? 'Cleanup preview' : 'Cleanup'} of orphans older than {cleanup.min_age_hours} hours
+              </p>
+              <div className="grid grid-cols-4 gap-4">
+                {cleanupOutcomes.map(({ key, label }) => (
+                  <div key={key} className="border rounded-md p-3 space-y-1">
+                    <p className="text-sm text-muted-foreground">
+                      {key === 'deleted' && cleanup.dry_run ? 'Would delete' : label}
+                    </p>
+                    <p className={`text-lg font-medium ${key === 'failed' && cleanup.failed.count > 0 ? 'text-red-600' : ''}`}>
+                      {cleanup[key].count}
+                    </p>
+                    {cleanup[key].count > 0 && (
+                      <p className="text-xs text-muted-foreground">{formatBytes(cleanup[key].size)}</p>
+                    )}
+                  </div>
+                ))}
+              </div>
+              <p className="text-xs text-muted-foreground">
+                The orphaned objects CSV says what happened to each object.
+              </p>
+            </div>
+          )}
+
+          {job.status === 'cancelled' && (
+            <p className="text-sm text-muted-foreground">
+              The audit was cancelled: the lists only hold what it found before it stopped.
+            </p>
+          )}
+        </div>
+      )}
+
+      <div className="border rounded-md p-4 space-y-4">
+        <div>
+          <p className="font-medium">Orphan Cleanup</p>
+          <p className="text-sm text-muted-foreground">
+            Runs the audit again and deletes the orphaned objects it finds, 1000 per request.
+            Objects younger than the minimum age may belong to an upload that is still in flight and are kept,
+            as are objects whose file is still in oc_filecache on a local storage, for example after a
+            migration limited to some users. Preview the cleanup first: it deletes nothing.
+          </p>
+        </div>
+        <div className="flex items-end gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="cleanup_min_age">Minimum age (hours)</Label>
+            <Input
+              id="cleanup_min_age"
+              type="number"
+              min={MIN_CLEANUP_AGE_HOURS}
+              className="w-40"
+              value={minAgeHours}
+              onChange={e => setMinAgeHours(Number(e.target.value))}
+            />
+          </div>
+          <Button variant="outline" onClick={() => startCleanup(true)} disabled={starting || jobActive || !minAgeValid}>
+            <Eye className="mr-2 h-4 w-4" />
+            Preview Cleanup
+          </Button>
+          <AlertDialog>
+            <AlertDialogTrigger asChild>
+              <Button variant="destructive" disabled={starting || jobActive || !minAgeValid}>
+                <Trash2 className="mr-2 h-4 w-4" />
+                Delete Orphans
+              </Button>
+            </AlertDialogTrigger>
+            <AlertDialogContent>
+              <AlertDialogHeader>
+                <AlertDialogTitle>Delete orphaned objects?</AlertDialogTitle>
+                <AlertDialogDescription>
+                  Every object in the buckets that no file refers to and that is older than {minAgeHours} hours
+                  is deleted for good. Objects in a versioned bucket keep their earlier versions.
+                </AlertDialogDescription>
+              </AlertDialogHeader>
+              <AlertDialogFooter>
+                <AlertDialogCancel>Cancel</AlertDialogCancel>
+                <AlertDialogAction onClick={() => startCleanup(false)}>Delete Orphans</AlertDialogAction>
+              </AlertDialogFooter>
+            </AlertDialogContent>
+          </AlertDialog>
+        </div>
+        {!minAgeValid && (
+          <p className="text-sm text-red-600">The minimum age is {MIN_CLEANUP_AGE_HOURS} hour.</p>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,180 @@
+import { useEffect, useState } from 'react';
+import { Search } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  Pagination,
+  PaginationContent,
+  PaginationItem,
+  PaginationNext,
+  PaginationPrevious,
+} from '@/components/ui/pagination';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { toast } from '@/components/ui/sonner';
+import * as api from '@/lib/api';
+import type { LedgerPage, LedgerState } from '@/lib/api';
+import { formatBytes } from '@/lib/format';
+
+const PER_PAGE = 50;
+
+const stateLabels: Record<LedgerState, string> = {
+  pending: 'Pending',
+  uploaded: 'Uploaded',
+  verified: 'Verified',
+  db_updated: 'DB Updated',
+  failed: 'Failed',
+};
+
+const stateVariants: Record<LedgerState, 'default' | 'secondary' | 'destructive' | 'outline'> = {
+  pending: 'outline',
+  uploaded: 'secondary',
+  verified: 'secondary',
+  db_updated: 'default',
+  failed: 'destructive',
+};
+
+/**
+ * Searchable, paginated view of the per-file migration ledger
+ */
+export function LedgerView() {
+  const [searchInput, setSearchInput] = useState('');
+  const [search, setSearch] = useState('');
+  const [stateFilter, setStateFilter] = useState<LedgerState | 'all'>('all');
+  const [page, setPage] = useState(1);
+  const [ledger, setLedger] = useState<LedgerPage | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    setLoading(true);
+    api.getLedger({
+      page,
+      per_page: PER_PAGE,
+      search,
+      state: stateFilter === 'all' ? undefined : stateFilter,
+    })
+      .then(setLedger)
+      .catch(error => toast.error('Error loading ledger: ' + error.message))
+      .finally(() => setLoading(false));
+  }, [page, search, stateFilter]);
+
+  const totalPages = ledger ? Math.max(1, Math.ceil(ledger.total / PER_PAGE)) : 1;
+
+  const applySearch = (event: React.FormEvent) => {
+    event.preventDefault();
+    setPage(1);
+    setSearch(searchInput.trim());
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex gap-2">
+        <form onSubmit={applySearch} className="flex flex-1 gap-2">
+          <Input
+            placeholder="Search by path or file ID"
+            value={searchInput}
+            onChange={e => setSearchInput(e.target.value)}
+          />
+          <Button type="submit" variant="outline">
+            <Search className="h-4 w-4" />
+          </Button>
+        </form>
+        <Select
+          value={stateFilter}
+          onValueChange={value => {
+            setPage(1);
+            setStateFilter(value as LedgerState | 'all');
+          }}
+        >
+          <SelectTrigger className="w-48">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All states</SelectItem>
+            {Object.entries(stateLabels).map(([state, label]) => (
+              <SelectItem key={state} value={state}>
+                {label} {ledger?.counts[state] !== undefined && `(${ledger.counts[state]})`}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="border rounded-md">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>File ID</TableHead>
+              <TableHead>Path</TableHead>
+              <TableHead className="text-right">Size</TableHead>
+              <TableHead>State</TableHead>
+              <TableHead className="text-right">Attempts</TableHead>
+              <TableHead>Updated</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {ledger && ledger.rows.length > 0 ? ledger.rows.map(row => (
+              <TableRow key={row.fileid}>
+                <TableCell className="font-mono">{row.fileid}</TableCell>
+                <TableCell className="max-w-xs">
+                  <p className="truncate" title={row.path}>{row.path}</p>
+                  {row.error && <p className="text-xs text-red-500 truncate" title={row.error}>{row.error}</p>}
+                </TableCell>
+                <TableCell className="text-right whitespace-nowrap">{formatBytes(row.size)}</TableCell>
+                <TableCell>
+                  <Badge variant={stateVariants[row.state]}>{stateLabels[row.state]}</Badge>
+                </TableCell>
+                <TableCell className="text-right">{row.attempts}</TableCell>
+                <TableCell className="whitespace-nowrap text-muted-foreground">
+                  {new Date(row.updated_at).toLocaleString()}
+                </TableCell>
+              </TableRow>
+            )) : (
+              <TableRow>
+                <TableCell colSpan={6} className="text-center text-muted-foreground py-8">
+                  {loading ? 'Loading...' : 'No ledger entries found'}
+                </TableCell>
+              </TableRow>
+            )}
+          </TableBody>
+        </Table>
+      </div>
+
+      <div className="flex items-center justify-between">
+        <p className="text-sm text-muted-foreground">
+          {ledger ? `${ledger.total} files` : ''}
+        </p>
+        <Pagination className="mx-0 w-auto">
+          <PaginationContent>
+            <PaginationItem>
+              <PaginationPrevious
+                href="#"
+                aria-disabled={page <= 1}
+                className={page <= 1 ? 'pointer-events-none opacity-50' : undefined}
+                onClick={e => {
+                  e.preventDefault();
+                  setPage(p => Math.max(1, p - 1));
+                }}
+              />
+            </PaginationItem>
+            <PaginationItem>
+              <span className="px-3 text-sm">Page {page} of {totalPages}</span>
+            </PaginationItem>
+            <PaginationItem>
+              <PaginationNext
+                href="#"
+                aria-disabled={page >= totalPages}
+                className={page >= totalPages ? 'pointer-events-none opacity-50' : undefined}
+                onClick={e => {
+                  e.preventDefault();
+                  setPage(p => Math.min(totalPages, p + 1));
+                }}
+              />
+            </PaginationItem>
+          </PaginationContent>
+        </Pagination>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,236 @@
+import { useEffect, useRef, useState } from 'react';
+import { Download, Pause, Play } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { toast } from '@/components/ui/sonner';
+import * as api from '@/lib/api';
+import type { Job } from '@/lib/api';
+import { logLevels, parseLogLines, type LogEntry, type LogLevel } from '@/lib/logs';
+
+// Entries kept in the viewer; older ones are dropped, the download has them all
+const MAX_ENTRIES = 5000;
+
+// Seconds the server may hold a request while waiting for new lines
+const POLL_WAIT = 20;
+
+const levelClasses: Record<LogLevel, string> = {
+  DEBUG: 'text-muted-foreground',
+  INFO: '',
+  WARN: 'text-yellow-600',
+  ERROR: 'text-red-600',
+};
+
+interface LogViewerProps {
+  /** Job to show first, usually the running one */
+  activeJobId?: string | null;
+}
+
+/**
+ * Follows the log of a running migration job as it is written, and opens
+ * the logs of past jobs
+ */
+export function LogViewer({ activeJobId }: LogViewerProps) {
+  const [jobs, setJobs] = useState<Job[]>([]);
+  const [jobId, setJobId] = useState<string | null>(activeJobId ?? null);
+  const [entries, setEntries] = useState<LogEntry[]>([]);
+  const [truncated, setTruncated] = useState(false);
+  const [live, setLive] = useState(false);
+  const [levels, setLevels] = useState<Set<LogLevel>>(new Set(logLevels));
+  const [search, setSearch] = useState('');
+  const [fileId, setFileId] = useState('');
+  const [user, setUser] = useState('');
+  const [follow, setFollow] = useState(true);
+  const scrollRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    api.listJobs('migration')
+      .then(list => {
+        setJobs(list);
+        setJobId(current => current ?? activeJobId ?? list[0]?.id ?? null);
+      })
+      .catch(error => toast.error('Error loading jobs: ' + error.message));
+  }, [activeJobId]);
+
+  useEffect(() => {
+    if (activeJobId) {
+      setJobId(activeJobId);
+    }
+  }, [activeJobId]);
+
+  useEffect(() => {
+    setEntries([]);
+    setTruncated(false);
+    if (!jobId) {
+      return;
+    }
+
+    let cancelled = false;
+    const poll = async () => {
+      let offset: number | undefined;
+      let nextId = 0;
+      let last: LogEntry | undefined;
+      setLive(true);
+
+      while (!cancelled) {
+        try {
+          const chunk = await api.getLogs(jobId, { offset, wait: offset === undefined ? 0 : POLL_WAIT });
+          if (cancelled) {
+            return;
+          }
+
+          const added = parseLogLines(chunk.lines, last, nextId);
+          nextId += added.length;
+          last = added[added.length - 1] ?? last;
+          if (offset === undefined) {
+            setTruncated(chunk.truncated);
+          }
+          if (added.length > 0) {
+            setEntries(current => [...current, ...added].slice(-MAX_ENTRIES));
+          }
+          offset = chunk.offset;
+
+          // A finished job's log is complete once a read comes back empty
+          if (!chunk.active && chunk.lines.length === 0) {
+            setLive(false);
+            return;
+          }
+        } catch (error) {
+          if (cancelled) {
+            return;
+          }
+          setLive(false);
+          toast.error('Error loading log: ' + (error as Error).message);
+          return;
+        }
+      }
+    };
+
+    poll();
+    return () => {
+      cancelled = true;
+    };
+  }, [jobId]);
+
+  const query = search.trim().toLowerCase();
+  const visible = entries.filter(entry =>
+    levels.has(entry.level)
+    && (!query || entry.message.toLowerCase().includes(query) || !!entry.path?.toLowerCase().includes(query))
+    && (!fileId.trim() || String(entry.fileid) === fileId.trim())
+    && (!user.trim() || entry.user === user.trim()));
+  const hasContext = entries.some(entry => entry.fileid != null || entry.user != null);
+
+  useEffect(() => {
+    if (follow && scrollRef.current) {
+      scrollRef.current.scrollTop = scrollRef.current.scrollHeight;
+    }
+  }, [entries, levels, search, fileId, user, follow]);
+
+  const toggleLevel = (level: LogLevel, checked: boolean) => {
+    const next = new Set(levels);
+    if (checked) {
+      next.add(level);
+    } else {
+      next.delete(level);
+    }
+    setLevels(next);
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-4">
+        <Select value={jobId ?? undefined} onValueChange={setJobId}>
+          <SelectTrigger className="w-72">
+            <SelectValue placeholder="Select a job" />
+          </SelectTrigger>
+          <SelectContent>
+            {jobs.map(job => (
+              <SelectItem key={job.id} value={job.id}>
+                Job {job.id} ({job.status})
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        {live && <Badge variant="secondary">Live</Badge>}
+        <div className="flex items-center gap-3">
+          {logLevels.map(level => (
+            <div key={level} className="flex items-center space-x-1">
+              <Checkbox
+                id={`log_level_${level}`}
+                checked={levels.has(level)}
+                onCheckedChange={checked => toggleLevel(level, checked === true)}
+              />
+              <Label htmlFor={`log_level_${level}`} className="text-xs">{level}</Label>
+            </div>
+          ))}
+        </div>
+        <Input
+          placeholder="Search log"
+          className="w-56"
+          value={search}
+          onChange={e => setSearch(e.target.value)}
+        />
+        {hasContext && (
+          <>
+            <Input
+              placeholder="File ID"
+              className="w-28"
+              value={fileId}
+              onChange={e => setFileId(e.target.value)}
+            />
+            <Input
+              placeholder="User"
+              className="w-36"
+              value={user}
+              onChange={e => setUser(e.target.value)}
+            />
+          </>
+        )}
+        <div className="flex gap-2 ml-auto">
+          <Button variant="outline" size="sm" onClick={() => setFollow(!follow)}>
+            {follow ? <Pause className="mr-2 h-4 w-4" /> : <Play className="mr-2 h-4 w-4" />}
+            {follow ? 'Pause Scrolling' : 'Follow'}
+          </Button>
+          {jobId && (
+            <Button variant="outline" size="sm" asChild>
+              <a href={api.getLogDownloadUrl(jobId)} download>
+                <Download className="mr-2 h-4 w-4" />
+                Download
+              </a>
+            </Button>
+          )}
+        </div>
+      </div>
+
+      {truncated && (
+        <p className="text-xs text-muted-foreground">
+          Showing the end of the log. Download it for the complete log.
+        </p>
+      )}
+
+      <div
+        ref={scrollRef}
+        className="border rounded-md h-[32rem] overflow-auto bg-muted/30 p-2 font-mono text-xs"
+      >
+        {visible.length > 0 ? visible.map(entry => (
+          <div key={entry.id} className={`whitespace-pre-wrap break-all ${levelClasses[entry.level]}`}>
+            {entry.time && <span className="text-muted-foreground">[{entry.time}]</span>}
+            <span className="font-semibold">[{entry.level}]</span>
+            {entry.phase && <span className="text-muted-foreground">[{entry.phase}]</span>}
+            {entry.fileid != null && (
+              <span className="text-muted-foreground">[#{entry.fileid}{entry.user && ` ${entry.user}`}]</span>
+            )}
+            {' '}{entry.message}
+          </div>
+        )) : (
+          <p className="text-center text-muted-foreground py-6 font-sans text-sm">
+            {!jobId ? 'No migration jobs yet' : entries.length === 0 ? 'No log lines recorded for this job' : 'No lines match the filters'}
+          </p>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,86 @@
+import { useEffect, useState } from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { toast } from '@/components/ui/sonner';
+import * as api from '@/lib/api';
+
+// Seconds between reads of the maintenance state
+const POLL_INTERVAL = 10;
+
+interface MaintenanceStatusProps {
+  /** Changes when the state may have changed elsewhere, e.g. a migration finishing */
+  refreshKey?: unknown;
+}
+
+/**
+ * Live maintenance mode state of the Nextcloud instance, with a switch to
+ * turn it on or off by hand
+ */
+export function MaintenanceStatus({ refreshKey }: MaintenanceStatusProps) {
+  const [enabled, setEnabled] = useState<boolean | null>(null);
+  const [switching, setSwitching] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    const load = () => {
+      api.getMaintenanceMode()
+        .then(state => {
+          if (!cancelled) {
+            setEnabled(state.enabled);
+          }
+        })
+        .catch(() => {
+          if (!cancelled) {
+            setEnabled(null);
+          }
+        });
+    };
+
+    load();
+    const interval = setInterval(load, POLL_INTERVAL * 1000);
+    return () => {
+      cancelled = true;
+      clearInterval(interval);
+    };
+  }, [refreshKey]);
+
+  const toggle = (enable: boolean) => {
+    if (!window.confirm(enable
+      ? 'Turn maintenance mode on? Users are locked out of Nextcloud until it is turned off.'
+      : 'Turn maintenance mode off? Users can use Nextcloud again.')) {
+      return;
+    }
+
+    setSwitching(true);
+    api.setMaintenanceMode(enable)
+      .then(state => {
+        setEnabled(state.enabled);
+        toast.success(`Maintenance mode turned ${state.enabled ? 'on' : 'off'}`
+          + (state.method === 'config' ? ' by editing config.php (occ was not available)' : ''));
+      })
+      .catch(error => toast.error('Failed to switch maintenance mode: ' + error.message))
+      .finally(() => setSwitching(false));
+  };
+
+  return (
+    <div className="flex items-center justify-center gap-3 mt-2">
+      {enabled === null ? (
+        <Badge variant="outline">Maintenance mode unknown</Badge>
+      ) : (
+        <Badge variant={enabled ? 'destructive' : 'secondary'}>
+          Maintenance mode {enabled ? 'on' : 'off'}
+        </Badge>
+      )}
+      <div className="flex items-center space-x-2">
+        <Switch
+          id="maintenance_mode"
+          checked={enabled === true}
+          disabled={enabled === null || switching}
+          onCheckedChange={toggle}
+        />
+        <Label htmlFor="maintenance_mode" className="text-sm">Maintenance</Label>
+      </div>
+    </div>
+  );
+}
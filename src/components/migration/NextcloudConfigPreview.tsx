@@ -0,0 +1,89 @@
+import { useEffect, useState } from 'react';
+import { FileCode } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { toast } from '@/components/ui/sonner';
+import * as api from '@/lib/api';
+import type { MigrationDirection, NextcloudConfigPreview as Preview } from '@/lib/api';
+import { diffLines, type DiffLine } from '@/lib/diff';
+
+// Unchanged lines shown around each change
+const CONTEXT_LINES = 3;
+
+const lineClasses: Record<DiffLine['type'], string> = {
+  same: '',
+  added: 'bg-green-500/10 text-green-700',
+  removed: 'bg-red-500/10 text-red-700',
+};
+
+const linePrefixes: Record<DiffLine['type'], string> = {
+  same: ' ',
+  added: '+',
+  removed: '-',
+};
+
+interface NextcloudConfigPreviewProps {
+  direction: MigrationDirection;
+  /** Whether the migration writes config.php during cutover */
+  enabled: boolean;
+}
+
+/**
+ * Shows the changes a migration makes to the objectstore section of
+ * Nextcloud's config.php, with passwords and secrets masked
+ */
+export function NextcloudConfigPreview({ direction, enabled }: NextcloudConfigPreviewProps) {
+  const [preview, setPreview] = useState<Preview | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  // Every direction writes a different section
+  useEffect(() => {
+    setPreview(null);
+  }, [direction]);
+
+  const loadPreview = () => {
+    setLoading(true);
+    api.previewNextcloudConfig(direction)
+      .then(setPreview)
+      .catch(error => toast.error('Error loading Nextcloud config: ' + error.message))
+      .finally(() => setLoading(false));
+  };
+
+  const lines = preview ? diffLines(preview.current, preview.proposed) : [];
+  const shown = lines.map((line, index) =>
+    lines.slice(Math.max(0, index - CONTEXT_LINES), index + CONTEXT_LINES + 1).some(other => other.type !== 'same'));
+
+  return (
+    <div className="border rounded-md p-4 space-y-3">
+      <div className="flex items-center justify-between">
+        <h4 className="font-medium flex items-center">
+          <FileCode className="mr-2 h-4 w-4" />
+          Nextcloud config.php
+        </h4>
+        <Button variant="outline" size="sm" onClick={loadPreview} disabled={loading}>
+          {loading ? 'Loading...' : preview ? 'Refresh' : 'Preview Changes'}
+        </Button>
+      </div>
+      <p className="text-sm text-muted-foreground">
+        {enabled
+          ? 'A production run covering all users writes these changes during cutover, after saving a timestamped backup of config.php to the backup directory.'
+          : 'Updating config.php is turned off in the configuration: make these changes by hand before leaving maintenance mode.'}
+      </p>
+      {preview && (
+        preview.changed ? (
+          <div className="border rounded-md max-h-96 overflow-auto bg-muted/30 p-2 font-mono text-xs">
+            <p className="text-muted-foreground mb-1">{preview.file}</p>
+            {lines.map((line, index) => shown[index] ? (
+              <div key={index} className={`whitespace-pre ${lineClasses[line.type]}`}>
+                {linePrefixes[line.type]} {line.text}
+              </div>
+            ) : shown[index - 1] ? (
+              <div key={index} className="text-muted-foreground">&hellip;</div>
+            ) : null)}
+          </div>
+        ) : (
+          <p className="text-sm">{preview.file} already matches, nothing to change.</p>
+        )
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,315 @@
+import { useState } from 'react';
+import { Download, FileSearch } from 'lucide-react';
+import { Bar, BarChart, CartesianGrid, XAxis, YAxis } from 'recharts';
+import { Button } from '@/components/ui/button';
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from '@/components/ui/chart';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { toast } from '@/components/ui/sonner';
+import * as api from '@/lib/api';
+import type { MigrationPlan, PlanGroup } from '@/lib/api';
+import { downloadFile, toCsv } from '@/lib/download';
+import { formatBytes, formatDuration } from '@/lib/format';
+import { ruleLabels } from '@/lib/rules';
+
+// Rows shown per breakdown table; exports always contain every row
+const MAX_ROWS = 20;
+
+const histogramConfig = {
+  files: {
+    label: 'Files',
+    color: 'hsl(221 83% 53%)',
+  },
+} satisfies ChartConfig;
+
+const skipReasons: Record<string, string> = {
+  directory: 'Directories',
+  missing: 'Missing on disk',
+  unreadable: 'Not readable',
+};
+
+function planToCsv(plan: MigrationPlan) {
+  const rows: (string | number | null)[][] = [['section', 'label', 'files', 'bytes']];
+  rows.push(['total', 'all', plan.totals.files, plan.totals.bytes]);
+  for (const [section, groups] of [
+    ['user', plan.by_user],
+    ['storage', plan.by_storage],
+    ['mimetype', plan.by_mimetype],
+    ['size', plan.histogram],
+  ] as const) {
+    for (const group of groups) {
+      rows.push([section, group.label, group.files, group.bytes]);
+    }
+  }
+  for (const [reason, counts] of Object.entries(plan.skipped.counts)) {
+    rows.push(['skipped', reason, counts.files, counts.bytes]);
+  }
+  for (const rule of plan.rules) {
+    rows.push([`rule:${rule.type}`, String(rule.value), rule.files, rule.bytes]);
+  }
+  if (plan.estimate) {
+    rows.push(['estimate_seconds', plan.estimate.source, null, plan.estimate.seconds]);
+  }
+
+  rows.push([]);
+  rows.push(['skipped_fileid', 'path', 'size', 'reason']);
+  for (const file of plan.skipped.files) {
+    rows.push([file.fileid, file.path, file.size, file.reason]);
+  }
+
+  return toCsv(rows);
+}
+
+function GroupTable({ title, groups }: { title: string; groups: PlanGroup[] }) {
+  return (
+    <div className="space-y-2">
+      <h4 className="font-medium">{title}</h4>
+      <div className="border rounded-md">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>{title.replace(/^By /, '')}</TableHead>
+              <TableHead className="text-right">Files</TableHead>
+              <TableHead className="text-right">Size</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {groups.slice(0, MAX_ROWS).map(group => (
+              <TableRow key={group.label}>
+                <TableCell className="max-w-xs truncate" title={group.label}>{group.label}</TableCell>
+                <TableCell className="text-right">{group.files}</TableCell>
+                <TableCell className="text-right whitespace-nowrap">{formatBytes(group.bytes)}</TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+      {groups.length > MAX_ROWS && (
+        <p className="text-xs text-muted-foreground">
+          Showing the {MAX_ROWS} largest of {groups.length}. Export the plan for the full list.
+        </p>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Migration plan: what would be migrated, what would be skipped and how
+ * long it should take
+ */
+export function PlanView() {
+  const [plan, setPlan] = useState<MigrationPlan | null>(null);
+  const [throughput, setThroughput] = useState('');
+  const [checkDisk, setCheckDisk] = useState(true);
+  const [loading, setLoading] = useState(false);
+
+  const generatePlan = () => {
+    setLoading(true);
+    api.planMigration({
+      throughput_mbps: throughput ? parseFloat(throughput) : undefined,
+      check_disk: checkDisk,
+    })
+      .then(setPlan)
+      .catch(error => toast.error('Failed to build migration plan: ' + error.message))
+      .finally(() => setLoading(false));
+  };
+
+  const exportPlan = (format: 'json' | 'csv') => {
+    const name = `migration-plan-${plan.generated_at.slice(0, 10)}`;
+    if (format === 'json') {
+      downloadFile(`${name}.json`, JSON.stringify(plan, null, 2), 'application/json');
+    } else {
+      downloadFile(`${name}.csv`, planToCsv(plan), 'text/csv');
+    }
+  };
+
+  const skippedTotal = plan
+    ? Object.values(plan.skipped.counts).reduce((sum, counts) => sum + counts.files, 0)
+    : 0;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-end gap-4">
+        <div className="space-y-2">
+          <Label htmlFor="plan_throughput">Throughput (MB/s)</Label>
+          <Input
+            id="plan_throughput"
+            type="number"
+            min={0}
+            step="any"
+            placeholder="Measured"
+            className="w-40"
+            value={throughput}
+            onChange={e => setThroughput(e.target.value)}
+          />
+        </div>
+        <div className="flex items-center space-x-2 pb-2">
+          <Checkbox
+            id="plan_check_disk"
+            checked={checkDisk}
+            onCheckedChange={checked => setCheckDisk(checked === true)}
+          />
+          <Label htmlFor="plan_check_disk">Check files exist on disk</Label>
+        </div>
+        <Button onClick={generatePlan} disabled={loading}>
+          <FileSearch className="mr-2 h-4 w-4" />
+          {loading ? 'Building plan...' : 'Build Plan'}
+        </Button>
+        {plan && (
+          <div className="flex gap-2 ml-auto">
+            <Button variant="outline" onClick={() => exportPlan('json')}>
+              <Download className="mr-2 h-4 w-4" />
+              JSON
+            </Button>
+            <Button variant="outline" onClick={() => exportPlan('csv')}>
+              <Download className="mr-2 h-4 w-4" />
+              CSV
+            </Button>
+          </div>
+        )}
+      </div>
+
+      {plan && (
+        <>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4 border rounded-md p-4">
+            <div>
+              <p className="text-sm text-muted-foreground">Files to Migrate</p>
+              <p className="text-lg font-medium">{plan.totals.files}</p>
+            </div>
+            <div>
+              <p className="text-sm text-muted-foreground">Data to Migrate</p>
+              <p className="text-lg font-medium">{formatBytes(plan.totals.bytes)}</p>
+            </div>
+            <div>
+              <p className="text-sm text-muted-foreground">Skipped</p>
+              <p className="text-lg font-medium">{skippedTotal}</p>
+            </div>
+            <div>
+              <p className="text-sm text-muted-foreground">Estimated Duration</p>
+              <p className="text-lg font-medium">{plan.estimate ? formatDuration(plan.estimate.seconds) : 'Unknown'}</p>
+              {plan.estimate && (
+                <p className="text-xs text-muted-foreground">
+                  {plan.estimate.source === 'measured' ? `Measured on job ${plan.estimate.job_id}` : 'Configured'}
+                  {' '}&middot; {formatBytes(Math.round(plan.estimate.bytes_per_second))}/s
+                  {plan.estimate.files_per_second !== null && `, ${plan.estimate.files_per_second.toFixed(1)} files/s`}
+                </p>
+              )}
+            </div>
+          </div>
+
+          {!plan.estimate && (
+            <p className="text-sm text-muted-foreground">
+              No throughput measured yet. Enter the expected throughput or run a test migration to get an estimate.
+            </p>
+          )}
+
+          <div className="space-y-2">
+            <h4 className="font-medium">File Sizes</h4>
+            <ChartContainer config={histogramConfig} className="aspect-auto h-56 w-full">
+              <BarChart data={plan.histogram}>
+                <CartesianGrid vertical={false} />
+                <XAxis dataKey="label" tickLine={false} axisLine={false} />
+                <YAxis tickLine={false} axisLine={false} width={48} />
+                <ChartTooltip
+                  content={
+                    <ChartTooltipContent
+                      formatter={(value, _, item) => `${value} files, ${formatBytes(item.payload.bytes)}`}
+                    />
+                  }
+                />
+                <Bar dataKey="files" fill="var(--color-files)" radius={4} />
+              </BarChart>
+            </ChartContainer>
+          </div>
+
+          {plan.rules.length > 0 && (
+            <div className="space-y-2">
+              <h4 className="font-medium">Migration Rules</h4>
+              <p className="text-sm text-muted-foreground">
+                Files each rule matches on its own. The totals above already have every rule applied.
+              </p>
+              <div className="border rounded-md">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Rule</TableHead>
+                      <TableHead>Value</TableHead>
+                      <TableHead className="text-right">Files</TableHead>
+                      <TableHead className="text-right">Size</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {plan.rules.map(rule => (
+                      <TableRow key={`${rule.type}:${rule.value}`}>
+                        <TableCell>{ruleLabels[rule.type]}</TableCell>
+                        <TableCell className="font-mono">
+                          {typeof rule.value === 'number' ? formatBytes(rule.value) : rule.value}
+                          {!rule.resolved && (
+                            <span className="ml-2 font-sans text-xs text-destructive">Unknown mimetype</span>
+                          )}
+                        </TableCell>
+                        <TableCell className="text-right">{rule.files}</TableCell>
+                        <TableCell className="text-right whitespace-nowrap">{formatBytes(rule.bytes)}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            </div>
+          )}
+
+          <div className="grid gap-6 md:grid-cols-2">
+            <GroupTable title="By User" groups={plan.by_user} />
+            <GroupTable title="By Mimetype" groups={plan.by_mimetype} />
+            <GroupTable title="By Storage" groups={plan.by_storage} />
+          </div>
+
+          {skippedTotal > 0 && (
+            <div className="space-y-2">
+              <h4 className="font-medium">Skipped</h4>
+              <ul className="text-sm list-disc pl-5">
+                {Object.entries(plan.skipped.counts).map(([reason, counts]) => (
+                  <li key={reason}>
+                    {skipReasons[reason] ?? reason}: {counts.files}
+                    {counts.bytes > 0 && ` (${formatBytes(counts.bytes)})`}
+                  </li>
+                ))}
+              </ul>
+              {plan.skipped.files.length > 0 && (
+                <div className="border rounded-md max-h-96 overflow-auto">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>File ID</TableHead>
+                        <TableHead>Path</TableHead>
+                        <TableHead className="text-right">Size</TableHead>
+                        <TableHead>Reason</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {plan.skipped.files.map(file => (
+                        <TableRow key={file.fileid}>
+                          <TableCell className="font-mono">{file.fileid}</TableCell>
+                          <TableCell className="max-w-xs truncate" title={file.path}>{file.path}</TableCell>
+                          <TableCell className="text-right whitespace-nowrap">{formatBytes(file.size)}</TableCell>
+                          <TableCell>{skipReasons[file.reason] ?? file.reason}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              )}
+              {plan.skipped.truncated && (
+                <p className="text-xs text-muted-foreground">
+                  Only the first {plan.skipped.files.length} skipped files are listed.
+                </p>
+              )}
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
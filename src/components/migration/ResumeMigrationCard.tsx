@@ -0,0 +1,93 @@
+import { formatDistanceToNow } from 'date-fns';
+import { History } from 'lucide-react';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
+import { Button } from '@/components/ui/button';
+import type { Job } from '@/lib/api';
+import { formatBytes } from '@/lib/format';
+import { migrationOrderOptions } from '@/lib/migrationOrder';
+
+const phaseLabels: Record<string, string> = {
+  files: 'Migrating files',
+  storage_update: 'Updating storage providers',
+  complete: 'Complete',
+};
+
+interface ResumeMigrationCardProps {
+  jobs: Job[];
+  onResume: (job: Job) => void;
+}
+
+/**
+ * Lists migrations that stopped without finishing and offers to carry on
+ * from their last checkpoint
+ */
+export function ResumeMigrationCard({ jobs, onResume }: ResumeMigrationCardProps) {
+  if (jobs.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="border rounded-md p-4 space-y-3">
+      <h4 className="font-medium flex items-center">
+        <History className="mr-2 h-4 w-4" />
+        Resume interrupted migration
+      </h4>
+      {jobs.map(job => {
+        const checkpoint = job.checkpoint;
+        const remaining = Math.max(0, checkpoint.total - checkpoint.migrated - checkpoint.failed);
+        const age = formatDistanceToNow(new Date(checkpoint.saved_at), { addSuffix: true });
+
+        return (
+          <div key={job.id} className="flex items-center justify-between text-sm">
+            <div>
+              <p className="font-medium">Job {job.id}</p>
+              <p className="text-muted-foreground">
+                {job.status === 'interrupted' ? 'Interrupted' : 'Failed'}, checkpoint saved {age} &middot; {remaining} files left
+              </p>
+            </div>
+            <AlertDialog>
+              <AlertDialogTrigger asChild>
+                <Button variant="outline" size="sm">Resume</Button>
+              </AlertDialogTrigger>
+              <AlertDialogContent>
+                <AlertDialogHeader>
+                  <AlertDialogTitle>Resume migration {job.id}?</AlertDialogTitle>
+                  <AlertDialogDescription asChild>
+                    <div className="space-y-1">
+                      <p>
+                        The migration carries on after the last committed file, in the order it was started with.
+                        Files after it are processed again.
+                      </p>
+                      <ul className="list-disc pl-5 pt-2">
+                        <li>Checkpoint saved {age} ({new Date(checkpoint.saved_at).toLocaleString()})</li>
+                        <li>Phase: {phaseLabels[checkpoint.phase] ?? checkpoint.phase}</li>
+                        <li>Order: {migrationOrderOptions[checkpoint.order ?? 'fileid'].label}</li>
+                        <li>Done: {checkpoint.migrated} migrated, {checkpoint.failed} failed ({formatBytes(checkpoint.bytes)})</li>
+                        <li>Remaining: {remaining} of {checkpoint.total} files</li>
+                        {checkpoint.backup_file && <li>Database backup: {checkpoint.backup_file}</li>}
+                      </ul>
+                    </div>
+                  </AlertDialogDescription>
+                </AlertDialogHeader>
+                <AlertDialogFooter>
+                  <AlertDialogCancel>Cancel</AlertDialogCancel>
+                  <AlertDialogAction onClick={() => onResume(job)}>Resume Migration</AlertDialogAction>
+                </AlertDialogFooter>
+              </AlertDialogContent>
+            </AlertDialog>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,119 @@
+import { Filter, Plus } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import type { MigrationRules } from '@/lib/api';
+import { isRulesEmpty } from '@/lib/rules';
+
+type ListRule = 'include_paths' | 'exclude_paths' | 'include_mimetypes' | 'exclude_mimetypes';
+
+const MB = 1024 * 1024;
+
+// Paths are relative to the storage: home storages start at files/,
+// the root storage at the user or appdata folder
+const presets: { label: string; rule: ListRule; values: string[] }[] = [
+  { label: 'Trash bin', rule: 'exclude_paths', values: ['files_trashbin/*', '*/files_trashbin/*'] },
+  { label: 'Previews', rule: 'exclude_paths', values: ['appdata_*/preview/*'] },
+  { label: 'Cache', rule: 'exclude_paths', values: ['cache/*', '*/cache/*'] },
+  { label: 'ISO images', rule: 'exclude_mimetypes', values: ['application/x-iso9660-image'] },
+];
+
+const listRules: { rule: ListRule; label: string; placeholder: string }[] = [
+  { rule: 'include_paths', label: 'Include Paths', placeholder: 'files/Projects/*' },
+  { rule: 'exclude_paths', label: 'Exclude Paths', placeholder: 'files_trashbin/*' },
+  { rule: 'include_mimetypes', label: 'Include Mimetypes', placeholder: 'image' },
+  { rule: 'exclude_mimetypes', label: 'Exclude Mimetypes', placeholder: 'video/mp4' },
+];
+
+interface RulesEditorProps {
+  value: MigrationRules;
+  onChange: (value: MigrationRules) => void;
+}
+
+/**
+ * Include/exclude rules limiting the files a migration picks up, one
+ * pattern or mimetype per line
+ */
+export function RulesEditor({ value, onChange }: RulesEditorProps) {
+  const addPreset = (rule: ListRule, values: string[]) => {
+    const current = (value[rule] ?? []).filter(line => line.trim() !== '');
+    onChange({ ...value, [rule]: [...current, ...values.filter(entry => !current.includes(entry))] });
+  };
+
+  const setSize = (bound: 'min_size' | 'max_size', input: string) => {
+    onChange({ ...value, [bound]: input === '' ? null : Math.round(parseFloat(input) * MB) });
+  };
+
+  return (
+    <div>
+      <h3 className="text-lg font-medium flex items-center">
+        <Filter className="mr-2 h-5 w-5" />
+        Migration Rules
+      </h3>
+      <p className="text-sm text-muted-foreground mt-1">
+        Path patterns match the path inside the storage (<code>files_trashbin/*</code> in a home storage,
+        {' '}<code>alice/files_trashbin/*</code> in the root storage); <code>*</code> matches anything including
+        {' '}<code>/</code>, <code>?</code> a single character. Mimetypes can be full types or groups such
+        as <code>video</code>. With any rule set, storage providers stay local so the remaining files can be
+        migrated in a later run.
+      </p>
+      <div className="flex flex-wrap gap-2 mt-3">
+        {presets.map(preset => (
+          <Button
+            key={preset.label}
+            type="button"
+            variant="outline"
+            size="sm"
+            onClick={() => addPreset(preset.rule, preset.values)}
+          >
+            <Plus className="mr-1 h-3 w-3" />
+            Exclude {preset.label}
+          </Button>
+        ))}
+      </div>
+      <div className="grid grid-cols-2 gap-4 mt-4">
+        {listRules.map(({ rule, label, placeholder }) => (
+          <div key={rule} className="space-y-2">
+            <Label htmlFor={`rules_${rule}`}>{label}</Label>
+            <Textarea
+              id={`rules_${rule}`}
+              rows={3}
+              className="font-mono text-sm"
+              placeholder={placeholder}
+              value={(value[rule] ?? []).join('\n')}
+              onChange={e => onChange({ ...value, [rule]: e.target.value.split('\n') })}
+            />
+          </div>
+        ))}
+        <div className="space-y-2">
+          <Label htmlFor="rules_min_size">Minimum Size (MB)</Label>
+          <Input
+            id="rules_min_size"
+            type="number"
+            min={0}
+            step="any"
+            value={value.min_size == null ? '' : value.min_size / MB}
+            onChange={e => setSize('min_size', e.target.value)}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="rules_max_size">Maximum Size (MB)</Label>
+          <Input
+            id="rules_max_size"
+            type="number"
+            min={0}
+            step="any"
+            value={value.max_size == null ? '' : value.max_size / MB}
+            onChange={e => setSize('max_size', e.target.value)}
+          />
+        </div>
+      </div>
+      {!isRulesEmpty(value) && (
+        <p className="text-sm text-muted-foreground mt-2">
+          Build a plan to see how many files each rule matches.
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,142 @@
+import { Link } from 'react-router-dom';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import type { Job } from '@/lib/api';
+import { formatBytes, formatDuration } from '@/lib/format';
+import { describeRun, diffConfig, formatConfigValue, getRunMetrics, type RunMetric } from '@/lib/runs';
+
+function formatMetric(metric: RunMetric) {
+  if (metric.value === null) return '—';
+  switch (metric.format) {
+    case 'bytes':
+      return formatBytes(metric.value);
+    case 'seconds':
+      return formatDuration(metric.value);
+    case 'rate':
+      return formatBytes(metric.value) + '/s';
+    default:
+      return metric.value.toLocaleString();
+  }
+}
+
+function formatDelta(metric: RunMetric, other: RunMetric) {
+  if (metric.value === null || other.value === null || other.value === 0) {
+    return { text: '—', className: 'text-muted-foreground' };
+  }
+  const change = (metric.value - other.value) / other.value * 100;
+  if (Math.abs(change) < 0.5) {
+    return { text: '±0%', className: 'text-muted-foreground' };
+  }
+  const better = (change > 0) === metric.higherIsBetter;
+  return {
+    text: `${change > 0 ? '+' : ''}${change.toFixed(0)}%`,
+    className: better ? 'text-green-600' : 'text-red-600',
+  };
+}
+
+function runLabel(job: Job) {
+  return `${new Date(job.started_at ?? job.created_at).toLocaleString()} (${describeRun(job)}, ${job.status})`;
+}
+
+interface RunComparisonProps {
+  job: Job;
+  runs: Job[];
+  compareWith: Job | null;
+  onCompareWithChange: (jobId: string) => void;
+}
+
+/**
+ * Figures and settings of a run next to those of another run, e.g. a test
+ * run next to the production run that followed it
+ */
+export function RunComparison({ job, runs, compareWith, onCompareWithChange }: RunComparisonProps) {
+  const others = runs.filter(run => run.id !== job.id);
+  if (others.length === 0) {
+    return <p className="text-sm text-muted-foreground">No other runs to compare with yet.</p>;
+  }
+
+  const metrics = getRunMetrics(job);
+  const otherMetrics = compareWith ? getRunMetrics(compareWith) : [];
+  const changes = compareWith ? diffConfig(compareWith.config, job.config) : [];
+
+  return (
+    <div className="space-y-4">
+      <Select value={compareWith?.id} onValueChange={onCompareWithChange}>
+        <SelectTrigger className="w-full md:w-[28rem]">
+          <SelectValue placeholder="Select a run to compare with" />
+        </SelectTrigger>
+        <SelectContent>
+          {others.map(run => (
+            <SelectItem key={run.id} value={run.id}>{runLabel(run)}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      {compareWith && (
+        <>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead />
+                <TableHead className="text-right">This run</TableHead>
+                <TableHead className="text-right">
+                  <Link to={`/history/${compareWith.id}`} className="underline">Compared run</Link>
+                </TableHead>
+                <TableHead className="text-right">Change</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              <TableRow>
+                <TableCell>Mode</TableCell>
+                <TableCell className="text-right">{describeRun(job)}</TableCell>
+                <TableCell className="text-right">{describeRun(compareWith)}</TableCell>
+                <TableCell />
+              </TableRow>
+              {metrics.map((metric, i) => {
+                const delta = formatDelta(metric, otherMetrics[i]);
+                return (
+                  <TableRow key={metric.key}>
+                    <TableCell>{metric.label}</TableCell>
+                    <TableCell className="text-right">{formatMetric(metric)}</TableCell>
+                    <TableCell className="text-right">{formatMetric(otherMetrics[i])}</TableCell>
+                    <TableCell className={`text-right ${delta.className}`}>{delta.text}</TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+
+          <div>
+            <h3 className="text-sm font-medium mb-2">Changed Settings</h3>
+            {!job.config || !compareWith.config ? (
+              <p className="text-sm text-muted-foreground">
+                One of the runs has no recorded settings; it was started before run history was kept.
+              </p>
+            ) : changes.length === 0 ? (
+              <p className="text-sm text-muted-foreground">Both runs used the same settings.</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Setting</TableHead>
+                    <TableHead>This run</TableHead>
+                    <TableHead>Compared run</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {changes.map(change => (
+                    <TableRow key={change.key}>
+                      <TableCell className="font-mono text-xs">{change.key}</TableCell>
+                      <TableCell className="font-mono text-xs break-all">{formatConfigValue(change.b)}</TableCell>
+                      <TableCell className="font-mono text-xs break-all">{formatConfigValue(change.a)}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
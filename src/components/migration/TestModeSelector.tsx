@@ -0,0 +1,73 @@
+import { useEffect, useState } from 'react';
+import { Label } from '@/components/ui/label';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { toast } from '@/components/ui/sonner';
+import * as api from '@/lib/api';
+import type { TestMode, UserSummary } from '@/lib/api';
+import { formatBytes } from '@/lib/format';
+import { getTestModeLevel, testModeOptions, type TestModeLevel } from '@/lib/testMode';
+
+interface TestModeSelectorProps {
+  value: TestMode;
+  onChange: (value: TestMode) => void;
+}
+
+/**
+ * Test mode levels with what each of them does and doesn't touch. Picking
+ * "Single user" leaves the value as an empty user name until one is chosen.
+ */
+export function TestModeSelector({ value, onChange }: TestModeSelectorProps) {
+  const level = getTestModeLevel(value);
+  const [users, setUsers] = useState<UserSummary[] | null>(null);
+
+  useEffect(() => {
+    if (level !== 'user' || users !== null) {
+      return;
+    }
+    api.listUsers()
+      .then(setUsers)
+      .catch(error => {
+        setUsers([]);
+        toast.error('Error loading users: ' + error.message);
+      });
+  }, [level, users]);
+
+  const selectLevel = (selected: TestModeLevel) => {
+    const values: Record<TestModeLevel, TestMode> = { off: false, upload: 1, dry_run: 2, user: '' };
+    onChange(values[selected]);
+  };
+
+  return (
+    <RadioGroup value={level} onValueChange={selectLevel} className="gap-3">
+      {testModeOptions.map(option => (
+        <div key={option.level} className="flex items-start space-x-3 border rounded-md p-3">
+          <RadioGroupItem value={option.level} id={`test_mode_${option.level}`} className="mt-1" />
+          <div className="space-y-1 flex-1">
+            <Label htmlFor={`test_mode_${option.level}`}>{option.label}</Label>
+            <p className="text-sm text-muted-foreground">
+              <span className="font-medium">Does:</span> {option.does}
+            </p>
+            <p className="text-sm text-muted-foreground">
+              <span className="font-medium">Won't:</span> {option.doesNot}
+            </p>
+            {option.level === 'user' && level === 'user' && (
+              <Select value={typeof value === 'string' && value ? value : undefined} onValueChange={onChange}>
+                <SelectTrigger className="w-64 mt-2">
+                  <SelectValue placeholder={users === null ? 'Loading users...' : 'Select a user'} />
+                </SelectTrigger>
+                <SelectContent>
+                  {(users ?? []).map(user => (
+                    <SelectItem key={user.user} value={user.user}>
+                      {user.user} ({user.files} files, {formatBytes(user.bytes)})
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+          </div>
+        </div>
+      ))}
+    </RadioGroup>
+  );
+}
@@ -0,0 +1,90 @@
+import { format } from 'date-fns';
+import { Area, AreaChart, CartesianGrid, XAxis, YAxis } from 'recharts';
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from '@/components/ui/chart';
+import type { ProgressSample } from '@/lib/api';
+import { toRateSeries } from '@/lib/throughput';
+
+const filesConfig = {
+  filesPerSecond: {
+    label: 'Files/s',
+    color: 'hsl(221 83% 53%)',
+  },
+} satisfies ChartConfig;
+
+const bytesConfig = {
+  megabytesPerSecond: {
+    label: 'MB/s',
+    color: 'hsl(142 71% 45%)',
+  },
+} satisfies ChartConfig;
+
+interface ThroughputChartsProps {
+  samples: ProgressSample[];
+}
+
+interface RateChartProps {
+  title: string;
+  config: ChartConfig;
+  dataKey: string;
+  data: Record<string, number>[];
+}
+
+function RateChart({ title, config, dataKey, data }: RateChartProps) {
+  return (
+    <div className="border rounded-md p-4">
+      <p className="text-sm text-muted-foreground mb-2">{title}</p>
+      <ChartContainer config={config} className="aspect-auto h-40 w-full">
+        <AreaChart data={data} margin={{ left: 0, right: 8 }}>
+          <CartesianGrid vertical={false} />
+          <XAxis
+            dataKey="t"
+            tickLine={false}
+            axisLine={false}
+            minTickGap={32}
+            tickFormatter={t => format(new Date(t * 1000), 'HH:mm')}
+          />
+          <YAxis tickLine={false} axisLine={false} width={40} tickFormatter={value => value.toFixed(value < 10 ? 1 : 0)} />
+          <ChartTooltip
+            content={
+              <ChartTooltipContent
+                labelFormatter={(_, payload) => format(new Date(payload[0].payload.t * 1000), 'HH:mm:ss')}
+                formatter={value => `${Number(value).toFixed(2)} ${config[dataKey].label}`}
+              />
+            }
+          />
+          <Area
+            dataKey={dataKey}
+            type="monotone"
+            stroke={`var(--color-${dataKey})`}
+            fill={`var(--color-${dataKey})`}
+            fillOpacity={0.2}
+            isAnimationActive={false}
+          />
+        </AreaChart>
+      </ChartContainer>
+    </div>
+  );
+}
+
+/**
+ * Files/sec and MB/sec over the course of a migration job
+ */
+export function ThroughputCharts({ samples }: ThroughputChartsProps) {
+  const series = toRateSeries(samples);
+  if (series.length < 2) {
+    return null;
+  }
+
+  const data = series.map(point => ({
+    t: point.t,
+    filesPerSecond: point.filesPerSecond,
+    megabytesPerSecond: point.bytesPerSecond / (1024 * 1024),
+  }));
+
+  return (
+    <div className="grid gap-4 md:grid-cols-2">
+      <RateChart title="Files per second" config={filesConfig} dataKey="filesPerSecond" data={data} />
+      <RateChart title="MB per second" config={bytesConfig} dataKey="megabytesPerSecond" data={data} />
+    </div>
+  );
+}
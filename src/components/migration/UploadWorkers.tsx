@@ -0,0 +1,54 @@
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import type { UploadWorker } from '@/lib/api';
+import { formatBytes } from '@/lib/format';
+
+interface UploadWorkersProps {
+  inFlight: number;
+  workers: UploadWorker[];
+}
+
+/**
+ * Uploads in flight and the throughput of each parallel upload worker
+ */
+export function UploadWorkers({ inFlight, workers }: UploadWorkersProps) {
+  if (workers.length === 0) {
+    return null;
+  }
+
+  const totalRate = workers.reduce((sum, worker) => sum + worker.bytes_per_second, 0);
+
+  return (
+    <div className="border rounded-md p-4 space-y-3">
+      <div className="flex justify-between text-sm">
+        <span className="text-muted-foreground">Uploads in flight</span>
+        <span className="font-medium">{inFlight} of {workers.length} workers &middot; {formatBytes(totalRate)}/s</span>
+      </div>
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Worker</TableHead>
+            <TableHead className="text-right">Files</TableHead>
+            <TableHead className="text-right">Data</TableHead>
+            <TableHead className="text-right">Throughput</TableHead>
+            <TableHead>Current File</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {workers.map(worker => (
+            <TableRow key={worker.slot}>
+              <TableCell>#{worker.slot + 1}</TableCell>
+              <TableCell className="text-right">{worker.files}</TableCell>
+              <TableCell className="text-right whitespace-nowrap">{formatBytes(worker.bytes)}</TableCell>
+              <TableCell className="text-right whitespace-nowrap">{formatBytes(worker.bytes_per_second)}/s</TableCell>
+              <TableCell className="max-w-xs">
+                <p className="truncate text-muted-foreground" title={worker.current_file ?? undefined}>
+                  {worker.current_file ?? 'Idle'}
+                </p>
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </div>
+  );
+}
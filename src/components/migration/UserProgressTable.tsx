@@ -0,0 +1,55 @@
+import { Progress } from '@/components/ui/progress';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import type { UserProgress } from '@/lib/api';
+import { formatBytes } from '@/lib/format';
+
+interface UserProgressTableProps {
+  users: UserProgress[];
+}
+
+/**
+ * Completion of each user in a migration limited to selected users
+ */
+export function UserProgressTable({ users }: UserProgressTableProps) {
+  if (users.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="border rounded-md max-h-96 overflow-auto">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>User</TableHead>
+            <TableHead className="w-1/3">Progress</TableHead>
+            <TableHead className="text-right">Files</TableHead>
+            <TableHead className="text-right">Failed</TableHead>
+            <TableHead className="text-right">Data</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {users.map(user => {
+            const done = user.migrated + user.failed;
+            const percent = user.total > 0 ? Math.round(done / user.total * 100) : 100;
+            return (
+              <TableRow key={user.user}>
+                <TableCell>{user.user}</TableCell>
+                <TableCell>
+                  <div className="flex items-center gap-2">
+                    <Progress value={percent} className="h-2" />
+                    <span className="text-xs text-muted-foreground w-10 text-right">{percent}%</span>
+                  </div>
+                </TableCell>
+                <TableCell className="text-right whitespace-nowrap">{done} / {user.total}</TableCell>
+                <TableCell className="text-right">{user.failed}</TableCell>
+                <TableCell className="text-right whitespace-nowrap">
+                  {formatBytes(user.bytes)} / {formatBytes(user.total_bytes)}
+                </TableCell>
+              </TableRow>
+            );
+          })}
+        </TableBody>
+      </Table>
+    </div>
+  );
+}
@@ -0,0 +1,154 @@
+import { useEffect, useState } from 'react';
+import { Users } from 'lucide-react';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { toast } from '@/components/ui/sonner';
+import * as api from '@/lib/api';
+import type { MigrationDirection, UserSummary } from '@/lib/api';
+import { formatBytes } from '@/lib/format';
+
+interface UserSelectorProps {
+  /** Selected user IDs, or null to migrate every user */
+  value: string[] | null;
+  onChange: (value: string[] | null) => void;
+  direction?: MigrationDirection;
+}
+
+/**
+ * Choose between migrating every user and a selection of users, picked
+ * from the home storages of the migration's source
+ */
+export function UserSelector({ value, onChange, direction = 'to_s3' }: UserSelectorProps) {
+  const [users, setUsers] = useState<UserSummary[] | null>(null);
+  const [filter, setFilter] = useState('');
+  const reverse = direction !== 'to_s3';
+
+  // The other direction migrates from other storages
+  useEffect(() => {
+    setUsers(null);
+  }, [direction]);
+
+  useEffect(() => {
+    if (value === null || users !== null) {
+      return;
+    }
+    api.listUsers(direction)
+      .then(setUsers)
+      .catch(error => {
+        setUsers([]);
+        toast.error('Error loading users: ' + error.message);
+      });
+  }, [value, users, direction]);
+
+  const selected = new Set(value ?? []);
+  const visible = (users ?? []).filter(user => user.user.toLowerCase().includes(filter.toLowerCase()));
+  const selectedUsers = (users ?? []).filter(user => selected.has(user.user));
+  const multibucket = (users ?? []).some(user => user.bucket);
+
+  const toggle = (userIds: string[], checked: boolean) => {
+    const next = new Set(selected);
+    for (const userId of userIds) {
+      if (checked) {
+        next.add(userId);
+      } else {
+        next.delete(userId);
+      }
+    }
+    onChange(Array.from(next).sort());
+  };
+
+  return (
+    <div className="border rounded-md p-4 space-y-3">
+      <h4 className="font-medium flex items-center">
+        <Users className="mr-2 h-4 w-4" />
+        Users
+      </h4>
+      <RadioGroup
+        value={value === null ? 'all' : 'selected'}
+        onValueChange={mode => onChange(mode === 'all' ? null : [])}
+        className="flex gap-6"
+      >
+        <div className="flex items-center space-x-2">
+          <RadioGroupItem value="all" id="users_all" />
+          <Label htmlFor="users_all">All users</Label>
+        </div>
+        <div className="flex items-center space-x-2">
+          <RadioGroupItem value="selected" id="users_selected" />
+          <Label htmlFor="users_selected">Selected users</Label>
+        </div>
+      </RadioGroup>
+
+      {value !== null && (
+        <>
+          <p className="text-sm text-muted-foreground">
+            {direction === 'to_local' ? (
+              <>
+                Only the selected users' home folders are downloaded, and their home storages are switched back to
+                local storage at the end of the run. The other users and the root storage follow with a run covering
+                all users.
+              </>
+            ) : direction === 's3_to_s3' ? (
+              <>
+                Only the selected users' home folders are copied. The object storage is switched to the target
+                bucket by a run covering all users, so copy everyone before relying on the target bucket.
+              </>
+            ) : (
+              <>
+                Only the selected users' home folders are uploaded, and their home storages are switched to S3 at
+                the end of the run. The other users and the root storage follow with a run covering all users.
+              </>
+            )}
+          </p>
+          <Input placeholder="Filter users" value={filter} onChange={e => setFilter(e.target.value)} />
+          <div className="border rounded-md max-h-72 overflow-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-8">
+                    <Checkbox
+                      checked={visible.length > 0 && visible.every(user => selected.has(user.user))}
+                      onCheckedChange={checked => toggle(visible.map(user => user.user), checked === true)}
+                    />
+                  </TableHead>
+                  <TableHead>User</TableHead>
+                  {multibucket && <TableHead>Bucket</TableHead>}
+                  <TableHead className="text-right">Files</TableHead>
+                  <TableHead className="text-right">Size</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {visible.length > 0 ? visible.map(user => (
+                  <TableRow key={user.user}>
+                    <TableCell>
+                      <Checkbox
+                        checked={selected.has(user.user)}
+                        onCheckedChange={checked => toggle([user.user], checked === true)}
+                      />
+                    </TableCell>
+                    <TableCell>{user.user}</TableCell>
+                    {multibucket && <TableCell className="font-mono text-xs">{user.bucket}</TableCell>}
+                    <TableCell className="text-right">{user.files}</TableCell>
+                    <TableCell className="text-right whitespace-nowrap">{formatBytes(user.bytes)}</TableCell>
+                  </TableRow>
+                )) : (
+                  <TableRow>
+                    <TableCell colSpan={multibucket ? 5 : 4} className="text-center text-muted-foreground py-6">
+                      {users === null ? 'Loading users...' : `No users with ${reverse ? 'an object store' : 'a local'} home storage`}
+                    </TableCell>
+                  </TableRow>
+                )}
+              </TableBody>
+            </Table>
+          </div>
+          <p className="text-sm">
+            {selectedUsers.length} selected: {selectedUsers.reduce((sum, user) => sum + user.files, 0)} files,
+            {' '}{formatBytes(selectedUsers.reduce((sum, user) => sum + user.bytes, 0))}
+          </p>
+        </>
+      )}
+    </div>
+  );
+}
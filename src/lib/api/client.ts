@@ -0,0 +1,338 @@
+import { z } from 'zod';
+import {
+  auditJobSchema,
+  checkResultsSchema,
+  failuresSchema,
+  jobSchema,
+  ledgerPageSchema,
+  logChunkSchema,
+  maintenanceModeSchema,
+  migrationPlanSchema,
+  migrationStatusSchema,
+  nextcloudConfigPreviewSchema,
+  previewCleanupResultSchema,
+  storedConfigSchema,
+  userSummarySchema,
+  type AuditCleanupOptions,
+  type AuditJob,
+  type AuditListName,
+  type CheckResults,
+  type Failures,
+  type Job,
+  type JobControl,
+  type LedgerPage,
+  type LedgerState,
+  type LogChunk,
+  type MaintenanceMode,
+  type MigrationConfig,
+  type MigrationDirection,
+  type MigrationPlan,
+  type MigrationStatus,
+  type NextcloudConfigPreview,
+  type PreviewCleanupResult,
+  type StoredConfig,
+  type UserSummary,
+} from './schemas';
+
+const API_URL = '/api/migrate.php';
+
+/**
+ * Error raised for any failed API call: network failures, non-JSON replies,
+ * `success: false` responses and payloads that don't match their schema.
+ * The message is meant to be shown to the user as-is.
+ */
+export class ApiError extends Error {
+  constructor(public readonly action: string, message: string) {
+    super(message);
+    this.name = 'ApiError';
+  }
+}
+
+const envelopeSchema = z.union([
+  z.object({ success: z.literal(true) }).passthrough(),
+  z.object({ success: z.literal(false), error: z.string() }),
+]);
+
+function describeIssues(error: z.ZodError) {
+  return error.issues
+    .map(issue => (issue.path.length ? `${issue.path.join('.')}: ${issue.message}` : issue.message))
+    .join('; ');
+}
+
+interface RequestOptions {
+  body?: unknown;
+  params?: Record<string, string | number>;
+}
+
+async function request(action: string, options: RequestOptions = {}): Promise<Record<string, unknown>> {
+  const query = new URLSearchParams({ action });
+  for (const [key, value] of Object.entries(options.params ?? {})) {
+    query.set(key, String(value));
+  }
+
+  let response: Response;
+  try {
+    response = await fetch(`${API_URL}?${query}`, options.body === undefined ? undefined : {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify(options.body)
+    });
+  } catch (error) {
+    throw new ApiError(action, `Could not reach the migration API: ${(error as Error).message}`);
+  }
+
+  let json: unknown;
+  try {
+    json = await response.json();
+  } catch {
+    throw new ApiError(action, `The migration API returned an invalid response (HTTP ${response.status})`);
+  }
+
+  const envelope = envelopeSchema.safeParse(json);
+  if (!envelope.success) {
+    throw new ApiError(action, `Unexpected response from ${action}: ${describeIssues(envelope.error)}`);
+  }
+  if (envelope.data.success === false) {
+    throw new ApiError(action, envelope.data.error);
+  }
+  return envelope.data;
+}
+
+/**
+ * Validate a successful response (or one field of it) against its schema
+ */
+function parse<T extends z.ZodTypeAny>(action: string, value: unknown, schema: T): z.infer<T> {
+  const result = schema.safeParse(value);
+  if (!result.success) {
+    throw new ApiError(action, `Unexpected response from ${action}: ${describeIssues(result.error)}`);
+  }
+  return result.data;
+}
+
+const messageSchema = z.string();
+
+export async function getConfig(): Promise<StoredConfig> {
+  const data = await request('getConfig');
+  return parse('getConfig', data.config, storedConfigSchema);
+}
+
+export async function saveConfig(config: MigrationConfig): Promise<string> {
+  const data = await request('saveConfig', { body: config });
+  return parse('saveConfig', data.message, messageSchema);
+}
+
+export async function runChecks(): Promise<CheckResults> {
+  const data = await request('runChecks');
+  return parse('runChecks', data.results, checkResultsSchema);
+}
+
+/**
+ * Users with a home storage to migrate from: local ones, or object store
+ * ones for a migration back to local storage
+ */
+export async function listUsers(direction?: MigrationDirection): Promise<UserSummary[]> {
+  const data = await request('listUsers', { params: direction ? { direction } : {} });
+  return parse('listUsers', data.users, z.array(userSummarySchema));
+}
+
+/**
+ * Start a migration job. Without a user selection every user is migrated,
+ * without a direction files go from local storage to S3.
+ */
+export async function startMigration(options: {
+  test_mode: MigrationConfig['test_mode'];
+  users?: string[];
+  direction?: MigrationDirection;
+}): Promise<Job> {
+  const data = await request('startMigration', { body: options });
+  return parse('startMigration', data.job, jobSchema);
+}
+
+/**
+ * Build a migration plan. Without a throughput the estimate is based on the
+ * last migration that moved data, if any.
+ */
+export async function planMigration(options: { throughput_mbps?: number; check_disk?: boolean } = {}): Promise<MigrationPlan> {
+  const data = await request('planMigration', { body: options });
+  return parse('planMigration', data.plan, migrationPlanSchema);
+}
+
+/**
+ * How a migration in the given direction changes Nextcloud's config.php
+ */
+export async function previewNextcloudConfig(direction?: MigrationDirection): Promise<NextcloudConfigPreview> {
+  const data = await request('previewNextcloudConfig', { params: direction ? { direction } : {} });
+  return parse('previewNextcloudConfig', data.preview, nextcloudConfigPreviewSchema);
+}
+
+export async function listJobs(type?: string): Promise<Job[]> {
+  const data = await request('listJobs', { params: type ? { type } : {} });
+  return parse('listJobs', data.jobs, z.array(jobSchema));
+}
+
+export async function getJob(jobId: string): Promise<Job> {
+  const data = await request('getJob', { params: { job_id: jobId } });
+  return parse('getJob', data.job, jobSchema);
+}
+
+/**
+ * Lines appended to a job's log since `offset`, or the end of the log
+ * without one. With `wait`, the server holds the request for up to that
+ * many seconds until new lines arrive or the job finishes.
+ */
+export async function getLogs(jobId: string, options: { offset?: number; wait?: number } = {}): Promise<LogChunk> {
+  const params = Object.fromEntries(Object.entries({ job_id: jobId, ...options }).filter(([, value]) => value !== undefined));
+  const data = await request('getLogs', { params });
+  return parse('getLogs', data, logChunkSchema);
+}
+
+export function getLogDownloadUrl(jobId: string) {
+  return `${API_URL}?${new URLSearchParams({ action: 'downloadLog', job_id: jobId })}`;
+}
+
+/**
+ * JSON summary, CSV of every file or printable HTML page of a run
+ */
+export function getRunExportUrl(jobId: string, format: 'json' | 'csv' | 'html') {
+  return `${API_URL}?${new URLSearchParams({ action: 'exportRun', job_id: jobId, format })}`;
+}
+
+/**
+ * Start an audit of the object storage against the contents of its buckets,
+ * optionally deleting the orphaned objects it finds or previewing what it would delete
+ */
+export async function startAudit(cleanup?: AuditCleanupOptions): Promise<AuditJob> {
+  const data = await request('startAudit', { body: cleanup ? { cleanup } : {} });
+  return parse('startAudit', data.job, auditJobSchema);
+}
+
+export async function listAudits(): Promise<AuditJob[]> {
+  const data = await request('listJobs', { params: { type: 'audit' } });
+  return parse('listJobs', data.jobs, z.array(auditJobSchema));
+}
+
+export async function getAudit(jobId: string): Promise<AuditJob> {
+  const data = await request('getJob', { params: { job_id: jobId } });
+  return parse('getJob', data.job, auditJobSchema);
+}
+
+/**
+ * Ask an audit's worker to stop; the lists keep what it found so far
+ */
+export async function cancelAudit(jobId: string): Promise<AuditJob> {
+  const data = await request('cancelJob', { params: { job_id: jobId }, body: {} });
+  return parse('cancelJob', data.job, auditJobSchema);
+}
+
+/**
+ * CSV of the missing files, orphaned objects or size mismatches an audit found
+ */
+export function getAuditListUrl(jobId: string, list: AuditListName) {
+  return `${API_URL}?${new URLSearchParams({ action: 'downloadAuditList', job_id: jobId, list })}`;
+}
+
+export async function getMigrationStatus(): Promise<MigrationStatus> {
+  const data = await request('getMigrationStatus');
+  return parse('getMigrationStatus', data, migrationStatusSchema);
+}
+
+export async function getMaintenanceMode(): Promise<MaintenanceMode> {
+  const data = await request('getMaintenanceMode');
+  return parse('getMaintenanceMode', data.maintenance, maintenanceModeSchema);
+}
+
+/**
+ * Turn Nextcloud's maintenance mode on or off with occ, or by editing
+ * config.php when occ can't be run
+ */
+export async function setMaintenanceMode(enabled: boolean): Promise<MaintenanceMode> {
+  const data = await request('setMaintenanceMode', { body: { enabled } });
+  return parse('setMaintenanceMode', data.maintenance, maintenanceModeSchema);
+}
+
+export async function cleanupPreviews(options: { max_age_days: number; max_count: number }): Promise<PreviewCleanupResult> {
+  const data = await request('cleanupPreviews', { body: options });
+  return parse('cleanupPreviews', data.results, previewCleanupResultSchema);
+}
+
+const controlActions: Record<JobControl, string> = {
+  pause: 'pauseJob',
+  resume: 'resumeJob',
+  cancel: 'cancelJob',
+};
+
+/**
+ * Ask a job's worker to pause, resume or cancel; it acts on it between files
+ */
+export async function controlJob(jobId: string, command: JobControl): Promise<Job> {
+  const action = controlActions[command];
+  const data = await request(action, { params: { job_id: jobId }, body: {} });
+  return parse(action, data.job, jobSchema);
+}
+
+/**
+ * Relaunch an interrupted or failed migration job from its last checkpoint
+ */
+export async function resumeInterruptedJob(jobId: string): Promise<Job> {
+  const data = await request('resumeInterruptedJob', { params: { job_id: jobId }, body: {} });
+  return parse('resumeInterruptedJob', data.job, jobSchema);
+}
+
+export interface LedgerQuery {
+  page?: number;
+  per_page?: number;
+  search?: string;
+  state?: LedgerState;
+  job_id?: string;
+}
+
+export async function getLedger(query: LedgerQuery = {}): Promise<LedgerPage> {
+  const params = Object.fromEntries(Object.entries(query).filter(([, value]) => value !== undefined && value !== ''));
+  const data = await request('getLedger', { params });
+  return parse('getLedger', data.results, ledgerPageSchema);
+}
+
+export async function getFailures(): Promise<Failures> {
+  const data = await request('getFailures');
+  return parse('getFailures', data.results, failuresSchema);
+}
+
+/**
+ * Start a job that switches the storage providers for files transferred by
+ * runs limited by migration rules, without transferring anything
+ */
+export async function finishCutover(direction: MigrationDirection): Promise<Job> {
+  const data = await request('finishCutover', { body: { direction } });
+  return parse('finishCutover', data.job, jobSchema);
+}
+
+/**
+ * Start a migration job that retries failed files, either the given ones or
+ * every file the ledger has marked as failed. Files are retried in the
+ * direction of the run they failed in, so failures of several directions
+ * need a direction to retry.
+ */
+export async function retryFailed(
+  selection: { fileids: number[]; direction?: MigrationDirection } | { all: true; direction?: MigrationDirection },
+): Promise<Job> {
+  const data = await request('retryFailed', { body: selection });
+  return parse('retryFailed', data.job, jobSchema);
+}
+
+/**
+ * Whether a job can be carried on from its checkpoint
+ */
+export function isJobResumable(job: Job) {
+  return (job.status === 'interrupted' || job.status === 'failed')
+    && !!job.checkpoint
+    && job.checkpoint.phase !== 'complete';
+}
+
+/**
+ * Whether a job still has a worker attached (or about to be)
+ */
+export function isJobActive(job: Job) {
+  return job.status === 'queued' || job.status === 'running' || job.status === 'paused';
+}
@@ -0,0 +1,449 @@
+import { z } from 'zod';
+
+/**
+ * Schemas for the payloads returned by api.php.
+ *
+ * Field names mirror the PHP side (snake_case) so a renamed key on either
+ * side shows up as a validation error instead of an undefined value.
+ */
+
+// PHP defines may come back as either strings or numbers
+const numeric = z.coerce.number();
+
+// json_encode() turns an empty associative array into []
+const phpObject = <T extends z.ZodTypeAny>(schema: T) =>
+  z.preprocess(value => (Array.isArray(value) && value.length === 0 ? {} : value), schema);
+
+// Off, upload only (1), dry run (2) or a user name; older configs store a boolean
+export const testModeSchema = z.preprocess(
+  value => {
+    if (value === true || value === 1 || value === '1') return 1;
+    if (value === 2 || value === '2') return 2;
+    if (typeof value === 'string' && value !== '' && value !== '0') return value;
+    return false;
+  },
+  z.union([z.literal(false), z.literal(1), z.literal(2), z.string()]),
+);
+
+// Path globs, mimetypes or mimetype groups, and sizes in bytes
+export const migrationRulesSchema = z.object({
+  include_paths: z.array(z.string()).default([]),
+  exclude_paths: z.array(z.string()).default([]),
+  include_mimetypes: z.array(z.string()).default([]),
+  exclude_mimetypes: z.array(z.string()).default([]),
+  min_size: numeric.nullable().default(null),
+  max_size: numeric.nullable().default(null),
+});
+
+export const migrationOrderSchema = z.enum(['fileid', 'size_asc', 'size_desc', 'round_robin', 'mtime_asc']);
+
+// Local storage to S3, or back to local storage
+export const migrationDirectionSchema = z.enum(['to_s3', 'to_local', 's3_to_s3']);
+
+// How transferred files are compared with their source
+export const verificationLevelSchema = z.enum(['size', 'md5', 'sha256']);
+
+export const migrationConfigSchema = z.object({
+  // Database configuration
+  db_host: z.string(),
+  db_port: z.coerce.string(),
+  db_name: z.string(),
+  db_user: z.string(),
+  db_password: z.string(),
+
+  // Nextcloud configuration
+  nextcloud_dir: z.string(),
+  data_directory: z.string(),
+  backup_directory: z.string(),
+  jobs_directory: z.string(),
+
+  // S3 configuration
+  s3_bucket: z.string(),
+  s3_region: z.string(),
+  s3_endpoint: z.string(),
+  s3_key: z.string(),
+  s3_secret: z.string(),
+  s3_use_path_style: z.boolean(),
+  s3_use_multipart: z.boolean(),
+  s3_multipart_threshold: numeric,
+  s3_multibucket: z.boolean(),
+  s3_multibucket_count: numeric,
+
+  // Target S3 configuration for bucket-to-bucket migrations
+  s3_target_bucket: z.string(),
+  s3_target_region: z.string(),
+  s3_target_endpoint: z.string(),
+  s3_target_key: z.string(),
+  s3_target_secret: z.string(),
+  s3_target_use_path_style: z.boolean(),
+
+  // Migration options
+  test_mode: testModeSchema,
+  batch_size: numeric,
+  upload_concurrency: numeric,
+  migration_order: migrationOrderSchema.catch('fileid'),
+  enable_maintenance: z.boolean(),
+  verify_uploads: z.boolean(),
+  verification_level: verificationLevelSchema.catch('size'),
+  delete_missing_files: z.boolean(),
+  update_nextcloud_config: z.boolean(),
+  preview_max_age: numeric,
+  rules: migrationRulesSchema,
+
+  // Logging
+  log_level: numeric,
+  log_file: z.string(),
+  log_format: z.enum(['text', 'json']).catch('text'),
+  log_max_size: numeric,
+  log_max_files: numeric,
+});
+
+// getConfig strips secrets, so every field is optional on the way in
+export const storedConfigSchema = migrationConfigSchema.partial();
+
+export const checkStatusSchema = z.enum(['success', 'error', 'warning', 'info']);
+
+export const checkResultSchema = z.object({
+  name: z.string(),
+  status: checkStatusSchema,
+  message: z.string(),
+});
+
+export const checkResultsSchema = z.object({
+  success: z.boolean(),
+  checks: z.record(checkResultSchema),
+});
+
+export const uploadWorkerSchema = z.object({
+  slot: numeric,
+  files: numeric,
+  bytes: numeric,
+  seconds: numeric,
+  bytes_per_second: numeric,
+  current_file: z.string().nullable(),
+});
+
+export const userProgressSchema = z.object({
+  user: z.string(),
+  total: numeric,
+  total_bytes: numeric,
+  migrated: numeric,
+  failed: numeric,
+  bytes: numeric,
+});
+
+export const migrationProgressSchema = z.object({
+  total: numeric,
+  migrated: numeric,
+  failed: numeric,
+  bytes: numeric,
+  total_bytes: numeric.optional(),
+  current_file: z.string(),
+  status: z.string().optional(),
+  in_flight: numeric.optional(),
+  workers: z.array(uploadWorkerSchema).optional(),
+  users: z.array(userProgressSchema).nullable().optional(),
+});
+
+export const migrationStatusSchema = z.object({
+  running: z.boolean(),
+  progress: migrationProgressSchema.nullable(),
+});
+
+export const maintenanceModeSchema = z.object({
+  enabled: z.boolean(),
+  // How the mode was last switched, set when it was switched by this request
+  method: z.enum(['occ', 'config']).optional(),
+});
+
+export const previewCleanupResultSchema = z.object({
+  deleted: numeric,
+  size: numeric,
+});
+
+// Start and end of each phase of a run, keyed by phase
+export const phaseTimesSchema = phpObject(z.record(z.object({
+  started_at: z.string(),
+  finished_at: z.string().nullable(),
+})));
+
+export const failureCategoriesSchema = phpObject(z.record(z.object({ count: numeric, size: numeric })));
+
+export const migrationResultSchema = z.object({
+  success: z.boolean(),
+  status: z.enum(['complete', 'cancelled']).optional(),
+  files_migrated: numeric,
+  files_failed: numeric,
+  bytes_transferred: numeric.optional(),
+  backup_file: z.string().nullable().optional(),
+  error: z.string().optional(),
+  phases: phaseTimesSchema.optional(),
+  failures: failureCategoriesSchema.nullable().optional(),
+});
+
+export const jobStatusSchema = z.enum(['queued', 'running', 'paused', 'complete', 'failed', 'cancelled', 'interrupted']);
+
+export const jobControlSchema = z.enum(['pause', 'resume', 'cancel']);
+
+export const checkpointSchema = z.object({
+  phase: z.enum(['files', 'storage_update', 'complete']),
+  last_fileid: numeric,
+  total: numeric,
+  total_bytes: numeric.optional(),
+  migrated: numeric,
+  failed: numeric,
+  bytes: numeric,
+  backup_file: z.string().nullable(),
+  // Missing in checkpoints from before ordering strategies, which went by file ID
+  order: migrationOrderSchema.optional(),
+  phases: phaseTimesSchema.optional(),
+  saved_at: z.string(),
+});
+
+export const progressSampleSchema = z.object({
+  t: numeric,
+  migrated: numeric,
+  failed: numeric,
+  bytes: numeric,
+});
+
+export const jobSchema = z.object({
+  id: z.string(),
+  type: z.string(),
+  status: jobStatusSchema,
+  options: phpObject(z.record(z.unknown())),
+  created_at: z.string(),
+  started_at: z.string().nullable(),
+  finished_at: z.string().nullable(),
+  pid: z.number().nullable(),
+  progress: migrationProgressSchema.nullable(),
+  result: migrationResultSchema.nullable(),
+  error: z.string().nullable().optional(),
+  control: jobControlSchema.nullable().optional(),
+  resumed_at: z.string().nullable().optional(),
+  checkpoint: checkpointSchema.nullable().optional(),
+  samples: z.array(progressSampleSchema).optional(),
+  // Settings the run used, without credentials; missing for jobs from before run history
+  config: phpObject(z.record(z.unknown())).nullable().optional(),
+  // Latest pre-migration checks when the run started
+  checks: z.object({ checked_at: z.string(), results: checkResultsSchema }).nullable().optional(),
+});
+
+export const auditListNameSchema = z.enum(['missing', 'orphans', 'size_mismatches']);
+
+const auditListSummarySchema = z.object({ count: numeric, size: numeric });
+
+export const auditProgressSchema = z.object({
+  status: z.string(),
+  // Filecache rows on the object storage, checked and in total
+  total: numeric,
+  files_checked: numeric,
+  objects_checked: numeric,
+  missing: numeric,
+  orphans: numeric,
+  size_mismatches: numeric,
+  // Orphans deleted so far, or that a dry run would delete; null without a cleanup
+  deleted: numeric.nullable().optional(),
+  bucket: z.string().nullable(),
+});
+
+export const auditCleanupOptionsSchema = z.object({
+  dry_run: z.boolean(),
+  min_age_hours: numeric,
+});
+
+export const auditCleanupResultSchema = auditCleanupOptionsSchema.extend({
+  deleted: auditListSummarySchema,
+  // Orphans kept because they may belong to an upload still in flight
+  too_recent: auditListSummarySchema,
+  // Orphans kept because their file is still in oc_filecache on another storage
+  live: auditListSummarySchema,
+  failed: auditListSummarySchema,
+});
+
+export const auditResultSchema = z.object({
+  success: z.boolean(),
+  status: z.enum(['complete', 'cancelled']),
+  files_checked: numeric,
+  objects_checked: numeric,
+  lists: z.object({
+    missing: auditListSummarySchema,
+    orphans: auditListSummarySchema,
+    size_mismatches: auditListSummarySchema,
+  }),
+  cleanup: auditCleanupResultSchema.nullable().optional(),
+});
+
+export const auditJobSchema = jobSchema.extend({
+  progress: auditProgressSchema.nullable(),
+  result: auditResultSchema.nullable(),
+});
+
+export const ledgerStateSchema = z.enum(['pending', 'uploaded', 'verified', 'db_updated', 'failed']);
+
+export const ledgerRowSchema = z.object({
+  fileid: numeric,
+  job_id: z.string().nullable(),
+  storage: numeric,
+  path: z.string(),
+  size: numeric,
+  state: ledgerStateSchema,
+  error: z.string().nullable(),
+  error_category: z.string().nullable().optional(),
+  attempts: numeric,
+  created_at: z.string(),
+  updated_at: z.string(),
+});
+
+export const ledgerPageSchema = z.object({
+  rows: z.array(ledgerRowSchema),
+  total: numeric,
+  counts: phpObject(z.record(numeric)),
+  page: numeric,
+  per_page: numeric,
+});
+
+export const errorCategorySchema = z.enum([
+  'missing_local',
+  'permission_denied',
+  's3_4xx',
+  's3_5xx',
+  'verification_mismatch',
+  'checksum_mismatch',
+  'other',
+]);
+
+export const failedFileSchema = z.object({
+  fileid: numeric,
+  path: z.string(),
+  owner: z.string().nullable(),
+  size: numeric,
+  error: z.string().nullable(),
+  category: errorCategorySchema.catch('other'),
+  attempts: numeric,
+  // Direction of the run the file failed in, which a retry runs in too
+  direction: migrationDirectionSchema.catch('to_s3'),
+  updated_at: z.string(),
+});
+
+export const failuresSchema = z.object({
+  files: z.array(failedFileSchema),
+  categories: failureCategoriesSchema,
+  directions: phpObject(z.record(numeric)),
+  truncated: z.boolean(),
+});
+
+export const userSummarySchema = z.object({
+  user: z.string(),
+  storage: numeric,
+  files: numeric,
+  bytes: numeric,
+  // Set on multibucket object stores
+  bucket: z.string().nullable(),
+});
+
+export const planGroupSchema = z.object({
+  label: z.string(),
+  files: numeric,
+  bytes: numeric,
+});
+
+export const skippedFileSchema = z.object({
+  fileid: numeric,
+  path: z.string(),
+  size: numeric,
+  reason: z.string(),
+});
+
+export const ruleMatchSchema = z.object({
+  type: z.enum(['include_paths', 'exclude_paths', 'include_mimetypes', 'exclude_mimetypes', 'min_size', 'max_size']),
+  value: z.union([z.string(), numeric]),
+  files: numeric,
+  bytes: numeric,
+  // False for mimetypes missing from oc_mimetypes
+  resolved: z.boolean(),
+});
+
+export const migrationPlanSchema = z.object({
+  generated_at: z.string(),
+  totals: z.object({ files: numeric, bytes: numeric }),
+  by_user: z.array(planGroupSchema),
+  by_storage: z.array(planGroupSchema),
+  by_mimetype: z.array(planGroupSchema),
+  histogram: z.array(planGroupSchema),
+  skipped: z.object({
+    counts: phpObject(z.record(z.object({ files: numeric, bytes: numeric }))),
+    files: z.array(skippedFileSchema),
+    truncated: z.boolean(),
+  }),
+  rules: z.array(ruleMatchSchema).default([]),
+  estimate: z.object({
+    source: z.enum(['configured', 'measured']),
+    bytes_per_second: numeric,
+    files_per_second: numeric.nullable(),
+    job_id: z.string().nullable(),
+    seconds: numeric,
+  }).nullable(),
+});
+
+export const logChunkSchema = z.object({
+  lines: z.array(z.string()),
+  // Byte offset to ask for the following lines with
+  offset: numeric,
+  size: numeric,
+  // True when only the end of the log was returned
+  truncated: z.boolean(),
+  // Whether the job is still queued, running or paused
+  active: z.boolean(),
+});
+
+// Nextcloud's config.php before and after a migration, secrets masked
+export const nextcloudConfigPreviewSchema = z.object({
+  file: z.string(),
+  current: z.string(),
+  proposed: z.string(),
+  changed: z.boolean(),
+});
+
+export type TestMode = z.infer<typeof testModeSchema>;
+export type MigrationRules = z.infer<typeof migrationRulesSchema>;
+export type MigrationOrder = z.infer<typeof migrationOrderSchema>;
+export type MigrationDirection = z.infer<typeof migrationDirectionSchema>;
+export type VerificationLevel = z.infer<typeof verificationLevelSchema>;
+export type MigrationConfig = z.infer<typeof migrationConfigSchema>;
+export type StoredConfig = z.infer<typeof storedConfigSchema>;
+export type CheckStatus = z.infer<typeof checkStatusSchema>;
+export type CheckResult = z.infer<typeof checkResultSchema>;
+export type CheckResults = z.infer<typeof checkResultsSchema>;
+export type UploadWorker = z.infer<typeof uploadWorkerSchema>;
+export type ProgressSample = z.infer<typeof progressSampleSchema>;
+export type UserProgress = z.infer<typeof userProgressSchema>;
+export type MigrationProgress = z.infer<typeof migrationProgressSchema>;
+export type MigrationStatus = z.infer<typeof migrationStatusSchema>;
+export type PreviewCleanupResult = z.infer<typeof previewCleanupResultSchema>;
+export type PhaseTimes = z.infer<typeof phaseTimesSchema>;
+export type FailureCategories = z.infer<typeof failureCategoriesSchema>;
+export type MigrationResult = z.infer<typeof migrationResultSchema>;
+export type JobStatus = z.infer<typeof jobStatusSchema>;
+export type JobControl = z.infer<typeof jobControlSchema>;
+export type Checkpoint = z.infer<typeof checkpointSchema>;
+export type LedgerState = z.infer<typeof ledgerStateSchema>;
+export type LedgerRow = z.infer<typeof ledgerRowSchema>;
+export type LedgerPage = z.infer<typeof ledgerPageSchema>;
+export type Job = z.infer<typeof jobSchema>;
+export type ErrorCategory = z.infer<typeof errorCategorySchema>;
+export type FailedFile = z.infer<typeof failedFileSchema>;
+export type Failures = z.infer<typeof failuresSchema>;
+export type UserSummary = z.infer<typeof userSummarySchema>;
+export type PlanGroup = z.infer<typeof planGroupSchema>;
+export type RuleMatch = z.infer<typeof ruleMatchSchema>;
+export type MigrationPlan = z.infer<typeof migrationPlanSchema>;
+export type LogChunk = z.infer<typeof logChunkSchema>;
+export type NextcloudConfigPreview = z.infer<typeof nextcloudConfigPreviewSchema>;
+export type MaintenanceMode = z.infer<typeof maintenanceModeSchema>;
+export type AuditListName = z.infer<typeof auditListNameSchema>;
+export type AuditProgress = z.infer<typeof auditProgressSchema>;
+export type AuditResult = z.infer<typeof auditResultSchema>;
+export type AuditCleanupOptions = z.infer<typeof auditCleanupOptionsSchema>;
+export type AuditCleanupResult = z.infer<typeof auditCleanupResultSchema>;
+export type AuditJob = z.infer<typeof auditJobSchema>;
@@ -0,0 +1,25 @@
+/**
+ * Save generated content as a file in the browser
+ */
+export function downloadFile(filename: string, content: string, type: string) {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * Build CSV text, quoting every cell that needs it
+ */
+export function toCsv(rows: (string | number | null | undefined)[][]) {
+  return rows
+    .map(row => row
+      .map(cell => {
+        const text = cell === null || cell === undefined ? '' : String(cell);
+        return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+      })
+      .join(','))
+    .join('\n') + '\n';
+}
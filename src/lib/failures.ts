@@ -0,0 +1,11 @@
+import type { ErrorCategory } from '@/lib/api';
+
+export const categoryLabels: Record<ErrorCategory, string> = {
+  missing_local: 'Missing locally',
+  permission_denied: 'Permission denied',
+  s3_4xx: 'S3 client error (4xx)',
+  s3_5xx: 'S3 server error (5xx)',
+  verification_mismatch: 'Verification mismatch',
+  checksum_mismatch: 'Checksum mismatch',
+  other: 'Other',
+};
@@ -0,0 +1,70 @@
+export const logLevels = ['DEBUG', 'INFO', 'WARN', 'ERROR'] as const;
+
+export type LogLevel = typeof logLevels[number];
+
+export interface LogEntry {
+  id: number;
+  time: string | null;
+  level: LogLevel;
+  message: string;
+  // Context of JSON log entries
+  phase?: string | null;
+  fileid?: number | null;
+  path?: string | null;
+  user?: string | null;
+}
+
+const LINE_PATTERN = /^\[([^\]]+)\]\[(DEBUG|INFO|WARN|ERROR)\] ?(.*)$/;
+
+function parseJsonLine(line: string): Omit<LogEntry, 'id'> | null {
+  if (!line.startsWith('{')) {
+    return null;
+  }
+  try {
+    const entry = JSON.parse(line);
+    if (typeof entry.message !== 'string' || !logLevels.includes(entry.level)) {
+      return null;
+    }
+    return {
+      time: entry.time ?? null,
+      level: entry.level,
+      message: entry.message,
+      phase: entry.phase ?? null,
+      fileid: entry.fileid ?? null,
+      path: entry.path ?? null,
+      user: entry.user ?? null,
+    };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Parse log lines as written by Logger, either `[timestamp][LEVEL] message`
+ * text or JSON objects with context fields. Text lines that don't match
+ * (multi-line messages) are appended to the entry before them, or kept as
+ * entries of their own when nothing comes before.
+ */
+export function parseLogLines(lines: string[], previous: LogEntry | undefined, nextId: number): LogEntry[] {
+  const entries: LogEntry[] = [];
+  let last = previous;
+
+  for (const line of lines) {
+    const json = parseJsonLine(line);
+    const match = json ? null : LINE_PATTERN.exec(line);
+    if (json) {
+      last = { id: nextId++, ...json };
+      entries.push(last);
+    } else if (match) {
+      last = { id: nextId++, time: match[1], level: match[2] as LogLevel, message: match[3] };
+      entries.push(last);
+    } else if (last && entries.includes(last)) {
+      last.message += '\n' + line;
+    } else {
+      last = { id: nextId++, time: null, level: last?.level ?? 'INFO', message: line };
+      entries.push(last);
+    }
+  }
+
+  return entries;
+}
@@ -0,0 +1,24 @@
+import type { MigrationDirection } from '@/lib/api';
+
+export const migrationDirectionOptions: Record<MigrationDirection, { label: string; description: string; action: string; done: string }> = {
+  to_s3: {
+    label: 'Local storage to S3',
+    description: 'Uploads every file to the bucket and switches Nextcloud to object storage.',
+    action: 'Migrate files from local storage to S3',
+    done: 'to S3 storage',
+  },
+  to_local: {
+    label: 'S3 back to local storage',
+    description: 'Downloads every object to the data directory, switches Nextcloud back to local storage '
+      + 'and removes the objectstore section from config.php.',
+    action: 'Download files from S3 to local storage',
+    done: 'back to local storage',
+  },
+  s3_to_s3: {
+    label: 'S3 to another S3 bucket',
+    description: 'Copies every object to the target bucket and switches the object storage and the '
+      + 'objectstore section of config.php to it.',
+    action: 'Copy objects from the S3 bucket to the target bucket',
+    done: 'to the target S3 bucket',
+  },
+};
@@ -0,0 +1,24 @@
+import type { MigrationOrder } from '@/lib/api';
+
+export const migrationOrderOptions: Record<MigrationOrder, { label: string; description: string }> = {
+  fileid: {
+    label: 'By file ID',
+    description: 'Roughly the order files were created in.',
+  },
+  size_asc: {
+    label: 'Small files first',
+    description: 'Quick early progress; the large uploads come at the end.',
+  },
+  size_desc: {
+    label: 'Large files first',
+    description: 'Fails fast on big uploads while there is still time to react.',
+  },
+  round_robin: {
+    label: 'Users in turn',
+    description: 'Takes files from every user in turn so all users progress together.',
+  },
+  mtime_asc: {
+    label: 'Recently modified last',
+    description: 'Files people still work on go in the cutover window.',
+  },
+};
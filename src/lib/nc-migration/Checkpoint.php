@@ -0,0 +1,60 @@
+<?php
+/**
+ * Migration checkpoint for Nextcloud S3 Migration
+ *
+ * Stores the position of a migration after every committed batch so an
+ * interrupted run can carry on where it stopped
+ */
+class Checkpoint {
+    const PHASE_FILES = 'files';
+    const PHASE_STORAGE_UPDATE = 'storage_update';
+    const PHASE_COMPLETE = 'complete';
+
+    private $file;
+
+    /**
+     * Initialize the checkpoint
+     *
+     * @param string $file Path to the checkpoint file
+     */
+    public function __construct($file) {
+        $this->file = $file;
+    }
+
+    /**
+     * Load the saved checkpoint
+     *
+     * @return array|null Checkpoint state or null if none was saved
+     */
+    public function load() {
+        if (!file_exists($this->file)) {
+            return null;
+        }
+
+        $state = json_decode(file_get_contents($this->file), true);
+        return is_array($state) ? $state : null;
+    }
+
+    /**
+     * Save the checkpoint
+     *
+     * @param array $state Checkpoint state
+     */
+    public function save($state) {
+        $state['saved_at'] = date('c');
+
+        // Write to a temporary file first so a crash never leaves a truncated checkpoint
+        $tmpFile = $this->file . '.tmp';
+        file_put_contents($tmpFile, json_encode($state, JSON_PRETTY_PRINT));
+        rename($tmpFile, $this->file);
+    }
+
+    /**
+     * Remove the saved checkpoint
+     */
+    public function clear() {
+        if (file_exists($this->file)) {
+            unlink($this->file);
+        }
+    }
+}
@@ -0,0 +1,514 @@
+<?php
+/**
+ * Integrity audit for Nextcloud S3 Migration
+ *
+ * Compares the files of the object storage in oc_filecache with the objects
+ * in the bucket, streaming both in key order so neither is held in memory,
+ * and optionally deletes the orphaned objects it finds
+ */
+class IntegrityAuditor {
+    // Lists of problems written by an audit
+    const LIST_MISSING = 'missing';
+    const LIST_ORPHANS = 'orphans';
+    const LIST_SIZE_MISMATCHES = 'size_mismatches';
+    const LISTS = [self::LIST_MISSING, self::LIST_ORPHANS, self::LIST_SIZE_MISMATCHES];
+
+    // CSV header of each list
+    const LIST_HEADERS = [
+        self::LIST_MISSING => ['bucket', 'key', 'fileid', 'storage', 'path', 'size'],
+        self::LIST_ORPHANS => ['bucket', 'key', 'size', 'last_modified', 'action'],
+        self::LIST_SIZE_MISMATCHES => ['bucket', 'key', 'fileid', 'storage', 'path', 'filecache_size', 'object_size'],
+    ];
+
+    // Nextcloud stores each file of an object storage under this prefix and its file ID
+    const OBJECT_PREFIX = 'urn:oid:';
+
+    // Filecache rows fetched from the cursor at a time
+    const BATCH_SIZE = 1000;
+
+    // What a cleanup did with an orphaned object
+    const ACTION_DELETED = 'deleted';
+    const ACTION_WOULD_DELETE = 'would delete';
+    const ACTION_TOO_RECENT = 'kept: too recent';
+    const ACTION_LIVE = 'kept: file in use';
+    const ACTION_CANCELLED = 'kept: cancelled';
+    const ACTION_FAILED = 'delete failed';
+
+    // Orphans younger than this may belong to an upload whose database
+    // update has not been committed yet, so a cleanup never goes below it
+    const MIN_CLEANUP_AGE_HOURS = 1;
+
+    const STATUS_RUNNING = 'running';
+    const STATUS_COMPLETE = 'complete';
+    const STATUS_CANCELLED = 'cancelled';
+
+    private $db;
+    private $logger;
+    private $ledger;
+    private $listFiles;
+    private $handles = [];
+    private $counts = [];
+    private $filesChecked = 0;
+    private $objectsChecked = 0;
+    private $totalFiles = 0;
+    private $cleanup = null;
+    private $cleanupCounts = null;
+    private $pendingDeletes = [];
+
+    /**
+     * Initialize the auditor
+     *
+     * @param DatabaseManager $db Database manager
+     * @param Logger $logger Logger instance
+     * @param array $listFiles CSV file path of each list, keyed by list
+     * @param MigrationLedger|null $ledger Ledger whose transfers a cleanup resets when it deletes their object
+     */
+    public function __construct($db, $logger, $listFiles, $ledger = null) {
+        $this->db = $db;
+        $this->logger = $logger;
+        $this->listFiles = $listFiles;
+        $this->ledger = $ledger;
+    }
+
+    /**
+     * Audit the object storage
+     *
+     * @param array $buckets Buckets to audit, each an 's3' manager and the numeric 'storages' kept in it
+     * @param callable|null $progressCallback Called with the audit progress
+     * @param callable|null $controlCallback Returns MigrationManager::CONTROL_CANCEL to stop the audit
+     * @param array|null $cleanup Delete orphans older than 'min_age_hours', or only list them with 'dry_run'
+     * @return array Audit result with the count and size of every list, and what the cleanup did
+     */
+    public function audit($buckets, $progressCallback = null, $controlCallback = null, $cleanup = null) {
+        foreach (self::LISTS as $list) {
+            $this->handles[$list] = fopen($this->listFiles[$list], 'w');
+            fputcsv($this->handles[$list], self::LIST_HEADERS[$list]);
+            $this->counts[$list] = ['count' => 0, 'size' => 0];
+        }
+
+        if ($cleanup !== null) {
+            $this->cleanup = [
+                'dry_run' => !empty($cleanup['dry_run']),
+                'min_age_hours' => max(self::MIN_CLEANUP_AGE_HOURS, (float)$cleanup['min_age_hours']),
+            ];
+            $this->cleanupCounts = [];
+            foreach ([self::ACTION_DELETED, self::ACTION_TOO_RECENT, self::ACTION_LIVE, self::ACTION_FAILED] as $action) {
+                $this->cleanupCounts[$action] = ['count' => 0, 'size' => 0];
+            }
+            $this->logger->info(($this->cleanup['dry_run'] ? 'Previewing cleanup' : 'Deleting')
+                . " of orphaned objects older than {$this->cleanup['min_age_hours']} hours");
+        }
+
+        $status = self::STATUS_COMPLETE;
+        try {
+            $this->totalFiles = 0;
+            foreach ($buckets as $bucket) {
+                $this->totalFiles += $this->countFiles($bucket['storages']);
+            }
+            $this->logger->info("Auditing {$this->totalFiles} files in " . count($buckets) . " buckets");
+
+            foreach ($buckets as $bucket) {
+                if (!$this->auditBucket($bucket['s3'], $bucket['storages'], $progressCallback, $controlCallback)) {
+                    $status = self::STATUS_CANCELLED;
+                    break;
+                }
+            }
+        } finally {
+            foreach ($this->handles as $handle) {
+                fclose($handle);
+            }
+            $this->handles = [];
+        }
+
+        $this->logger->info(sprintf(
+            "Audit %s: %d files and %d objects checked, %d missing, %d orphans, %d size mismatches",
+            $status,
+            $this->filesChecked,
+            $this->objectsChecked,
+            $this->counts[self::LIST_MISSING]['count'],
+            $this->counts[self::LIST_ORPHANS]['count'],
+            $this->counts[self::LIST_SIZE_MISMATCHES]['count']
+        ));
+
+        $this->reportProgress($progressCallback, $status, null);
+
+        $result = [
+            'success' => true,
+            'status' => $status,
+            'files_checked' => $this->filesChecked,
+            'objects_checked' => $this->objectsChecked,
+            'lists' => $this->counts,
+            'cleanup' => null,
+        ];
+
+        if ($this->cleanup !== null) {
+            $this->logger->info(sprintf(
+                "Cleanup %s %d orphaned objects (%d bytes), kept %d too recent and %d of existing files, %d failed",
+                $this->cleanup['dry_run'] ? 'would delete' : 'deleted',
+                $this->cleanupCounts[self::ACTION_DELETED]['count'],
+                $this->cleanupCounts[self::ACTION_DELETED]['size'],
+                $this->cleanupCounts[self::ACTION_TOO_RECENT]['count'],
+                $this->cleanupCounts[self::ACTION_LIVE]['count'],
+                $this->cleanupCounts[self::ACTION_FAILED]['count']
+            ));
+            $result['cleanup'] = array_merge($this->cleanup, [
+                'deleted' => $this->cleanupCounts[self::ACTION_DELETED],
+                'too_recent' => $this->cleanupCounts[self::ACTION_TOO_RECENT],
+                'live' => $this->cleanupCounts[self::ACTION_LIVE],
+                'failed' => $this->cleanupCounts[self::ACTION_FAILED],
+            ]);
+        }
+
+        return $result;
+    }
+
+    /**
+     * Walk the files of a bucket's storages and the bucket's objects side by side
+     *
+     * @param S3Manager $s3 Manager of the bucket
+     * @param array $storageIds Numeric IDs of the storages kept in the bucket
+     * @param callable|null $progressCallback Progress callback
+     * @param callable|null $controlCallback Control callback
+     * @return bool False if the audit was cancelled
+     */
+    private function auditBucket($s3, $storageIds, $progressCallback, $controlCallback) {
+        $bucket = $s3->getBucket();
+        $this->logger->info("Auditing bucket $bucket");
+
+        $files = $this->streamFiles($storageIds);
+        $objects = $s3->iterateObjects(self::OBJECT_PREFIX);
+
+        try {
+            while ($files->valid() || $objects->valid()) {
+                $file = $files->valid() ? $files->current() : null;
+                $object = $objects->valid() ? $objects->current() : null;
+
+                // Both streams are in byte order of their keys
+                if ($file && $object) {
+                    $order = strcmp($file['key'], $object['key']);
+                } else {
+                    $order = $file ? -1 : 1;
+                }
+
+                if ($order < 0) {
+                    $this->addEntry(self::LIST_MISSING, (int)$file['size'], [
+                        $bucket, $file['key'], $file['fileid'], $file['storage'], $file['path'], $file['size'],
+                    ]);
+                    $this->filesChecked++;
+                    $files->next();
+                } else if ($order > 0) {
+                    $this->addOrphan($s3, $object);
+                    $this->objectsChecked++;
+                    $objects->next();
+                } else {
+                    // Nextcloud records an unknown size as -1
+                    if ((int)$file['size'] >= 0 && (int)$file['size'] !== (int)$object['size']) {
+                        $this->addEntry(self::LIST_SIZE_MISMATCHES, (int)$object['size'], [
+                            $bucket, $file['key'], $file['fileid'], $file['storage'], $file['path'], $file['size'], $object['size'],
+                        ]);
+                    }
+                    $this->filesChecked++;
+                    $this->objectsChecked++;
+                    $files->next();
+                    $objects->next();
+                }
+
+                if ($controlCallback && $controlCallback() === MigrationManager::CONTROL_CANCEL) {
+                    $this->logger->info("Cancel requested");
+                    $this->flushDeletes($s3, false);
+                    return false;
+                }
+
+                $this->reportProgress($progressCallback, self::STATUS_RUNNING, $bucket);
+            }
+
+            $this->flushDeletes($s3, true);
+        } finally {
+            // Closes the cursor when the audit stops before the end of the files
+            $this->db->rollback();
+        }
+
+        return true;
+    }
+
+    /**
+     * Record an orphaned object, and queue it for deletion during a cleanup
+     *
+     * @param S3Manager $s3 Manager of the object's bucket
+     * @param array $object Object from the bucket listing
+     */
+    private function addOrphan($s3, $object) {
+        $row = [$s3->getBucket(), $object['key'], $object['size'], $this->formatTime($object['lastModified'])];
+
+        if ($this->cleanup === null) {
+            $this->addEntry(self::LIST_ORPHANS, (int)$object['size'], array_merge($row, ['']));
+            return;
+        }
+
+        $age = time() - strtotime($row[3]);
+        if ($age < $this->cleanup['min_age_hours'] * 3600) {
+            $this->addCleanupEntry(self::ACTION_TOO_RECENT, $object, $row);
+            return;
+        }
+
+        $this->pendingDeletes[] = ['object' => $object, 'row' => $row];
+        if (count($this->pendingDeletes) >= S3Manager::DELETE_BATCH_SIZE) {
+            $this->flushDeletes($s3, true);
+        }
+    }
+
+    /**
+     * Delete the queued orphans of a bucket in one batch
+     *
+     * @param S3Manager $s3 Manager of the bucket
+     * @param bool $apply False to keep them, when the audit was cancelled
+     */
+    private function flushDeletes($s3, $apply) {
+        if (!$this->pendingDeletes) {
+            return;
+        }
+
+        $live = [];
+        $errors = [];
+        if ($apply) {
+            // Objects uploaded by a run that was not a test, whose storages
+            // were not switched yet, belong to files about to move to them and
+            // must be kept; those of test runs never will and go like any orphan
+            $live = $this->findLiveFiles(array_map(function ($pending) {
+                return $pending['object']['key'];
+            }, $this->pendingDeletes));
+
+            $keys = [];
+            foreach ($this->pendingDeletes as $pending) {
+                if (!isset($live[$pending['object']['key']])) {
+                    $keys[] = $pending['object']['key'];
+                }
+            }
+            if ($keys && !$this->cleanup['dry_run']) {
+                $errors = $s3->deleteObjects($keys);
+                $this->resetDeletedTransfers(array_diff($keys, array_keys($errors)));
+            }
+        }
+
+        foreach ($this->pendingDeletes as $pending) {
+            $key = $pending['object']['key'];
+            if (!$apply) {
+                $this->addEntry(self::LIST_ORPHANS, (int)$pending['object']['size'], array_merge($pending['row'], [self::ACTION_CANCELLED]));
+            } else if (isset($live[$key])) {
+                $this->addCleanupEntry(self::ACTION_LIVE, $pending['object'], $pending['row']);
+            } else if (isset($errors[$key])) {
+                $this->logger->warn("Failed to delete orphaned object $key: {$errors[$key]}");
+                $this->addCleanupEntry(self::ACTION_FAILED, $pending['object'], $pending['row']);
+            } else {
+                $this->addCleanupEntry(self::ACTION_DELETED, $pending['object'], $pending['row']);
+            }
+        }
+
+        $this->pendingDeletes = [];
+    }
+
+    /**
+     * Move the files of deleted objects back to pending in the ledger
+     *
+     * A test run leaves its files uploaded or verified, which would let them
+     * pass for transferred once their object is gone.
+     *
+     * @param array $objectKeys Keys of the deleted objects
+     */
+    private function resetDeletedTransfers($objectKeys) {
+        if ($this->ledger === null) {
+            return;
+        }
+
+        $fileIds = [];
+        foreach ($objectKeys as $objectKey) {
+            $fileId = substr($objectKey, strlen(self::OBJECT_PREFIX));
+            if (ctype_digit($fileId)) {
+                $fileIds[] = (int)$fileId;
+            }
+        }
+        $this->ledger->resetTransfers($fileIds);
+    }
+
+    /**
+     * Find the object keys of files on an object storage, or waiting for
+     * their storage to be switched to one
+     *
+     * Files on local storage wait for the switch when a run that was not a
+     * test uploaded them and the ledger has not marked them committed yet.
+     *
+     * @param array $objectKeys Object keys
+     * @return array The keys of live files, as keys
+     */
+    private function findLiveFiles($objectKeys) {
+        $fileIds = [];
+        foreach ($objectKeys as $objectKey) {
+            $fileId = substr($objectKey, strlen(self::OBJECT_PREFIX));
+            if (ctype_digit($fileId)) {
+                $fileIds[] = (int)$fileId;
+            }
+        }
+        if (!$fileIds) {
+            return [];
+        }
+
+        $rows = $this->db->fetchAll(
+            'SELECT fc.fileid
+             FROM oc_filecache fc
+             JOIN oc_storages st ON st.numeric_id = fc.storage
+             LEFT JOIN ' . MigrationLedger::TABLE . ' l ON l.fileid = fc.fileid
+             WHERE fc.fileid IN (' . implode(', ', $fileIds) . ')
+             AND (
+                st.id LIKE :objectPrefix
+                OR (l.state IN (:uploadedState, :verifiedState) AND COALESCE(l.direction, :legacyDirection) = :toS3 AND NOT l.test_run)
+             )',
+            [
+                'objectPrefix' => 'object::%',
+                'uploadedState' => MigrationLedger::STATE_UPLOADED,
+                'verifiedState' => MigrationLedger::STATE_VERIFIED,
+                'legacyDirection' => MigrationLedger::LEGACY_DIRECTION,
+                'toS3' => MigrationManager::DIRECTION_TO_S3,
+            ]
+        );
+
+        $live = [];
+        foreach ($rows as $row) {
+            $live[self::OBJECT_PREFIX . $row['fileid']] = true;
+        }
+
+        return $live;
+    }
+
+    /**
+     * Write an orphan to the list with what the cleanup did with it
+     *
+     * @param string $action One of the ACTION_* constants counted by the cleanup
+     * @param array $object Object from the bucket listing
+     * @param array $row CSV row without the action
+     */
+    private function addCleanupEntry($action, $object, $row) {
+        $label = $action === self::ACTION_DELETED && $this->cleanup['dry_run'] ? self::ACTION_WOULD_DELETE : $action;
+        $this->addEntry(self::LIST_ORPHANS, (int)$object['size'], array_merge($row, [$label]));
+        $this->cleanupCounts[$action]['count']++;
+        $this->cleanupCounts[$action]['size'] += max(0, (int)$object['size']);
+    }
+
+    /**
+     * Count the files of a set of storages
+     *
+     * @param array $storageIds Numeric storage IDs
+     * @return int Number of files
+     */
+    private function countFiles($storageIds) {
+        if (!$storageIds) {
+            return 0;
+        }
+
+        return (int)$this->db->fetchColumn(
+            'SELECT COUNT(*)
+             FROM oc_filecache fc
+             JOIN oc_mimetypes mt ON fc.mimetype = mt.id
+             WHERE fc.storage IN (' . $this->getStorageList($storageIds) . ') AND mt.mimetype <> :dirMimetype',
+            ['dirMimetype' => 'httpd/unix-directory']
+        );
+    }
+
+    /**
+     * Read the files of a set of storages in byte order of their object keys
+     *
+     * Uses a server-side cursor so only one batch is held at a time. S3 lists
+     * keys in byte order, hence the C collation.
+     *
+     * @param array $storageIds Numeric storage IDs
+     * @return Generator Files with their object 'key'
+     */
+    private function streamFiles($storageIds) {
+        if (!$storageIds) {
+            return;
+        }
+
+        $dirMimetype = (int)$this->db->fetchColumn(
+            'SELECT id FROM oc_mimetypes WHERE mimetype = :dirMimetype',
+            ['dirMimetype' => 'httpd/unix-directory']
+        );
+
+        // Cursors only live inside a transaction
+        $this->db->beginTransaction();
+        $this->db->execute(
+            'DECLARE audit_files NO SCROLL CURSOR FOR
+             SELECT fc.fileid, fc.storage, fc.path, fc.size,
+                    (\'' . self::OBJECT_PREFIX . '\' || fc.fileid) COLLATE "C" AS key
+             FROM oc_filecache fc
+             WHERE fc.storage IN (' . $this->getStorageList($storageIds) . ') AND fc.mimetype <> ' . $dirMimetype . '
+             ORDER BY key'
+        );
+
+        do {
+            $rows = $this->db->fetchAll('FETCH FORWARD ' . self::BATCH_SIZE . ' FROM audit_files');
+            foreach ($rows as $row) {
+                yield $row;
+            }
+        } while (count($rows) === self::BATCH_SIZE);
+
+        $this->db->execute('CLOSE audit_files');
+        $this->db->commit();
+    }
+
+    /**
+     * Build the SQL list of a set of storage IDs
+     *
+     * @param array $storageIds Numeric storage IDs
+     * @return string Comma separated IDs
+     */
+    private function getStorageList($storageIds) {
+        return implode(', ', array_map('intval', $storageIds));
+    }
+
+    /**
+     * Write an entry to one of the lists
+     *
+     * @param string $list List name
+     * @param int $size Size the entry counts for
+     * @param array $row CSV row
+     */
+    private function addEntry($list, $size, $row) {
+        fputcsv($this->handles[$list], $row);
+        $this->counts[$list]['count']++;
+        $this->counts[$list]['size'] += max(0, $size);
+    }
+
+    /**
+     * Format the modification time of an object
+     *
+     * @param mixed $time DateTime-like value from the S3 listing
+     * @return string ISO 8601 time
+     */
+    private function formatTime($time) {
+        return $time instanceof DateTimeInterface ? $time->format('c') : (string)$time;
+    }
+
+    /**
+     * Report the audit progress
+     *
+     * @param callable|null $progressCallback Progress callback
+     * @param string $status Audit status
+     * @param string|null $bucket Bucket being audited
+     */
+    private function reportProgress($progressCallback, $status, $bucket) {
+        if (!$progressCallback) {
+            return;
+        }
+
+        $progressCallback([
+            'status' => $status,
+            'total' => $this->totalFiles,
+            'files_checked' => $this->filesChecked,
+            'objects_checked' => $this->objectsChecked,
+            'missing' => $this->counts[self::LIST_MISSING]['count'],
+            'orphans' => $this->counts[self::LIST_ORPHANS]['count'],
+            'size_mismatches' => $this->counts[self::LIST_SIZE_MISMATCHES]['count'],
+            'deleted' => $this->cleanupCounts ? $this->cleanupCounts[self::ACTION_DELETED]['count'] : null,
+            'bucket' => $bucket,
+        ]);
+    }
+}
@@ -0,0 +1,439 @@
+<?php
+/**
+ * Job Manager for Nextcloud S3 Migration
+ *
+ * Persists background jobs as JSON files and launches detached workers
+ */
+require_once 'Checkpoint.php';
+require_once 'IntegrityAuditor.php';
+require_once 'MigrationLedger.php';
+
+class JobManager {
+    const STATUS_QUEUED = 'queued';
+    const STATUS_RUNNING = 'running';
+    const STATUS_PAUSED = 'paused';
+    const STATUS_COMPLETE = 'complete';
+    const STATUS_FAILED = 'failed';
+    const STATUS_CANCELLED = 'cancelled';
+    const STATUS_INTERRUPTED = 'interrupted';
+
+    // Grace period for a queued job's worker to report its PID
+    const WORKER_START_TIMEOUT = 60;
+
+    // Progress history kept for the charts: seconds between samples at the
+    // start of a run, and the count at which the history is halved
+    const SAMPLE_INTERVAL = 5;
+    const MAX_SAMPLES = 500;
+
+    const JOB_ID_PATTERN = '/^\d{8}-\d{6}-[0-9a-f]{8}$/';
+
+    // Latest pre-migration check results, recorded with each run started after them
+    const CHECKS_FILE = 'checks.json';
+
+    private $jobsDir;
+    private $logger;
+    private $phpBinary;
+
+    /**
+     * Initialize the job manager
+     *
+     * @param string $jobsDir Directory holding job state files
+     * @param Logger $logger Logger instance
+     * @param string $phpBinary PHP CLI binary used to run workers
+     */
+    public function __construct($jobsDir, $logger, $phpBinary = 'php') {
+        $this->jobsDir = rtrim($jobsDir, '/');
+        $this->logger = $logger;
+        $this->phpBinary = $phpBinary;
+
+        if (!is_dir($this->jobsDir) && !mkdir($this->jobsDir, 0750, true)) {
+            throw new Exception("Jobs directory could not be created: {$this->jobsDir}");
+        }
+    }
+
+    /**
+     * Create a new queued job
+     *
+     * @param string $type Job type
+     * @param array $options Job options passed to the worker
+     * @return array The new job
+     */
+    public function createJob($type, $options = []) {
+        $job = [
+            'id' => date('Ymd-His') . '-' . bin2hex(random_bytes(4)),
+            'type' => $type,
+            'status' => self::STATUS_QUEUED,
+            'options' => $options,
+            'created_at' => date('c'),
+            'started_at' => null,
+            'finished_at' => null,
+            'pid' => null,
+            'progress' => null,
+            'result' => null,
+            'config' => null,
+            'checks' => null,
+        ];
+
+        $this->writeJob($job);
+        $this->logger->info("Created $type job: {$job['id']}");
+
+        return $job;
+    }
+
+    /**
+     * Get a job by ID
+     *
+     * @param string $jobId Job ID
+     * @return array|null The job or null if not found
+     */
+    public function getJob($jobId) {
+        $file = $this->getJobFile($jobId);
+        if (!file_exists($file)) {
+            return null;
+        }
+
+        $handle = fopen($file, 'r');
+        flock($handle, LOCK_SH);
+        $content = stream_get_contents($handle);
+        flock($handle, LOCK_UN);
+        fclose($handle);
+
+        $job = json_decode($content, true);
+
+        // A job that claims to be active without a live worker was interrupted
+        // by a crash or reboot
+        if ($this->isActive($job) && !$this->isWorkerAlive($job)) {
+            $this->logger->warn("Worker for job $jobId is gone, marking job as interrupted");
+            $job = $this->updateJob($jobId, ['status' => self::STATUS_INTERRUPTED]);
+        }
+
+        $job['checkpoint'] = $this->getCheckpoint($jobId)->load();
+        return $job;
+    }
+
+    /**
+     * Get the checkpoint of a job
+     *
+     * @param string $jobId Job ID
+     * @return Checkpoint The job's checkpoint
+     */
+    public function getCheckpoint($jobId) {
+        return new Checkpoint($this->jobsDir . DIRECTORY_SEPARATOR . basename($this->getJobFile($jobId), '.json') . '.checkpoint.json');
+    }
+
+    /**
+     * Get the path of a job's own log file
+     *
+     * @param string $jobId Job ID
+     * @return string File path
+     */
+    public function getLogFile($jobId) {
+        return $this->jobsDir . DIRECTORY_SEPARATOR . basename($this->getJobFile($jobId), '.json') . '.log';
+    }
+
+    /**
+     * Get the path of one of the lists an audit job writes
+     *
+     * @param string $jobId Job ID
+     * @param string $list One of IntegrityAuditor::LISTS
+     * @return string File path
+     */
+    public function getAuditListFile($jobId, $list) {
+        if (!in_array($list, IntegrityAuditor::LISTS, true)) {
+            throw new Exception("Invalid audit list: $list");
+        }
+
+        return $this->jobsDir . DIRECTORY_SEPARATOR . basename($this->getJobFile($jobId), '.json') . ".$list.csv";
+    }
+
+    /**
+     * Keep the results of the latest pre-migration checks
+     *
+     * @param array $results Results of MigrationManager::runPreMigrationChecks()
+     */
+    public function saveCheckResults($results) {
+        file_put_contents(
+            $this->jobsDir . DIRECTORY_SEPARATOR . self::CHECKS_FILE,
+            json_encode(['checked_at' => date('c'), 'results' => $results], JSON_PRETTY_PRINT),
+            LOCK_EX
+        );
+    }
+
+    /**
+     * Get the results of the latest pre-migration checks
+     *
+     * @return array|null 'checked_at' and 'results', or null if no checks were run
+     */
+    public function getCheckResults() {
+        $file = $this->jobsDir . DIRECTORY_SEPARATOR . self::CHECKS_FILE;
+        if (!file_exists($file)) {
+            return null;
+        }
+
+        $checks = json_decode(file_get_contents($file), true);
+        return is_array($checks) ? $checks : null;
+    }
+
+    /**
+     * Relaunch the worker of an interrupted or failed job from its checkpoint
+     *
+     * @param string $jobId Job ID
+     * @return array The requeued job
+     */
+    public function resumeJob($jobId) {
+        $job = $this->getJob($jobId);
+        if (!$job) {
+            throw new Exception("Job not found: $jobId");
+        }
+
+        if (!in_array($job['status'], [self::STATUS_INTERRUPTED, self::STATUS_FAILED], true)) {
+            throw new Exception("Job $jobId cannot be resumed (status: {$job['status']})");
+        }
+
+        if (!$job['checkpoint']) {
+            throw new Exception("Job $jobId has no checkpoint to resume from");
+        }
+
+        $this->updateJob($jobId, [
+            'status' => self::STATUS_QUEUED,
+            'control' => null,
+            'pid' => null,
+            'finished_at' => null,
+            'error' => null,
+            'resumed_at' => date('c'),
+        ]);
+        $this->startWorker($jobId);
+
+        return $this->getJob($jobId);
+    }
+
+    /**
+     * List all jobs, newest first
+     *
+     * @param string|null $type Only return jobs of this type
+     * @return array Jobs
+     */
+    public function listJobs($type = null) {
+        $jobs = [];
+        foreach (glob($this->jobsDir . '/*.json') as $file) {
+            $jobId = basename($file, '.json');
+            if (!preg_match(self::JOB_ID_PATTERN, $jobId)) {
+                continue;
+            }
+
+            $job = $this->getJob($jobId);
+            if ($job && ($type === null || $job['type'] === $type)) {
+                $jobs[] = $job;
+            }
+        }
+
+        usort($jobs, function($a, $b) {
+            return strcmp($b['id'], $a['id']);
+        });
+
+        return $jobs;
+    }
+
+    /**
+     * Get the direction of every migration job
+     *
+     * @return array MigrationManager::DIRECTION_* of each job, keyed by job ID
+     */
+    public function getMigrationDirections() {
+        $directions = [];
+        foreach ($this->listJobs('migration') as $job) {
+            $directions[$job['id']] = $job['options']['direction'] ?? MigrationLedger::LEGACY_DIRECTION;
+        }
+
+        return $directions;
+    }
+
+    /**
+     * Get the most recent job that has not finished yet
+     *
+     * @param string|null $type Only consider jobs of this type
+     * @return array|null The active job or null
+     */
+    public function getActiveJob($type = null) {
+        foreach ($this->listJobs($type) as $job) {
+            if ($this->isActive($job)) {
+                return $job;
+            }
+        }
+
+        return null;
+    }
+
+    /**
+     * Measure the throughput of the most recent migration that moved data
+     *
+     * Uses the job's progress samples so time spent interrupted or queued
+     * doesn't count.
+     *
+     * @return array|null 'bytes_per_second', 'files_per_second' and the 'job_id' measured, or null
+     */
+    public function getMeasuredThroughput() {
+        foreach ($this->listJobs('migration') as $job) {
+            $samples = $job['samples'] ?? [];
+            if (count($samples) < 2) {
+                continue;
+            }
+
+            $first = $samples[0];
+            $last = end($samples);
+            $seconds = $last['t'] - $first['t'];
+            $bytes = $last['bytes'] - $first['bytes'];
+            if ($seconds <= 0 || $bytes <= 0) {
+                continue;
+            }
+
+            $files = ($last['migrated'] + $last['failed']) - ($first['migrated'] + $first['failed']);
+            return [
+                'bytes_per_second' => $bytes / $seconds,
+                'files_per_second' => $files / $seconds,
+                'job_id' => $job['id'],
+            ];
+        }
+
+        return null;
+    }
+
+    /**
+     * Check whether a job is queued, running or paused
+     *
+     * @param array $job Job data
+     * @return bool True if the job has not finished
+     */
+    public function isActive($job) {
+        return in_array($job['status'], [self::STATUS_QUEUED, self::STATUS_RUNNING, self::STATUS_PAUSED], true);
+    }
+
+    /**
+     * Ask the worker of a job to pause, resume or cancel
+     *
+     * The worker picks the command up between files.
+     *
+     * @param string $jobId Job ID
+     * @param string $command One of the MigrationManager::CONTROL_* commands
+     * @return array The updated job
+     */
+    public function requestControl($jobId, $command) {
+        $job = $this->getJob($jobId);
+        if (!$job) {
+            throw new Exception("Job not found: $jobId");
+        }
+
+        if (!$this->isActive($job)) {
+            throw new Exception("Job $jobId is not running (status: {$job['status']})");
+        }
+
+        $this->logger->info("Requested $command for job $jobId");
+        return $this->updateJob($jobId, ['control' => $command]);
+    }
+
+    /**
+     * Merge changes into a stored job
+     *
+     * @param string $jobId Job ID
+     * @param array $changes Fields to update
+     * @return array The updated job
+     */
+    public function updateJob($jobId, $changes) {
+        $file = $this->getJobFile($jobId);
+        if (!file_exists($file)) {
+            throw new Exception("Job not found: $jobId");
+        }
+
+        // Hold an exclusive lock across read-modify-write so the API and
+        // the worker never overwrite each other's changes
+        $handle = fopen($file, 'c+');
+        flock($handle, LOCK_EX);
+
+        $job = json_decode(stream_get_contents($handle), true);
+        $job = array_merge($job, $changes);
+
+        ftruncate($handle, 0);
+        rewind($handle);
+        fwrite($handle, json_encode($job, JSON_PRETTY_PRINT));
+        fflush($handle);
+        flock($handle, LOCK_UN);
+        fclose($handle);
+
+        return $job;
+    }
+
+    /**
+     * Launch a detached worker process for a job
+     *
+     * @param string $jobId Job ID
+     * @return int Worker process ID
+     */
+    public function startWorker($jobId) {
+        $command = sprintf(
+            'nohup %s %s --job=%s > /dev/null 2>&1 & echo $!',
+            escapeshellarg($this->phpBinary),
+            escapeshellarg(__DIR__ . DIRECTORY_SEPARATOR . 'worker.php'),
+            escapeshellarg($jobId)
+        );
+
+        exec($command, $output, $returnVar);
+
+        if ($returnVar !== 0 || empty($output)) {
+            $this->updateJob($jobId, [
+                'status' => self::STATUS_FAILED,
+                'finished_at' => date('c'),
+                'error' => 'Failed to start worker process',
+            ]);
+            throw new Exception("Failed to start worker for job: $jobId");
+        }
+
+        $pid = (int)$output[0];
+        $this->updateJob($jobId, ['pid' => $pid]);
+        $this->logger->info("Started worker for job $jobId (PID: $pid)");
+
+        return $pid;
+    }
+
+    /**
+     * Check whether the worker process of a job is still running
+     *
+     * @param array $job Job data
+     * @return bool True if the worker is alive
+     */
+    private function isWorkerAlive($job) {
+        if (!$job['pid']) {
+            // The worker has not reported in yet
+            return time() - strtotime($job['resumed_at'] ?? $job['created_at']) < self::WORKER_START_TIMEOUT;
+        }
+
+        if (function_exists('posix_kill')) {
+            return posix_kill($job['pid'], 0);
+        }
+
+        return file_exists('/proc/' . $job['pid']);
+    }
+
+    /**
+     * Write a complete job record
+     *
+     * @param array $job Job data
+     */
+    private function writeJob($job) {
+        file_put_contents($this->getJobFile($job['id']), json_encode($job, JSON_PRETTY_PRINT), LOCK_EX);
+    }
+
+    /**
+     * Get the state file path for a job
+     *
+     * @param string $jobId Job ID
+     * @return string File path
+     */
+    private function getJobFile($jobId) {
+        // Job IDs end up in file paths, so never accept anything but our own format
+        if (!preg_match(self::JOB_ID_PATTERN, $jobId)) {
+            throw new Exception("Invalid job ID: $jobId");
+        }
+
+        return $this->jobsDir . DIRECTORY_SEPARATOR . $jobId . '.json';
+    }
+}
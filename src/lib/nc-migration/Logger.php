@@ -8,9 +8,23 @@ class Logger {
     const LOG_WARN = 2;
     const LOG_ERROR = 3;
     
+    const FORMAT_TEXT = 'text';
+    const FORMAT_JSON = 'json';
+    
+    // Fields every JSON log entry carries, null when not known
+    const CONTEXT_FIELDS = ['job_id', 'phase', 'fileid', 'path', 'user'];
+    
+    // Most a single read returns, so opening a long log only loads its tail
+    const READ_MAX_BYTES = 262144;
+    
     private $logLevel;
     private $logFile;
     private $outputToConsole;
+    private $extraLogFiles = [];
+    private $format = self::FORMAT_TEXT;
+    private $maxSize = 0;
+    private $maxFiles = 5;
+    private $context = [];
     
     /**
      * Initialize the logger
@@ -18,11 +32,15 @@ class Logger {
      * @param string $logFile Path to log file
      * @param int $logLevel Minimum log level
      * @param bool $outputToConsole Whether to output to console
+     * @param array $options 'format' (FORMAT_*), 'max_size' in MB before the log file is rotated (0 to never rotate) and 'max_files' rotated files to keep
      */
-    public function __construct($logFile, $logLevel = self::LOG_INFO, $outputToConsole = true) {
+    public function __construct($logFile, $logLevel = self::LOG_INFO, $outputToConsole = true, $options = []) {
         $this->logFile = $logFile;
         $this->logLevel = $logLevel;
         $this->outputToConsole = $outputToConsole;
+        $this->format = ($options['format'] ?? self::FORMAT_TEXT) === self::FORMAT_JSON ? self::FORMAT_JSON : self::FORMAT_TEXT;
+        $this->maxSize = (int)(($options['max_size'] ?? 0) * 1048576);
+        $this->maxFiles = max(1, (int)($options['max_files'] ?? 5));
         
         // Initialize the log file
         if (!file_exists(dirname($logFile))) {
@@ -33,40 +51,129 @@ class Logger {
         $this->writeToLog("Nextcloud S3 Migration Log - Started at " . date('Y-m-d H:i:s'), self::LOG_INFO);
     }
     
+    /**
+     * Create a logger from the migration configuration
+     * 
+     * @param array $config Configuration from getConfig()
+     * @param bool $outputToConsole Whether to output to console
+     * @return Logger Logger instance
+     */
+    public static function fromConfig($config, $outputToConsole = true) {
+        return new self($config['log_file'], $config['log_level'], $outputToConsole, [
+            'format' => $config['log_format'] ?? self::FORMAT_TEXT,
+            'max_size' => $config['log_max_size'] ?? 0,
+            'max_files' => $config['log_max_files'] ?? 5,
+        ]);
+    }
+    
+    /**
+     * Set context fields added to every following message
+     * 
+     * @param array $context Values of CONTEXT_FIELDS, null to clear one
+     */
+    public function setContext($context) {
+        $this->context = array_merge($this->context, $context);
+    }
+    
+    /**
+     * Copy every following message to another file as well
+     * 
+     * @param string $logFile Path to the additional log file
+     */
+    public function addLogFile($logFile) {
+        $this->extraLogFiles[] = $logFile;
+    }
+    
+    /**
+     * Read complete lines appended to a log file since an offset
+     * 
+     * Without an offset, or when the file got shorter than the offset, the
+     * end of the file is read. At most READ_MAX_BYTES are returned; the
+     * returned offset points past the last complete line read.
+     * 
+     * @param string $logFile Path to the log file
+     * @param int|null $offset Byte offset to read from, null for the end of the file
+     * @return array 'lines', next 'offset', file 'size' and whether earlier lines were left out ('truncated')
+     */
+    public static function readLines($logFile, $offset = null) {
+        clearstatcache(true, $logFile);
+        $size = file_exists($logFile) ? filesize($logFile) : 0;
+        $result = ['lines' => [], 'offset' => $size, 'size' => $size, 'truncated' => false];
+        
+        if ($offset === null || $offset > $size) {
+            $offset = max(0, $size - self::READ_MAX_BYTES);
+            $result['truncated'] = $offset > 0;
+        }
+        
+        if ($offset >= $size) {
+            $result['offset'] = $offset;
+            return $result;
+        }
+        
+        $handle = fopen($logFile, 'r');
+        fseek($handle, $offset);
+        $data = fread($handle, min(self::READ_MAX_BYTES, $size - $offset));
+        fclose($handle);
+        
+        // Starting mid-file lands inside a line, so drop that partial line
+        if ($result['truncated']) {
+            $newline = strpos($data, "\n");
+            $skip = $newline === false ? strlen($data) : $newline + 1;
+            $data = substr($data, $skip);
+            $offset += $skip;
+        }
+        
+        // Leave a line that is still being written for the next read
+        $end = strrpos($data, "\n");
+        if ($end === false) {
+            $result['offset'] = $offset;
+            return $result;
+        }
+        
+        $result['lines'] = explode("\n", substr($data, 0, $end));
+        $result['offset'] = $offset + $end + 1;
+        
+        return $result;
+    }
+    
     /**
      * Log a debug message
      * 
      * @param string $message Message to log
+     * @param array $context Context fields for this message only
      */
-    public function debug($message) {
-        $this->writeToLog($message, self::LOG_DEBUG);
+    public function debug($message, $context = []) {
+        $this->writeToLog($message, self::LOG_DEBUG, $context);
     }
     
     /**
      * Log an info message
      * 
      * @param string $message Message to log
+     * @param array $context Context fields for this message only
      */
-    public function info($message) {
-        $this->writeToLog($message, self::LOG_INFO);
+    public function info($message, $context = []) {
+        $this->writeToLog($message, self::LOG_INFO, $context);
     }
     
     /**
      * Log a warning message
      * 
      * @param string $message Message to log
+     * @param array $context Context fields for this message only
      */
-    public function warn($message) {
-        $this->writeToLog($message, self::LOG_WARN);
+    public function warn($message, $context = []) {
+        $this->writeToLog($message, self::LOG_WARN, $context);
     }
     
     /**
      * Log an error message
      * 
      * @param string $message Message to log
+     * @param array $context Context fields for this message only
      */
-    public function error($message) {
-        $this->writeToLog($message, self::LOG_ERROR);
+    public function error($message, $context = []) {
+        $this->writeToLog($message, self::LOG_ERROR, $context);
     }
     
     /**
@@ -74,8 +181,9 @@ class Logger {
      * 
      * @param string $message Message to log
      * @param int $level Log level
+     * @param array $context Context fields for this message only
      */
-    private function writeToLog($message, $level) {
+    private function writeToLog($message, $level, $context = []) {
         if ($level < $this->logLevel) {
             return;
         }
@@ -84,8 +192,23 @@ class Logger {
         $levelStr = $this->getLevelString($level);
         $logMessage = "[$timestamp][$levelStr] $message" . PHP_EOL;
         
+        if ($this->format === self::FORMAT_JSON) {
+            $context = array_merge($this->context, $context);
+            $entry = ['time' => date('c'), 'level' => $levelStr, 'message' => $message];
+            foreach (self::CONTEXT_FIELDS as $field) {
+                $entry[$field] = $context[$field] ?? null;
+            }
+            $fileMessage = json_encode($entry, JSON_UNESCAPED_SLASHES | JSON_UNESCAPED_UNICODE | JSON_INVALID_UTF8_SUBSTITUTE) . PHP_EOL;
+        } else {
+            $fileMessage = $logMessage;
+        }
+        
         // Write to file
-        file_put_contents($this->logFile, $logMessage, FILE_APPEND);
+        $this->rotate();
+        file_put_contents($this->logFile, $fileMessage, FILE_APPEND);
+        foreach ($this->extraLogFiles as $logFile) {
+            file_put_contents($logFile, $fileMessage, FILE_APPEND);
+        }
         
         // Output to console if enabled
         if ($this->outputToConsole) {
@@ -94,6 +217,30 @@ class Logger {
         }
     }
     
+    /**
+     * Move the log file aside once it reaches the maximum size
+     * 
+     * Rotated files are numbered from .1 (newest) to .max_files (oldest);
+     * anything older is dropped.
+     */
+    private function rotate() {
+        if ($this->maxSize <= 0) {
+            return;
+        }
+        
+        clearstatcache(true, $this->logFile);
+        if (!file_exists($this->logFile) || filesize($this->logFile) < $this->maxSize) {
+            return;
+        }
+        
+        for ($i = $this->maxFiles - 1; $i >= 1; $i--) {
+            if (file_exists("{$this->logFile}.$i")) {
+                rename("{$this->logFile}.$i", "{$this->logFile}." . ($i + 1));
+            }
+        }
+        rename($this->logFile, "{$this->logFile}.1");
+    }
+    
     /**
      * Get string representation of log level
      * 
@@ -0,0 +1,106 @@
+<?php
+/**
+ * Maintenance mode switch for Nextcloud S3 Migration
+ *
+ * Turns Nextcloud's maintenance mode on and off with occ, falls back to
+ * editing config.php, and checks the result by reading the value back
+ */
+require_once 'NextcloudConfig.php';
+
+class MaintenanceMode {
+    // How the mode was switched
+    const METHOD_OCC = 'occ';
+    const METHOD_CONFIG = 'config';
+
+    private $nextcloudDir;
+    private $nextcloudConfig;
+    private $logger;
+    private $phpBinary;
+
+    /**
+     * Initialize the maintenance mode switch
+     *
+     * @param string $nextcloudDir Nextcloud installation directory
+     * @param string $backupDir Directory the backups of config.php are written to
+     * @param Logger $logger Logger instance
+     * @param string $phpBinary PHP CLI binary used to run occ
+     */
+    public function __construct($nextcloudDir, $backupDir, $logger, $phpBinary = 'php') {
+        $this->nextcloudDir = $nextcloudDir;
+        $this->nextcloudConfig = new NextcloudConfig($nextcloudDir, $backupDir, $logger);
+        $this->logger = $logger;
+        $this->phpBinary = $phpBinary;
+    }
+
+    /**
+     * Whether maintenance mode is on, as config.php says
+     *
+     * @return bool True if maintenance mode is on
+     */
+    public function isEnabled() {
+        $values = $this->nextcloudConfig->load();
+        return !empty($values['maintenance']);
+    }
+
+    /**
+     * Turn maintenance mode on or off
+     *
+     * @param bool $enable Whether to turn it on or off
+     * @return array The new state ('enabled') and how it was switched ('method')
+     */
+    public function setEnabled($enable) {
+        $enable = (bool)$enable;
+        $state = $enable ? 'on' : 'off';
+        $method = self::METHOD_OCC;
+
+        // occ refuses to run as anyone but the owner of config.php
+        if (!$this->runOcc($enable) || $this->isEnabled() !== $enable) {
+            $this->logger->warn("occ could not turn maintenance mode $state, editing the Nextcloud config file instead");
+            $method = self::METHOD_CONFIG;
+
+            $values = $this->nextcloudConfig->load();
+            $values['maintenance'] = $enable;
+            $this->nextcloudConfig->save($values);
+        }
+
+        if ($this->isEnabled() !== $enable) {
+            throw new Exception("Maintenance mode could not be turned $state");
+        }
+
+        $this->logger->info("Maintenance mode turned $state with $method");
+        return [
+            'enabled' => $enable,
+            'method' => $method,
+        ];
+    }
+
+    /**
+     * Run occ maintenance:mode
+     *
+     * @param bool $enable Whether to turn maintenance mode on or off
+     * @return bool True if occ finished without error
+     */
+    private function runOcc($enable) {
+        $occ = $this->nextcloudDir . '/occ';
+        if (!file_exists($occ)) {
+            $this->logger->debug("occ not found: $occ");
+            return false;
+        }
+
+        $command = sprintf(
+            '%s %s maintenance:mode %s 2>&1',
+            escapeshellarg($this->phpBinary),
+            escapeshellarg($occ),
+            $enable ? '--on' : '--off'
+        );
+
+        exec($command, $output, $returnVar);
+
+        if ($returnVar !== 0) {
+            $this->logger->warn("occ maintenance:mode failed with error code $returnVar: " . implode(' ', $output));
+            return false;
+        }
+
+        return true;
+    }
+}
@@ -0,0 +1,596 @@
+<?php
+/**
+ * Per-file migration ledger for Nextcloud S3 Migration
+ *
+ * Keeps one row per fileid in oc_s3mig_ledger with the furthest state the
+ * file reached. The ledger must be given its own database connection: its
+ * writes are committed immediately so they survive a rollback of the
+ * migration transaction, which is exactly when an uploaded object would
+ * otherwise be orphaned without a trace.
+ *
+ * Alongside it, oc_s3mig_ledger_runs keeps the outcome of every file per
+ * job, so the report of a run still holds its files after a later run has
+ * processed them again.
+ */
+class MigrationLedger {
+    const TABLE = 'oc_s3mig_ledger';
+    const RUNS_TABLE = 'oc_s3mig_ledger_runs';
+
+    const STATE_PENDING = 'pending';
+    const STATE_UPLOADED = 'uploaded';
+    const STATE_VERIFIED = 'verified';
+    const STATE_DB_UPDATED = 'db_updated';
+    const STATE_FAILED = 'failed';
+
+    // Error categories of transfers that didn't match the source: by size
+    // (or missing), and by checksum
+    const CATEGORY_VERIFICATION = 'verification_mismatch';
+    const CATEGORY_CHECKSUM = 'checksum_mismatch';
+
+    // Direction of rows written before it was recorded and of no known job,
+    // from the time every migration uploaded to S3
+    const LEGACY_DIRECTION = 'to_s3';
+
+    private $db;
+    private $logger;
+
+    /**
+     * Initialize the ledger
+     *
+     * @param DatabaseManager $db Dedicated database connection (autocommit)
+     * @param Logger $logger Logger instance
+     */
+    public function __construct($db, $logger) {
+        $this->db = $db;
+        $this->logger = $logger;
+    }
+
+    /**
+     * Create the ledger table if it doesn't exist
+     */
+    public function ensureTable() {
+        $this->db->execute(
+            'CREATE TABLE IF NOT EXISTS ' . self::TABLE . ' (
+                fileid BIGINT PRIMARY KEY,
+                job_id VARCHAR(32),
+                storage BIGINT NOT NULL,
+                path TEXT NOT NULL,
+                size BIGINT NOT NULL DEFAULT 0,
+                state VARCHAR(16) NOT NULL,
+                error TEXT,
+                attempts INTEGER NOT NULL DEFAULT 0,
+                created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+                updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+            )'
+        );
+        // Columns added after the table was first introduced
+        $this->db->execute('ALTER TABLE ' . self::TABLE . ' ADD COLUMN IF NOT EXISTS error_category VARCHAR(32)');
+        $this->db->execute('ALTER TABLE ' . self::TABLE . ' ADD COLUMN IF NOT EXISTS verified BOOLEAN');
+        $this->db->execute('ALTER TABLE ' . self::TABLE . ' ADD COLUMN IF NOT EXISTS direction VARCHAR(16)');
+        $this->db->execute('ALTER TABLE ' . self::TABLE . ' ADD COLUMN IF NOT EXISTS test_run BOOLEAN NOT NULL DEFAULT FALSE');
+        $this->db->execute('ALTER TABLE ' . self::TABLE . ' ADD COLUMN IF NOT EXISTS mtime BIGINT');
+        $this->db->execute('ALTER TABLE ' . self::TABLE . ' ADD COLUMN IF NOT EXISTS etag VARCHAR(40)');
+        $this->db->execute('CREATE INDEX IF NOT EXISTS ' . self::TABLE . '_state_idx ON ' . self::TABLE . ' (state)');
+        $this->db->execute('CREATE INDEX IF NOT EXISTS ' . self::TABLE . '_job_idx ON ' . self::TABLE . ' (job_id)');
+
+        $runsExisted = (bool)$this->db->fetchColumn('SELECT to_regclass(:table) IS NOT NULL', ['table' => self::RUNS_TABLE]);
+        $this->db->execute(
+            'CREATE TABLE IF NOT EXISTS ' . self::RUNS_TABLE . ' (
+                job_id VARCHAR(32) NOT NULL,
+                fileid BIGINT NOT NULL,
+                direction VARCHAR(16) NOT NULL,
+                storage BIGINT NOT NULL,
+                path TEXT NOT NULL,
+                size BIGINT NOT NULL DEFAULT 0,
+                bucket TEXT,
+                state VARCHAR(16) NOT NULL,
+                verified BOOLEAN,
+                error TEXT,
+                error_category VARCHAR(32),
+                created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+                updated_at TIMESTAMP NOT NULL DEFAULT NOW(),
+                PRIMARY KEY (job_id, fileid)
+            )'
+        );
+
+        // Runs from before the table existed keep the files they were last to process
+        if (!$runsExisted) {
+            $this->db->execute(
+                'INSERT INTO ' . self::RUNS_TABLE . ' (job_id, fileid, direction, storage, path, size, state, verified, error, error_category, created_at, updated_at)
+                 SELECT job_id, fileid, COALESCE(direction, :legacyDirection), storage, path, size, state, verified, error, error_category, created_at, updated_at
+                 FROM ' . self::TABLE . '
+                 WHERE job_id IS NOT NULL
+                 ON CONFLICT DO NOTHING',
+                ['legacyDirection' => self::LEGACY_DIRECTION]
+            );
+        }
+    }
+
+    /**
+     * Record the start of a migration attempt for a file
+     *
+     * @param array $file File data (fileid, storage, path, size, and the mtime and etag of the version transferred)
+     * @param string|null $jobId Job the attempt belongs to
+     * @param string $direction MigrationManager::DIRECTION_* of the attempt
+     * @param string|null $bucket Bucket the file's object is transferred to or from
+     * @param bool $testRun Whether the attempt belongs to a test run, which never switches storages; a file
+     *                      a run that was not a test has attempted stays marked as such
+     */
+    public function startFile($file, $jobId, $direction, $bucket = null, $testRun = false) {
+        $this->db->execute(
+            'INSERT INTO ' . self::TABLE . ' (fileid, job_id, direction, test_run, storage, path, size, mtime, etag, state, attempts)
+             VALUES (:fileId, :jobId, :direction, :testRun, :storage, :path, :size, :mtime, :etag, :state, 1)
+             ON CONFLICT (fileid) DO UPDATE SET
+                job_id = EXCLUDED.job_id,
+                direction = EXCLUDED.direction,
+                test_run = ' . self::TABLE . '.test_run AND EXCLUDED.test_run,
+                storage = EXCLUDED.storage,
+                path = EXCLUDED.path,
+                size = EXCLUDED.size,
+                mtime = EXCLUDED.mtime,
+                etag = EXCLUDED.etag,
+                state = EXCLUDED.state,
+                error = NULL,
+                error_category = NULL,
+                verified = NULL,
+                attempts = ' . self::TABLE . '.attempts + 1,
+                updated_at = NOW()',
+            [
+                'fileId' => $file['fileid'],
+                'jobId' => $jobId,
+                'direction' => $direction,
+                'testRun' => $testRun ? 'true' : 'false',
+                'storage' => $file['storage'],
+                'path' => $file['path'],
+                'size' => $file['size'],
+                'mtime' => $file['mtime'] ?? null,
+                'etag' => $file['etag'] ?? null,
+                'state' => self::STATE_PENDING,
+            ]
+        );
+
+        if ($jobId === null) {
+            return;
+        }
+
+        // A resumed job starts its file over
+        $this->db->execute(
+            'INSERT INTO ' . self::RUNS_TABLE . ' (job_id, fileid, direction, storage, path, size, bucket, state)
+             VALUES (:jobId, :fileId, :direction, :storage, :path, :size, :bucket, :state)
+             ON CONFLICT (job_id, fileid) DO UPDATE SET
+                direction = EXCLUDED.direction,
+                storage = EXCLUDED.storage,
+                path = EXCLUDED.path,
+                size = EXCLUDED.size,
+                bucket = EXCLUDED.bucket,
+                state = EXCLUDED.state,
+                verified = NULL,
+                error = NULL,
+                error_category = NULL,
+                updated_at = NOW()',
+            [
+                'jobId' => $jobId,
+                'fileId' => $file['fileid'],
+                'direction' => $direction,
+                'storage' => $file['storage'],
+                'path' => $file['path'],
+                'size' => $file['size'],
+                'bucket' => $bucket,
+                'state' => self::STATE_PENDING,
+            ]
+        );
+    }
+
+    /**
+     * Move a file to a new state
+     *
+     * @param int $fileId File ID
+     * @param string $state One of the STATE_* constants
+     * @param string|null $error Error message for failed files
+     * @param string|null $category Error category for failed files
+     */
+    public function setState($fileId, $state, $error = null, $category = null) {
+        // Keep the outcome of the checksum comparison once the file moves on
+        $verified = '';
+        if ($state === self::STATE_VERIFIED) {
+            $verified = ', verified = TRUE';
+        } else if ($category === self::CATEGORY_VERIFICATION || $category === self::CATEGORY_CHECKSUM) {
+            $verified = ', verified = FALSE';
+        }
+
+        $params = [
+            'state' => $state,
+            'error' => $error,
+            'category' => $category,
+            'fileId' => $fileId,
+        ];
+        $this->db->execute(
+            'UPDATE ' . self::TABLE . " SET state = :state, error = :error, error_category = :category$verified, updated_at = NOW() WHERE fileid = :fileId",
+            $params
+        );
+        $this->db->execute(
+            'UPDATE ' . self::RUNS_TABLE . " r SET state = :state, error = :error, error_category = :category$verified, updated_at = NOW()
+             FROM " . self::TABLE . ' l
+             WHERE l.fileid = :fileId AND r.job_id = l.job_id AND r.fileid = l.fileid',
+            $params
+        );
+    }
+
+    /**
+     * Mark files whose filecache update has been committed
+     *
+     * @param array $fileIds File IDs
+     */
+    public function markCommitted($fileIds) {
+        if (empty($fileIds)) {
+            return;
+        }
+
+        $params = [];
+        foreach (array_values($fileIds) as $i => $fileId) {
+            $params["id$i"] = $fileId;
+        }
+
+        $this->db->execute(
+            'UPDATE ' . self::RUNS_TABLE . ' r SET state = :state, updated_at = NOW()
+             FROM ' . self::TABLE . ' l
+             WHERE l.fileid IN (:' . implode(', :', array_keys($params)) . ') AND r.job_id = l.job_id AND r.fileid = l.fileid',
+            array_merge($params, ['state' => self::STATE_DB_UPDATED])
+        );
+        $this->db->execute(
+            'UPDATE ' . self::TABLE . ' SET state = :state, updated_at = NOW()
+             WHERE fileid IN (:' . implode(', :', array_keys($params)) . ')',
+            array_merge($params, ['state' => self::STATE_DB_UPDATED])
+        );
+        $this->logger->debug('Ledger: marked ' . count($fileIds) . ' files as committed');
+    }
+
+    /**
+     * Mark the transferred files of switched storages as committed
+     *
+     * Files of home storages keep their filecache row when they are
+     * transferred and only move once their storage is switched, so they
+     * stay uploaded or verified until then.
+     *
+     * @param string $direction MigrationManager::DIRECTION_* the files were transferred in
+     * @param array|null $storageIds Numeric IDs of the switched storages, null for every storage
+     * @return int Number of files marked
+     */
+    public function markStoragesSwitched($direction, $storageIds = null) {
+        $params = [
+            'committedState' => self::STATE_DB_UPDATED,
+            'uploadedState' => self::STATE_UPLOADED,
+            'verifiedState' => self::STATE_VERIFIED,
+            'legacyDirection' => self::LEGACY_DIRECTION,
+            'direction' => $direction,
+        ];
+        $storageSql = '';
+        if ($storageIds !== null) {
+            $placeholders = [];
+            foreach (array_values($storageIds) as $i => $storageId) {
+                $placeholders[] = ":storage$i";
+                $params["storage$i"] = $storageId;
+            }
+            $storageSql = ' AND storage IN (' . implode(', ', $placeholders ?: ['NULL']) . ')';
+        }
+
+        // The runs that transferred the files, before the ledger rows move on
+        $this->db->execute(
+            'UPDATE ' . self::RUNS_TABLE . ' r SET state = :committedState, updated_at = NOW()
+             FROM (
+                SELECT job_id, fileid FROM ' . self::TABLE . '
+                WHERE state IN (:uploadedState, :verifiedState) AND COALESCE(direction, :legacyDirection) = :direction' . $storageSql . '
+             ) l
+             WHERE r.job_id = l.job_id AND r.fileid = l.fileid',
+            $params
+        );
+
+        $marked = $this->db->execute(
+            'UPDATE ' . self::TABLE . ' SET state = :committedState, updated_at = NOW()
+             WHERE state IN (:uploadedState, :verifiedState) AND COALESCE(direction, :legacyDirection) = :direction' . $storageSql,
+            $params
+        )->rowCount();
+        $this->logger->debug("Ledger: marked $marked files of switched storages as committed");
+
+        return $marked;
+    }
+
+    /**
+     * Move files whose transferred object was deleted back to pending
+     *
+     * @param array $fileIds File IDs
+     */
+    public function resetTransfers($fileIds) {
+        if (empty($fileIds)) {
+            return;
+        }
+
+        $params = [];
+        foreach (array_values($fileIds) as $i => $fileId) {
+            $params["id$i"] = $fileId;
+        }
+
+        $reset = $this->db->execute(
+            'UPDATE ' . self::TABLE . ' SET state = :pendingState, verified = NULL, updated_at = NOW()
+             WHERE fileid IN (:' . implode(', :', array_keys($params)) . ') AND state IN (:uploadedState, :verifiedState)',
+            array_merge($params, [
+                'pendingState' => self::STATE_PENDING,
+                'uploadedState' => self::STATE_UPLOADED,
+                'verifiedState' => self::STATE_VERIFIED,
+            ])
+        )->rowCount();
+        $this->logger->debug("Ledger: moved $reset files whose object was deleted back to pending");
+    }
+
+    /**
+     * Record the direction of rows written before it was, from their job
+     *
+     * @param array $jobDirections MigrationManager::DIRECTION_* of each job, keyed by job ID
+     */
+    public function backfillDirections($jobDirections) {
+        foreach ($jobDirections as $jobId => $direction) {
+            $this->db->execute(
+                'UPDATE ' . self::TABLE . ' SET direction = :direction WHERE direction IS NULL AND job_id = :jobId',
+                [
+                    'direction' => $direction,
+                    'jobId' => $jobId,
+                ]
+            );
+        }
+    }
+
+    /**
+     * Count failed files per direction of the run they failed in
+     *
+     * @param array|null $fileIds Only count these files, null for every failed file
+     * @return array Counts keyed by MigrationManager::DIRECTION_*
+     */
+    public function countFailuresByDirection($fileIds = null) {
+        $params = [
+            'legacyDirection' => self::LEGACY_DIRECTION,
+            'state' => self::STATE_FAILED,
+        ];
+        $fileIdSql = '';
+        if ($fileIds !== null) {
+            $placeholders = [];
+            foreach (array_values($fileIds) as $i => $fileId) {
+                $placeholders[] = ":id$i";
+                $params["id$i"] = $fileId;
+            }
+            $fileIdSql = ' AND fileid IN (' . implode(', ', $placeholders ?: ['NULL']) . ')';
+        }
+
+        $directions = [];
+        foreach ($this->db->fetchAll(
+            'SELECT COALESCE(direction, :legacyDirection) AS direction, COUNT(*) AS count
+             FROM ' . self::TABLE . '
+             WHERE state = :state' . $fileIdSql . '
+             GROUP BY 1',
+            $params
+        ) as $row) {
+            $directions[$row['direction']] = (int)$row['count'];
+        }
+
+        return $directions;
+    }
+
+    /**
+     * Search the ledger
+     *
+     * @param array $filters Optional 'search' (path substring or fileid), 'state' and 'job_id'
+     * @param int $page Page number, starting at 1
+     * @param int $perPage Rows per page
+     * @return array Matching rows, total count and counts per state
+     */
+    public function search($filters, $page = 1, $perPage = 50) {
+        $where = [];
+        $params = [];
+
+        if (!empty($filters['search'])) {
+            if (ctype_digit($filters['search'])) {
+                $where[] = '(fileid = :fileId OR path LIKE :path)';
+                $params['fileId'] = (int)$filters['search'];
+            } else {
+                $where[] = 'path LIKE :path';
+            }
+            $params['path'] = '%' . addcslashes($filters['search'], '%_\\') . '%';
+        }
+
+        if (!empty($filters['job_id'])) {
+            $where[] = 'job_id = :jobId';
+            $params['jobId'] = $filters['job_id'];
+        }
+
+        // State counts cover the search but not the state filter itself
+        $countWhere = $where ? 'WHERE ' . implode(' AND ', $where) : '';
+        $counts = [];
+        foreach ($this->db->fetchAll('SELECT state, COUNT(*) AS count FROM ' . self::TABLE . " $countWhere GROUP BY state", $params) as $row) {
+            $counts[$row['state']] = (int)$row['count'];
+        }
+
+        if (!empty($filters['state'])) {
+            $where[] = 'state = :state';
+            $params['state'] = $filters['state'];
+        }
+
+        $whereSql = $where ? 'WHERE ' . implode(' AND ', $where) : '';
+        $total = (int)$this->db->fetchColumn('SELECT COUNT(*) FROM ' . self::TABLE . " $whereSql", $params);
+
+        $rows = $this->db->fetchAll(
+            'SELECT fileid, job_id, storage, path, size, state, error, error_category, attempts, created_at, updated_at
+             FROM ' . self::TABLE . " $whereSql
+             ORDER BY updated_at DESC, fileid DESC
+             LIMIT :limit OFFSET :offset",
+            array_merge($params, [
+                'limit' => $perPage,
+                'offset' => max(0, $page - 1) * $perPage,
+            ])
+        );
+
+        return [
+            'rows' => $rows,
+            'total' => $total,
+            'counts' => $counts,
+        ];
+    }
+
+    /**
+     * Get every failed file with its owner, grouped counts per error category
+     *
+     * @param int $limit Maximum number of files to return
+     * @return array Failed files, counts per category and direction, and whether the list was cut off
+     */
+    public function getFailures($limit = 10000) {
+        $rows = $this->db->fetchAll(
+            'SELECT l.fileid, l.path, l.size, l.error, l.error_category, l.attempts, l.updated_at, st.id AS storage_id,
+                    COALESCE(l.direction, :legacyDirection) AS direction
+             FROM ' . self::TABLE . ' l
+             LEFT JOIN oc_storages st ON st.numeric_id = l.storage
+             WHERE l.state = :state
+             ORDER BY l.fileid ASC
+             LIMIT :limit',
+            [
+                'legacyDirection' => self::LEGACY_DIRECTION,
+                'state' => self::STATE_FAILED,
+                'limit' => $limit + 1,
+            ]
+        );
+
+        $truncated = count($rows) > $limit;
+        $rows = array_slice($rows, 0, $limit);
+
+        $files = [];
+        foreach ($rows as $row) {
+            $files[] = [
+                'fileid' => (int)$row['fileid'],
+                'path' => $row['path'],
+                'owner' => self::resolveOwner($row['storage_id'], $row['path']),
+                'size' => (int)$row['size'],
+                'error' => $row['error'],
+                'category' => $row['error_category'] ?: 'other',
+                'attempts' => (int)$row['attempts'],
+                'direction' => $row['direction'],
+                'updated_at' => $row['updated_at'],
+            ];
+        }
+
+        $categories = [];
+        foreach ($this->db->fetchAll(
+            'SELECT COALESCE(error_category, :other) AS category, COUNT(*) AS count, SUM(size) AS size
+             FROM ' . self::TABLE . '
+             WHERE state = :state
+             GROUP BY 1',
+            [
+                'other' => 'other',
+                'state' => self::STATE_FAILED,
+            ]
+        ) as $row) {
+            $categories[$row['category']] = [
+                'count' => (int)$row['count'],
+                'size' => (int)$row['size'],
+            ];
+        }
+
+        return [
+            'files' => $files,
+            'categories' => $categories,
+            'directions' => $this->countFailuresByDirection(),
+            'truncated' => $truncated,
+        ];
+    }
+
+    /**
+     * Count the failed files of a job per error category
+     *
+     * @param string|null $jobId Job the files were last processed by, null for files without a job
+     * @return array Counts and sizes keyed by category
+     */
+    public function getFailureSummary($jobId) {
+        $categories = [];
+        foreach ($this->db->fetchAll(
+            'SELECT COALESCE(error_category, :other) AS category, COUNT(*) AS count, SUM(size) AS size
+             FROM ' . self::TABLE . '
+             WHERE state = :state AND job_id ' . ($jobId === null ? 'IS NULL' : '= :jobId') . '
+             GROUP BY 1',
+            array_merge([
+                'other' => 'other',
+                'state' => self::STATE_FAILED,
+            ], $jobId === null ? [] : ['jobId' => $jobId])
+        ) as $row) {
+            $categories[$row['category']] = [
+                'count' => (int)$row['count'],
+                'size' => (int)$row['size'],
+            ];
+        }
+
+        return $categories;
+    }
+
+    /**
+     * Get the files a job processed with their outcome in it, in file ID order
+     *
+     * @param string $jobId Job ID
+     * @param int $afterFileId Only return files with a higher file ID
+     * @param int $limit Maximum number of files to return
+     * @return array Rows of the runs table
+     */
+    public function getJobFiles($jobId, $afterFileId = 0, $limit = 1000) {
+        return $this->db->fetchAll(
+            'SELECT fileid, storage, path, size, bucket, state, verified, error, error_category, updated_at
+             FROM ' . self::RUNS_TABLE . '
+             WHERE job_id = :jobId AND fileid > :afterFileId
+             ORDER BY fileid ASC
+             LIMIT :limit',
+            [
+                'jobId' => $jobId,
+                'afterFileId' => $afterFileId,
+                'limit' => $limit,
+            ]
+        );
+    }
+
+    /**
+     * Count a job's files by state and verification outcome
+     *
+     * @param string $jobId Job ID
+     * @return array Rows with 'state', 'verified' (true, false or null), 'count' and 'size'
+     */
+    public function getVerificationSummary($jobId) {
+        $rows = [];
+        foreach ($this->db->fetchAll(
+            'SELECT state, verified, COUNT(*) AS count, SUM(size) AS size
+             FROM ' . self::RUNS_TABLE . '
+             WHERE job_id = :jobId
+             GROUP BY state, verified',
+            ['jobId' => $jobId]
+        ) as $row) {
+            $rows[] = [
+                'state' => $row['state'],
+                'verified' => $row['verified'] === null ? null : (bool)$row['verified'],
+                'count' => (int)$row['count'],
+                'size' => (int)$row['size'],
+            ];
+        }
+
+        return $rows;
+    }
+
+    /**
+     * Work out which user a file belongs to
+     *
+     * @param string|null $storageId Storage ID string (home::, object::user: or local::)
+     * @param string $path Path within the storage
+     * @return string|null User ID or null if the file has no owner
+     */
+    public static function resolveOwner($storageId, $path) {
+        if (substr($storageId, 0, 13) == 'object::user:') {
+            return substr($storageId, 13);
+        } else if (substr($storageId, 0, 6) == 'home::') {
+            return substr($storageId, 6);
+        }
+
+        // On the root storage, user files live under <user>/files/
+        $parts = explode('/', $path, 3);
+        return (count($parts) > 1 && $parts[1] === 'files') ? $parts[0] : null;
+    }
+}
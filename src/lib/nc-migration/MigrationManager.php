@@ -4,11 +4,83 @@
  */
 require_once 'DatabaseManager.php';
 require_once 'S3Manager.php';
+require_once 'Checkpoint.php';
+require_once 'MigrationLedger.php';
+require_once 'MigrationRules.php';
+require_once 'NextcloudConfig.php';
+require_once 'MaintenanceMode.php';
+require_once 'IntegrityAuditor.php';
 require_once 'Logger.php';
 
 class MigrationManager {
+    const STATUS_RUNNING = 'running';
+    const STATUS_PAUSED = 'paused';
+    const STATUS_CANCELLED = 'cancelled';
+    const STATUS_COMPLETE = 'complete';
+    
+    const CONTROL_PAUSE = 'pause';
+    const CONTROL_RESUME = 'resume';
+    const CONTROL_CANCEL = 'cancel';
+    
+    const ERROR_MISSING_LOCAL = 'missing_local';
+    const ERROR_PERMISSION_DENIED = 'permission_denied';
+    const ERROR_S3_CLIENT = 's3_4xx';
+    const ERROR_S3_SERVER = 's3_5xx';
+    const ERROR_VERIFICATION = MigrationLedger::CATEGORY_VERIFICATION;
+    const ERROR_CHECKSUM = MigrationLedger::CATEGORY_CHECKSUM;
+    const ERROR_OTHER = 'other';
+    
+    const ORDER_FILEID = 'fileid';
+    const ORDER_SIZE_ASC = 'size_asc';
+    const ORDER_SIZE_DESC = 'size_desc';
+    const ORDER_ROUND_ROBIN = 'round_robin';
+    const ORDER_MTIME_ASC = 'mtime_asc';
+    
+    // Sort column and direction of each keyset ordering, ties broken by file ID
+    const ORDER_KEYS = [
+        self::ORDER_FILEID => [null, 'ASC'],
+        self::ORDER_SIZE_ASC => ['size', 'ASC'],
+        self::ORDER_SIZE_DESC => ['size', 'DESC'],
+        self::ORDER_MTIME_ASC => ['mtime', 'ASC'],
+    ];
+    
+    // Upper size limit (exclusive) of each plan histogram bucket
+    const PLAN_SIZE_BUCKETS = [
+        '< 4 KB' => 4096,
+        '4-64 KB' => 65536,
+        '64 KB-1 MB' => 1048576,
+        '1-16 MB' => 16777216,
+        '16-128 MB' => 134217728,
+        '128 MB-1 GB' => 1073741824,
+        '>= 1 GB' => null,
+    ];
+    const PLAN_MAX_SKIPPED = 1000;
+    
+    // Phase timed before the checkpoint phases start
+    const PHASE_BACKUP = 'backup';
+    
+    // Local storage to S3, back from S3 to local storage, or from one S3 bucket to another
+    const DIRECTION_TO_S3 = 'to_s3';
+    const DIRECTION_TO_LOCAL = 'to_local';
+    const DIRECTION_S3_TO_S3 = 's3_to_s3';
+    const DIRECTIONS = [self::DIRECTION_TO_S3, self::DIRECTION_TO_LOCAL, self::DIRECTION_S3_TO_S3];
+    
+    // Storage ID prefixes of home storages on local disk and on the object store
+    const LOCAL_HOME_PREFIX = 'home::';
+    const OBJECT_HOME_PREFIX = 'object::user:';
+    
+    // Storage ID prefix of the root storage on the object store, followed by the bucket
+    const OBJECT_STORE_PREFIX = 'object::store:amazon::';
+    
+    // User preference holding the bucket of a user's home storage on a multibucket object store
+    const BUCKET_PREFERENCE_APP = 'homeobjectstore';
+    const BUCKET_PREFERENCE_KEY = 'bucket';
+    
     private $db;
     private $s3;
+    private $targetS3 = null;
+    private $bucketCount = null;
+    private $userBuckets = null;
     private $logger;
     private $config;
     private $testMode;
@@ -16,6 +88,23 @@ class MigrationManager {
     private $filesMigrated = 0;
     private $filesFailed = 0;
     private $bytesTransferred = 0;
+    private $totalBytes = 0;
+    private $ledger = null;
+    private $ledgerDb = null;
+    private $uncommittedFileIds = [];
+    private $retry = null;
+    private $testUser = null;
+    private $users = null;
+    private $rules = null;
+    private $order = self::ORDER_FILEID;
+    private $direction = self::DIRECTION_TO_S3;
+    private $roundRobinShare = null;
+    private $phaseTimes = [];
+    private $userProgress = null;
+    private $uploadConcurrency = 1;
+    private $inFlight = 0;
+    private $workerStats = [];
+    private $targetBucketActive = null;
     
     /**
      * Initialize the migration manager
@@ -26,13 +115,57 @@ class MigrationManager {
     public function __construct($config, $logger) {
         $this->config = $config;
         $this->logger = $logger;
-        $this->testMode = $config['test_mode'];
+        $this->testMode = self::normalizeTestMode($config['test_mode']);
+        
+        // A user name as test mode restricts the run to that user's files
+        if (is_string($this->testMode)) {
+            $this->testUser = $this->testMode;
+            $this->users = [$this->testMode];
+        } else if (!empty($config['users'])) {
+            $this->users = array_values(array_map('strval', $config['users']));
+        }
         
         if (isset($config['batch_size'])) {
             $this->batchSize = $config['batch_size'];
         }
         
-        $this->logger->info("Initializing migration manager (Test mode: " . ($this->testMode ? 'Yes' : 'No') . ")");
+        if (isset($config['upload_concurrency'])) {
+            $this->uploadConcurrency = max(1, (int)$config['upload_concurrency']);
+        }
+        
+        if (!empty($config['migration_order'])) {
+            $this->setOrder($config['migration_order']);
+        }
+        
+        if (!empty($config['direction'])) {
+            if (!in_array($config['direction'], self::DIRECTIONS, true)) {
+                throw new Exception("Unknown migration direction: {$config['direction']}");
+            }
+            $this->direction = $config['direction'];
+        }
+        
+        if ($this->direction === self::DIRECTION_S3_TO_S3 && empty($config['s3_target_bucket'])) {
+            throw new Exception("Bucket-to-bucket migration needs a target S3 bucket");
+        }
+        
+        // Multibucket object stores spread home storages over numbered buckets
+        if (!empty($config['s3_multibucket'])) {
+            if ($this->direction === self::DIRECTION_S3_TO_S3) {
+                throw new Exception("Bucket-to-bucket migration does not support multibucket object stores");
+            }
+            $this->bucketCount = max(1, (int)($config['s3_multibucket_count'] ?? 64));
+        }
+        
+        // Retry runs only pick up failed files from the ledger, in file ID order
+        if (!empty($config['retry_fileids'])) {
+            $this->retry = ['fileids' => array_map('intval', $config['retry_fileids'])];
+            $this->order = self::ORDER_FILEID;
+        } else if (!empty($config['retry_failed'])) {
+            $this->retry = ['fileids' => null];
+            $this->order = self::ORDER_FILEID;
+        }
+        
+        $this->logger->info("Initializing migration manager (Test mode: " . ($this->testMode ? ($this->testUser ? "user {$this->testUser}" : $this->testMode) : 'No') . ", direction: {$this->direction})");
         
         // Initialize database connection
         try {
@@ -52,25 +185,203 @@ class MigrationManager {
             throw $e;
         }
         
-        // Initialize S3 client
+        $this->rules = new MigrationRules($config['rules'] ?? [], $this->db, $this->logger);
+        
+        // Initialize S3 clients, the target bucket only when one is configured
         try {
-            $this->s3 = new S3Manager([
-                'bucket' => $config['s3_bucket'],
-                'region' => $config['s3_region'],
-                'endpoint' => $config['s3_endpoint'],
-                'key' => $config['s3_key'],
-                'secret' => $config['s3_secret'],
-                'use_path_style' => $config['s3_use_path_style'] ?? false,
-                'use_multipart' => $config['s3_use_multipart'] ?? true,
-                'multipart_threshold' => $config['s3_multipart_threshold'] ?? 100,
-                'max_retries' => $config['s3_max_retries'] ?? 3,
-            ], $this->logger);
+            $this->s3 = $this->createS3Manager('s3_', $this->getRootBucket());
+            if (!empty($config['s3_target_bucket'])) {
+                $this->targetS3 = $this->createS3Manager('s3_target_', $config['s3_target_bucket']);
+            }
         } catch (Exception $e) {
             $this->logger->error("Failed to initialize S3 client: " . $e->getMessage());
             throw $e;
         }
     }
     
+    /**
+     * Create the S3 manager of a bucket from its settings
+     * 
+     * @param string $prefix Prefix of the bucket's settings, 's3_' or 's3_target_'
+     * @param string $bucket Bucket name
+     * @return S3Manager S3 manager of the bucket
+     */
+    private function createS3Manager($prefix, $bucket) {
+        return new S3Manager([
+            'bucket' => $bucket,
+            'region' => $this->config[$prefix . 'region'],
+            'endpoint' => $this->config[$prefix . 'endpoint'] ?: null,
+            'key' => $this->config[$prefix . 'key'],
+            'secret' => $this->config[$prefix . 'secret'],
+            'use_path_style' => $this->config[$prefix . 'use_path_style'] ?? false,
+            'use_multipart' => $this->config['s3_use_multipart'] ?? true,
+            'multipart_threshold' => $this->config['s3_multipart_threshold'] ?? 100,
+            'max_retries' => $this->config['s3_max_retries'] ?? 3,
+            'verification_level' => $this->config['verification_level'] ?? S3Manager::VERIFY_SIZE,
+        ], $this->logger);
+    }
+    
+    /**
+     * Get the bucket of the root storage
+     * 
+     * Nextcloud keeps the root storage of a multibucket object store in the
+     * first bucket.
+     * 
+     * @return string Bucket name
+     */
+    private function getRootBucket() {
+        return $this->bucketCount ? $this->config['s3_bucket'] . '0' : $this->config['s3_bucket'];
+    }
+    
+    /**
+     * Get every bucket files are stored in
+     * 
+     * @return array Bucket names
+     */
+    private function getBuckets() {
+        if (!$this->bucketCount) {
+            return [$this->config['s3_bucket']];
+        }
+        
+        return array_map(function ($number) {
+            return $this->config['s3_bucket'] . $number;
+        }, range(0, $this->bucketCount - 1));
+    }
+    
+    /**
+     * Get the bucket of a user's home storage on a multibucket object store
+     * 
+     * A bucket already in the user's preferences wins, otherwise it is picked
+     * from the user ID the way Nextcloud's bucket mapper does.
+     * 
+     * @param string $user User ID
+     * @return string Bucket name
+     */
+    private function getUserBucket($user) {
+        if ($this->userBuckets === null) {
+            $rows = $this->db->fetchAll(
+                'SELECT userid, configvalue FROM oc_preferences WHERE appid = :appId AND configkey = :configKey',
+                [
+                    'appId' => self::BUCKET_PREFERENCE_APP,
+                    'configKey' => self::BUCKET_PREFERENCE_KEY,
+                ]
+            );
+            $this->userBuckets = array_column($rows, 'configvalue', 'userid');
+        }
+        
+        if (isset($this->userBuckets[$user])) {
+            return $this->userBuckets[$user];
+        }
+        
+        return $this->config['s3_bucket'] . (hexdec(substr(md5($user), 0, 4)) % $this->bucketCount);
+    }
+    
+    /**
+     * Get the bucket a file's object is stored in
+     * 
+     * @param array $file File data including the storage_id string
+     * @return string|null Bucket name, or null without a multibucket object store
+     */
+    private function getFileBucket($file) {
+        if (!$this->bucketCount) {
+            return null;
+        }
+        
+        foreach ([self::LOCAL_HOME_PREFIX, self::OBJECT_HOME_PREFIX] as $prefix) {
+            if (substr($file['storage_id'], 0, strlen($prefix)) === $prefix) {
+                return $this->getUserBucket(substr($file['storage_id'], strlen($prefix)));
+            }
+        }
+        
+        return $this->getRootBucket();
+    }
+    
+    /**
+     * Record the bucket of every migrated user in their preferences
+     * 
+     * Nextcloud looks the bucket up there before mapping a user to one, so
+     * the users keep the bucket their files were uploaded to.
+     */
+    private function assignUserBuckets() {
+        $assigned = 0;
+        foreach ($this->listUsers() as $user) {
+            if ($this->users !== null && !in_array($user['user'], $this->users, true)) {
+                continue;
+            }
+            
+            $assigned += $this->db->execute(
+                'INSERT INTO oc_preferences (userid, appid, configkey, configvalue) 
+                 VALUES (:userId, :appId, :configKey, :bucket) 
+                 ON CONFLICT DO NOTHING',
+                [
+                    'userId' => $user['user'],
+                    'appId' => self::BUCKET_PREFERENCE_APP,
+                    'configKey' => self::BUCKET_PREFERENCE_KEY,
+                    'bucket' => $user['bucket'],
+                ]
+            )->rowCount();
+        }
+        
+        $this->logger->info("Assigned buckets to $assigned users");
+    }
+    
+    /**
+     * Normalize a test mode setting
+     * 
+     * Config files and the command line give true, numeric strings or a
+     * user name; the result is false, 1 (upload only), 2 (dry run) or the
+     * user name.
+     * 
+     * @param mixed $testMode Test mode as configured
+     * @return int|string|false Normalized test mode
+     */
+    public static function normalizeTestMode($testMode) {
+        if ($testMode === true || $testMode === 1 || $testMode === '1') {
+            return 1;
+        } else if ($testMode === 2 || $testMode === '2') {
+            return 2;
+        } else if (is_string($testMode) && $testMode !== '' && $testMode !== '0') {
+            return $testMode;
+        }
+        
+        return false;
+    }
+    
+    /**
+     * List the users with a home storage to migrate from, with the files to migrate for each
+     * 
+     * Home storages are local ones, or object store ones for a reverse migration.
+     * 
+     * @return array Users with their storage ID, file count, bytes and, on a multibucket object store, bucket
+     */
+    public function listUsers() {
+        $rows = $this->db->fetchAll(
+            "SELECT SUBSTRING(st.id FROM :prefixLength) AS user, st.numeric_id AS storage, 
+                    COUNT(fc.fileid) AS files, COALESCE(SUM(fc.size), 0) AS bytes 
+             FROM oc_storages st 
+             LEFT JOIN oc_filecache fc ON fc.storage = st.numeric_id AND fc.path <> '' 
+                AND fc.mimetype <> (SELECT id FROM oc_mimetypes WHERE mimetype = :dirMimetype) 
+             WHERE st.id LIKE :homePrefix 
+             GROUP BY st.id, st.numeric_id 
+             ORDER BY user ASC",
+            [
+                'prefixLength' => strlen($this->getSourceHomePrefix()) + 1,
+                'dirMimetype' => 'httpd/unix-directory',
+                'homePrefix' => $this->getSourceHomePrefix() . '%',
+            ]
+        );
+        
+        return array_map(function ($row) {
+            return [
+                'user' => $row['user'],
+                'storage' => (int)$row['storage'],
+                'files' => (int)$row['files'],
+                'bytes' => (int)$row['bytes'],
+                'bucket' => $this->bucketCount ? $this->getUserBucket($row['user']) : null,
+            ];
+        }, $rows);
+    }
+    
     /**
      * Run pre-migration checks
      * 
@@ -99,21 +410,27 @@ class MigrationManager {
             ];
         }
         
-        // Check S3 connection
+        // Check S3 connection, to every bucket of a multibucket object store
         try {
-            $s3Connected = $this->s3->testConnection();
-            if ($s3Connected) {
+            $buckets = $this->getBuckets();
+            $failed = array_values(array_filter($buckets, function ($bucket) {
+                return !$this->s3->forBucket($bucket)->testConnection();
+            }));
+            if (!$failed) {
                 $results['checks']['s3'] = [
                     'name' => 'S3 Connection',
                     'status' => 'success',
-                    'message' => 'Successfully connected to S3 bucket: ' . $this->config['s3_bucket'],
+                    'message' => count($buckets) > 1
+                        ? 'Successfully connected to all ' . count($buckets) . ' S3 buckets: ' . $buckets[0] . ' to ' . end($buckets)
+                        : 'Successfully connected to S3 bucket: ' . $buckets[0],
                 ];
             } else {
                 $results['success'] = false;
                 $results['checks']['s3'] = [
                     'name' => 'S3 Connection',
                     'status' => 'error',
-                    'message' => 'Failed to connect to S3 bucket: ' . $this->config['s3_bucket'],
+                    'message' => (count($buckets) > 1 ? 'Failed to connect to ' . count($failed) . ' of ' . count($buckets) . ' S3 buckets: ' : 'Failed to connect to S3 bucket: ')
+                        . implode(', ', $failed),
                 ];
             }
         } catch (Exception $e) {
@@ -125,6 +442,50 @@ class MigrationManager {
             ];
         }
         
+        // Check the target bucket of bucket-to-bucket migrations
+        if ($this->targetS3) {
+            $targetBucket = $this->config['s3_target_bucket'];
+            try {
+                if ($this->s3->sharesAccountWith($this->targetS3) && $this->getRootBucket() === $targetBucket) {
+                    $results['success'] = false;
+                    $results['checks']['s3_target'] = [
+                        'name' => 'S3 Target Connection',
+                        'status' => 'error',
+                        'message' => 'Target bucket is the same as the source bucket: ' . $targetBucket,
+                    ];
+                } else if ($this->targetS3->testConnection()) {
+                    $results['checks']['s3_target'] = [
+                        'name' => 'S3 Target Connection',
+                        'status' => 'success',
+                        'message' => 'Successfully connected to target S3 bucket: ' . $targetBucket,
+                    ];
+                    
+                    // Copies overwrite objects already stored under the same key
+                    if ($this->targetS3->listObjects('urn:oid:', 1)) {
+                        $results['checks']['s3_target_objects'] = [
+                            'name' => 'S3 Target Objects',
+                            'status' => 'warning',
+                            'message' => 'Target bucket already contains file objects, copies will overwrite objects with the same key',
+                        ];
+                    }
+                } else {
+                    $results['success'] = false;
+                    $results['checks']['s3_target'] = [
+                        'name' => 'S3 Target Connection',
+                        'status' => 'error',
+                        'message' => 'Failed to connect to target S3 bucket: ' . $targetBucket,
+                    ];
+                }
+            } catch (Exception $e) {
+                $results['success'] = false;
+                $results['checks']['s3_target'] = [
+                    'name' => 'S3 Target Connection',
+                    'status' => 'error',
+                    'message' => 'Target S3 connection error: ' . $e->getMessage(),
+                ];
+            }
+        }
+        
         // Check local storage ID
         try {
             $localStorageId = $this->getLocalStorageId();
@@ -248,6 +609,21 @@ class MigrationManager {
      * @return int Local storage ID
      */
     public function getLocalStorageId() {
+        $localStorageId = $this->findLocalStorageId();
+        
+        if (!$localStorageId) {
+            throw new Exception("Local storage not found for path: " . $this->config['data_directory']);
+        }
+        
+        return $localStorageId;
+    }
+    
+    /**
+     * Look up the local storage ID
+     * 
+     * @return int|null Local storage ID or null if not found
+     */
+    private function findLocalStorageId() {
         $this->logger->debug("Looking up local storage ID");
         
         $row = $this->db->fetchOne(
@@ -255,11 +631,7 @@ class MigrationManager {
             ['path' => 'local::' . $this->config['data_directory'] . '/']
         );
         
-        if (!$row) {
-            throw new Exception("Local storage not found for path: " . $this->config['data_directory']);
-        }
-        
-        return (int)$row['numeric_id'];
+        return $row ? (int)$row['numeric_id'] : null;
     }
     
     /**
@@ -272,40 +644,311 @@ class MigrationManager {
         
         $row = $this->db->fetchOne(
             'SELECT numeric_id FROM oc_storages WHERE id LIKE :pattern',
-            ['pattern' => 'object::store:amazon::' . $this->config['s3_bucket']]
+            ['pattern' => self::OBJECT_STORE_PREFIX . $this->getRootBucket()]
         );
         
         return $row ? (int)$row['numeric_id'] : null;
     }
     
     /**
-     * Count total files to migrate
+     * Count total files and bytes to migrate
      * 
-     * @param int $storageId Storage ID to count files for
-     * @return int Number of files
+     * @param int $storageId Local root storage ID, counted along with the home storages
+     * @return array Number of files ('files') and their total size ('bytes')
      */
     public function countFilesToMigrate($storageId) {
-        $this->logger->debug("Counting files to migrate from storage ID: $storageId");
+        if ($this->retry) {
+            $this->logger->debug("Counting failed files to retry");
+            list($retrySql, $retryParams) = $this->getRetryFilter();
+            
+            $row = $this->db->fetchOne(
+                'SELECT COUNT(*) AS files, COALESCE(SUM(fc.size), 0) AS bytes FROM ' . MigrationLedger::TABLE . ' l 
+                 JOIN oc_filecache fc ON fc.fileid = l.fileid 
+                 WHERE ' . $retrySql,
+                $retryParams
+            );
+        } else {
+            $this->logger->debug("Counting files to migrate from storage ID $storageId and home storages");
+            list($sourceSql, $sourceParams) = $this->getSourceFilter($storageId);
+            list($rulesSql, $rulesParams) = $this->rules->getFilter();
+            
+            $row = $this->db->fetchOne(
+                'SELECT COUNT(*) AS files, COALESCE(SUM(fc.size), 0) AS bytes FROM oc_filecache fc 
+                 JOIN oc_mimetypes mt ON fc.mimetype = mt.id 
+                 JOIN oc_storages st ON st.numeric_id = fc.storage 
+                 WHERE ' . $sourceSql . $rulesSql . ' AND mt.mimetype <> :dirMimetype AND fc.path <> \'\'',
+                array_merge($sourceParams, $rulesParams, [
+                    'dirMimetype' => 'httpd/unix-directory'
+                ])
+            );
+        }
+        
+        return [
+            'files' => (int)$row['files'],
+            'bytes' => (int)$row['bytes'],
+        ];
+    }
+    
+    /**
+     * Count the files to migrate for each selected user
+     * 
+     * @param int $storageId Local root storage ID
+     * @return array Progress counters keyed by user ID
+     */
+    private function countFilesPerUser($storageId) {
+        list($sourceSql, $sourceParams) = $this->getSourceFilter($storageId);
+        list($rulesSql, $rulesParams) = $this->rules->getFilter();
+        
+        $rows = $this->db->fetchAll(
+            'SELECT st.id AS storage_id, COUNT(fc.fileid) AS files, COALESCE(SUM(fc.size), 0) AS bytes 
+             FROM oc_filecache fc 
+             JOIN oc_mimetypes mt ON fc.mimetype = mt.id 
+             JOIN oc_storages st ON st.numeric_id = fc.storage 
+             WHERE ' . $sourceSql . $rulesSql . ' AND mt.mimetype <> :dirMimetype AND fc.path <> \'\' 
+             GROUP BY st.id',
+            array_merge($sourceParams, $rulesParams, [
+                'dirMimetype' => 'httpd/unix-directory'
+            ])
+        );
+        
+        $totals = [];
+        foreach ($rows as $row) {
+            $totals[substr($row['storage_id'], strlen($this->getSourceHomePrefix()))] = $row;
+        }
+        
+        $progress = [];
+        foreach ($this->users as $user) {
+            $progress[$user] = [
+                'user' => $user,
+                'total' => isset($totals[$user]) ? (int)$totals[$user]['files'] : 0,
+                'total_bytes' => isset($totals[$user]) ? (int)$totals[$user]['bytes'] : 0,
+                'migrated' => 0,
+                'failed' => 0,
+                'bytes' => 0,
+            ];
+        }
+        
+        return $progress;
+    }
+    
+    /**
+     * Count a processed file towards its user's progress
+     * 
+     * @param array $file File data
+     * @param bool $success Whether the file was migrated
+     */
+    private function updateUserProgress($file, $success) {
+        if ($this->userProgress === null) {
+            return;
+        }
         
-        return $this->db->fetchColumn(
+        $user = MigrationLedger::resolveOwner($file['storage_id'], $file['path']);
+        if (!isset($this->userProgress[$user])) {
+            return;
+        }
+        
+        if ($success) {
+            $this->userProgress[$user]['migrated']++;
+            $this->userProgress[$user]['bytes'] += $file['size'];
+        } else {
+            $this->userProgress[$user]['failed']++;
+        }
+    }
+    
+    /**
+     * Build a migration plan without changing anything
+     * 
+     * Walks the files a migration would pick up and totals them per user,
+     * storage and mimetype, with a size histogram and the files that would
+     * be skipped, and what each migration rule matches. The duration
+     * estimate uses the given throughput.
+     * 
+     * @param array|null $throughput 'bytes_per_second', optional 'files_per_second' and 'source' of the figures
+     * @param bool $checkDisk Whether to check every file exists on disk
+     * @return array Migration plan
+     */
+    public function planMigration($throughput = null, $checkDisk = true) {
+        $this->logger->info("Building migration plan" . ($checkDisk ? '' : ' (without disk check)'));
+        
+        $localStorageId = $this->getSourceRootStorageId();
+        $plan = [
+            'generated_at' => date('c'),
+            'totals' => ['files' => 0, 'bytes' => 0],
+            'by_user' => [],
+            'by_storage' => [],
+            'by_mimetype' => [],
+            'histogram' => [],
+            'skipped' => ['counts' => [], 'files' => [], 'truncated' => false],
+            'rules' => [],
+            'estimate' => null,
+        ];
+        
+        foreach (self::PLAN_SIZE_BUCKETS as $label => $limit) {
+            $plan['histogram'][$label] = ['label' => $label, 'files' => 0, 'bytes' => 0];
+        }
+        
+        // Directories have no object of their own
+        list($sourceSql, $sourceParams) = $this->getSourceFilter($localStorageId);
+        $directories = (int)$this->db->fetchColumn(
             'SELECT COUNT(*) FROM oc_filecache fc 
              JOIN oc_mimetypes mt ON fc.mimetype = mt.id 
-             WHERE fc.storage = :storageId AND mt.mimetype <> :dirMimetype AND path <> \'\'',
-            [
-                'storageId' => $storageId,
+             JOIN oc_storages st ON st.numeric_id = fc.storage 
+             WHERE ' . $sourceSql . ' AND mt.mimetype = :dirMimetype AND fc.path <> \'\'',
+            array_merge($sourceParams, [
                 'dirMimetype' => 'httpd/unix-directory'
-            ]
+            ])
         );
+        if ($directories > 0) {
+            $plan['skipped']['counts']['directory'] = ['files' => $directories, 'bytes' => 0];
+        }
+        
+        // What each rule matches on its own, ignoring the other rules
+        foreach ($this->rules->getRuleFilters() as $rule) {
+            $row = $this->db->fetchOne(
+                'SELECT COUNT(*) AS files, COALESCE(SUM(fc.size), 0) AS bytes FROM oc_filecache fc 
+                 JOIN oc_mimetypes mt ON fc.mimetype = mt.id 
+                 JOIN oc_storages st ON st.numeric_id = fc.storage 
+                 WHERE ' . $sourceSql . ' AND ' . $rule['match_sql'] . ' AND mt.mimetype <> :dirMimetype AND fc.path <> \'\'',
+                array_merge($sourceParams, $rule['params'], [
+                    'dirMimetype' => 'httpd/unix-directory'
+                ])
+            );
+            $plan['rules'][] = [
+                'type' => $rule['type'],
+                'value' => $rule['value'],
+                'files' => (int)$row['files'],
+                'bytes' => (int)$row['bytes'],
+                'resolved' => $rule['resolved'] ?? true,
+            ];
+        }
+        
+        $cursor = null;
+        while ($files = $this->getFilesBatch($localStorageId, $cursor)) {
+            foreach ($files as $file) {
+                $cursor = $this->advanceCursor($cursor, $file);
+                $size = (int)$file['size'];
+                
+                // Only a migration to S3 reads its files from disk
+                if ($checkDisk && $this->direction === self::DIRECTION_TO_S3) {
+                    $localPath = $this->getLocalPath($file);
+                    $reason = !file_exists($localPath) ? 'missing' : (!is_readable($localPath) ? 'unreadable' : null);
+                    if ($reason) {
+                        $this->addPlanSkipped($plan['skipped'], $file, $reason);
+                        continue;
+                    }
+                }
+                
+                $owner = MigrationLedger::resolveOwner($file['storage_id'], $file['path']);
+                $this->addPlanTotal($plan['by_user'], $owner ?? '(system)', $size);
+                $this->addPlanTotal($plan['by_storage'], $file['storage_id'], $size);
+                $this->addPlanTotal($plan['by_mimetype'], $file['mimetype'], $size);
+                $this->addPlanTotal($plan['histogram'], $this->getPlanSizeBucket($size), $size);
+                $plan['totals']['files']++;
+                $plan['totals']['bytes'] += $size;
+            }
+        }
+        
+        // Largest groups first
+        foreach (['by_user', 'by_storage', 'by_mimetype'] as $group) {
+            uasort($plan[$group], function ($a, $b) {
+                return $b['bytes'] <=> $a['bytes'];
+            });
+            $plan[$group] = array_values($plan[$group]);
+        }
+        $plan['histogram'] = array_values($plan['histogram']);
+        
+        if ($throughput && !empty($throughput['bytes_per_second'])) {
+            $seconds = $plan['totals']['bytes'] / $throughput['bytes_per_second'];
+            
+            // Small files are bound by requests per second rather than bandwidth
+            if (!empty($throughput['files_per_second'])) {
+                $seconds = max($seconds, $plan['totals']['files'] / $throughput['files_per_second']);
+            }
+            
+            $plan['estimate'] = [
+                'source' => $throughput['source'] ?? 'configured',
+                'bytes_per_second' => $throughput['bytes_per_second'],
+                'files_per_second' => $throughput['files_per_second'] ?? null,
+                'job_id' => $throughput['job_id'] ?? null,
+                'seconds' => (int)ceil($seconds),
+            ];
+        }
+        
+        $this->logger->info("Migration plan: {$plan['totals']['files']} files ({$plan['totals']['bytes']} bytes)");
+        
+        return $plan;
+    }
+    
+    /**
+     * Add a file to a plan group
+     * 
+     * @param array $group Plan group keyed by label
+     * @param string $label Group label
+     * @param int $size File size
+     */
+    private function addPlanTotal(&$group, $label, $size) {
+        if (!isset($group[$label])) {
+            $group[$label] = ['label' => $label, 'files' => 0, 'bytes' => 0];
+        }
+        $group[$label]['files']++;
+        $group[$label]['bytes'] += $size;
+    }
+    
+    /**
+     * Add a skipped file to the plan, listing at most PLAN_MAX_SKIPPED files
+     * 
+     * @param array $skipped Skipped section of the plan
+     * @param array $file File data
+     * @param string $reason Why the file is skipped
+     */
+    private function addPlanSkipped(&$skipped, $file, $reason) {
+        if (!isset($skipped['counts'][$reason])) {
+            $skipped['counts'][$reason] = ['files' => 0, 'bytes' => 0];
+        }
+        $skipped['counts'][$reason]['files']++;
+        $skipped['counts'][$reason]['bytes'] += (int)$file['size'];
+        
+        if (count($skipped['files']) < self::PLAN_MAX_SKIPPED) {
+            $skipped['files'][] = [
+                'fileid' => (int)$file['fileid'],
+                'path' => $file['path'],
+                'size' => (int)$file['size'],
+                'reason' => $reason,
+            ];
+        } else {
+            $skipped['truncated'] = true;
+        }
+    }
+    
+    /**
+     * Get the histogram bucket a file size falls in
+     * 
+     * @param int $size File size
+     * @return string Bucket label
+     */
+    private function getPlanSizeBucket($size) {
+        foreach (self::PLAN_SIZE_BUCKETS as $label => $limit) {
+            if ($limit === null || $size < $limit) {
+                return $label;
+            }
+        }
     }
     
     /**
      * Start the migration process
      * 
+     * When a checkpoint with saved state is given the migration resumes from
+     * it: the backup is not taken again and files up to the last committed
+     * file ID are skipped.
+     * 
      * @param callable $progressCallback Function to call with progress updates
+     * @param callable $controlCallback Function returning a pending CONTROL_* command, checked as each file completes
+     * @param Checkpoint $checkpoint Checkpoint to resume from and save to after every committed batch
      * @return array Migration results
      */
-    public function startMigration($progressCallback = null) {
-        $this->logger->info("Starting migration process");
+    public function startMigration($progressCallback = null, $controlCallback = null, $checkpoint = null) {
+        $resumeState = $checkpoint ? $checkpoint->load() : null;
+        $this->logger->info($resumeState ? "Resuming migration process from checkpoint" : "Starting migration process");
         
         try {
             // Enable maintenance mode if needed
@@ -313,78 +956,157 @@ class MigrationManager {
                 $this->enableMaintenanceMode(true);
             }
             
-            // Create database backup
-            $backupFile = $this->createDatabaseBackup();
+            // Track every file in the ledger unless this is a dry run
+            if ($this->testMode !== 2) {
+                $this->openLedger();
+            }
             
-            // Start transaction
-            $this->db->beginTransaction();
+            // Get the root storage files are migrated from
+            $localStorageId = $this->getSourceRootStorageId();
+            $this->logger->info(($this->direction === self::DIRECTION_TO_S3 ? 'Local' : 'Object') . " storage ID: $localStorageId");
             
-            // Get local storage ID
-            $localStorageId = $this->getLocalStorageId();
-            $this->logger->info("Local storage ID: $localStorageId");
+            if ($resumeState) {
+                // Carry on with the backup and counters of the interrupted run
+                $backupFile = $resumeState['backup_file'];
+                $totalFiles = $resumeState['total'];
+                $phase = $resumeState['phase'];
+                $this->phaseTimes = $resumeState['phases'] ?? [];
+                $this->startPhase($phase);
+                
+                // The cursor only makes sense in the order it was taken in;
+                // checkpoints from before ordering strategies hold a file ID
+                $this->setOrder($resumeState['order'] ?? self::ORDER_FILEID);
+                $cursor = $resumeState['cursor'] ?? ($resumeState['last_fileid'] ? ['fileid' => $resumeState['last_fileid']] : null);
+                $this->filesMigrated = $resumeState['migrated'];
+                $this->filesFailed = $resumeState['failed'];
+                $this->bytesTransferred = $resumeState['bytes'];
+                $this->totalBytes = $resumeState['total_bytes'] ?? 0;
+                $this->userProgress = $resumeState['users'] ?? $this->userProgress;
+                $this->logger->info("Resuming in phase '$phase' in {$this->order} order after file ID " . ($cursor['fileid'] ?? 0) . " ({$this->filesMigrated} migrated, {$this->filesFailed} failed)");
+            } else {
+                // Create database backup (retries only touch a handful of rows)
+                $this->startPhase(self::PHASE_BACKUP);
+                $backupFile = $this->retry ? null : $this->createDatabaseBackup();
+                
+                // Count total files to migrate
+                $totals = $this->countFilesToMigrate($localStorageId);
+                $totalFiles = $totals['files'];
+                $this->totalBytes = $totals['bytes'];
+                $this->logger->info("Total files to migrate: $totalFiles ({$this->totalBytes} bytes)");
+                $this->userProgress = $this->users === null ? null : $this->countFilesPerUser($localStorageId);
+                
+                // Initialize counters
+                $cursor = null;
+                $phase = Checkpoint::PHASE_FILES;
+                $this->startPhase($phase);
+                $this->filesMigrated = 0;
+                $this->filesFailed = 0;
+                $this->bytesTransferred = 0;
+                
+                $this->saveCheckpoint($checkpoint, $phase, $cursor, $totalFiles, $backupFile);
+            }
             
-            // Count total files to migrate
-            $totalFiles = $this->countFilesToMigrate($localStorageId);
-            $this->logger->info("Total files to migrate: $totalFiles");
+            // Users keep the bucket their files are uploaded to
+            if ($this->bucketCount && $this->direction === self::DIRECTION_TO_S3 && !$this->testMode) {
+                $this->assignUserBuckets();
+            }
             
-            // Initialize counters
-            $this->filesMigrated = 0;
-            $this->filesFailed = 0;
-            $this->bytesTransferred = 0;
+            // Start transaction
+            $this->db->beginTransaction();
             
             // Process files in batches
-            $lastFileId = 0;
-            while ($this->filesMigrated + $this->filesFailed < $totalFiles) {
-                $files = $this->getFilesBatch($localStorageId, $lastFileId);
+            $cancelled = false;
+            $uncommitted = 0;
+            while ($phase === Checkpoint::PHASE_FILES && !$cancelled && $this->filesMigrated + $this->filesFailed < $totalFiles) {
+                $files = $this->getFilesBatch($localStorageId, $cursor);
                 
                 if (empty($files)) {
                     break;
                 }
                 
-                foreach ($files as $file) {
-                    try {
-                        $result = $this->migrateFile($file);
+                // Upload a few rounds of the worker pool at a time so commits
+                // happen between chunks. A pause or cancel request stops the
+                // pool from starting new files, and the rest of the chunk is
+                // picked up again once it is handled.
+                $offset = 0;
+                while ($offset < count($files)) {
+                    // Honour pause and cancel requests before the next file
+                    if ($controlCallback && $this->checkControl($controlCallback, $progressCallback, $totalFiles, $files[$offset]['path'], $checkpoint, $cursor, $backupFile) === self::CONTROL_CANCEL) {
+                        $cancelled = true;
+                        break 2;
+                    }
+                    
+                    $chunk = array_slice($files, $offset, $this->uploadConcurrency * 4);
+                    $results = $this->migrateFiles($chunk, $progressCallback, $totalFiles, $controlCallback);
+                    
+                    // Count and commit in queue order, whatever order the uploads finished in
+                    foreach ($chunk as $file) {
+                        // Not started before a pause or cancel request
+                        if (!isset($results[$file['fileid']])) {
+                            break;
+                        }
+                        $offset++;
                         
-                        if ($result['success']) {
+                        $success = $results[$file['fileid']]['success'];
+                        if ($success) {
                             $this->filesMigrated++;
                             $this->bytesTransferred += $file['size'];
                         } else {
                             $this->filesFailed++;
                         }
+                        $this->updateUserProgress($file, $success);
                         
-                        $lastFileId = $file['fileid'];
-                        
-                        // Report progress
-                        if ($progressCallback) {
-                            $progress = [
-                                'total' => $totalFiles,
-                                'migrated' => $this->filesMigrated,
-                                'failed' => $this->filesFailed,
-                                'bytes' => $this->bytesTransferred,
-                                'current_file' => $file['path'],
-                            ];
-                            $progressCallback($progress);
-                        }
-                        
-                        // Commit every 100 files to avoid large transactions
-                        if (($this->filesMigrated + $this->filesFailed) % 100 == 0) {
-                            $this->db->commit();
-                            $this->db->beginTransaction();
-                            $this->logger->debug("Committed batch, starting new transaction");
-                        }
-                    } catch (Exception $e) {
-                        $this->logger->error("Error migrating file ID {$file['fileid']}: " . $e->getMessage());
-                        $this->filesFailed++;
+                        $cursor = $this->advanceCursor($cursor, $file);
+                        $uncommitted++;
+                    }
+                    
+                    // Commit about every 100 files to avoid large transactions,
+                    // between chunks so the checkpoint covers every update the
+                    // commit includes
+                    if ($uncommitted >= 100) {
+                        $this->commitTransaction();
+                        $this->saveCheckpoint($checkpoint, $phase, $cursor, $totalFiles, $backupFile);
+                        $this->db->beginTransaction();
+                        $uncommitted = 0;
+                        $this->logger->debug("Committed batch, starting new transaction");
                     }
+                    
+                    // Report progress
+                    $this->reportProgress($progressCallback, $totalFiles, $files[$offset - 1]['path'] ?? '', self::STATUS_RUNNING);
                 }
             }
             
             // Commit final transaction
-            $this->db->commit();
+            $this->commitTransaction();
             
-            // Update storage providers
-            if (!$this->testMode) {
-                $this->updateStorageProviders();
+            if ($cancelled) {
+                $this->finishPhase();
+                $this->saveCheckpoint($checkpoint, $phase, $cursor, $totalFiles, $backupFile);
+                $this->logger->warn("Migration cancelled after {$this->filesMigrated} files, storage providers left unchanged");
+                $this->reportProgress($progressCallback, $totalFiles, '', self::STATUS_CANCELLED);
+            } else {
+                if ($phase === Checkpoint::PHASE_FILES) {
+                    $phase = Checkpoint::PHASE_STORAGE_UPDATE;
+                    $this->startPhase($phase);
+                    $this->saveCheckpoint($checkpoint, $phase, $cursor, $totalFiles, $backupFile);
+                }
+                
+                // Update storage providers (a retry leaves them as the original run did,
+                // and files left out of a partial run still need their source storage)
+                if ($phase === Checkpoint::PHASE_STORAGE_UPDATE && !$this->testMode && !$this->retry) {
+                    if ($this->users !== null) {
+                        $this->switchUserStorages();
+                    } else if (!$this->rules->isEmpty()) {
+                        $this->logger->info("Run limited by migration rules: storage providers left unchanged until the cutover is finished");
+                    } else {
+                        $this->switchStorageProviders();
+                    }
+                }
+                
+                $phase = Checkpoint::PHASE_COMPLETE;
+                $this->finishPhase();
+                $this->logger->setContext(['phase' => $phase]);
+                $this->saveCheckpoint($checkpoint, $phase, $cursor, $totalFiles, $backupFile);
             }
             
             // Disable maintenance mode if needed
@@ -392,79 +1114,774 @@ class MigrationManager {
                 $this->enableMaintenanceMode(false);
             }
             
-            $this->logger->info("Migration completed: {$this->filesMigrated} files migrated, {$this->filesFailed} failed");
+            if (!$cancelled) {
+                $this->logger->info("Migration completed: {$this->filesMigrated} files migrated, {$this->filesFailed} failed");
+            }
             
             return [
                 'success' => true,
+                'status' => $cancelled ? self::STATUS_CANCELLED : self::STATUS_COMPLETE,
                 'files_migrated' => $this->filesMigrated,
                 'files_failed' => $this->filesFailed,
                 'bytes_transferred' => $this->bytesTransferred,
                 'backup_file' => $backupFile,
+                'phases' => $this->phaseTimes,
+                'failures' => $this->ledger ? $this->ledger->getFailureSummary($this->config['job_id'] ?? null) : null,
             ];
-        } catch (Exception $e) {
-            // Rollback transaction
+        } catch (Throwable $e) {
+            // Rollback transaction, the ledger keeps these files short of db_updated
             $this->db->rollback();
+            $this->uncommittedFileIds = [];
             
-            // Disable maintenance mode
+            // Disable maintenance mode, without hiding the error that stopped the run
             if (!$this->testMode && $this->config['enable_maintenance']) {
-                $this->enableMaintenanceMode(false);
+                try {
+                    $this->enableMaintenanceMode(false);
+                } catch (Throwable $maintenanceError) {
+                    $this->logger->error("Failed to disable maintenance mode: " . $maintenanceError->getMessage());
+                }
             }
             
             $this->logger->error("Migration failed: " . $e->getMessage());
+            $this->finishPhase();
             
             return [
                 'success' => false,
                 'error' => $e->getMessage(),
                 'files_migrated' => $this->filesMigrated,
                 'files_failed' => $this->filesFailed,
+                'phases' => $this->phaseTimes,
+            ];
+        }
+    }
+    
+    /**
+     * Switch the storage providers for files transferred by earlier runs
+     * 
+     * Runs limited by migration rules transfer files without switching any
+     * storage. Once every file of the source storages has been transferred
+     * in this direction, by a run that was not a test and unchanged since,
+     * this finishes the cutover the way the end of a full run does, without
+     * transferring anything.
+     * 
+     * @return array Migration results, with the number of files 'switched'
+     */
+    public function finishCutover() {
+        $this->logger->info("Finishing the cutover of transferred files");
+        
+        $maintenanceEnabled = false;
+        try {
+            if ($this->testMode) {
+                throw new Exception('The cutover changes the database, turn test mode off to finish it');
+            }
+            if ($this->users !== null) {
+                throw new Exception('The cutover covers all users');
+            }
+            
+            $this->openLedger();
+            
+            // Every file needs a transfer in this direction of its current
+            // version by a run that was not a test; files stay in use until
+            // the cutover, so a size alone doesn't tell an edited file apart
+            list($sourceSql, $sourceParams) = $this->getSourceFilter($this->getSourceRootStorageId());
+            $row = $this->db->fetchOne(
+                'SELECT COUNT(*) AS files, COUNT(l.fileid) AS transferred FROM oc_filecache fc 
+                 JOIN oc_mimetypes mt ON fc.mimetype = mt.id 
+                 JOIN oc_storages st ON st.numeric_id = fc.storage 
+                 LEFT JOIN ' . MigrationLedger::TABLE . ' l ON l.fileid = fc.fileid 
+                    AND l.state IN (:uploadedState, :verifiedState, :committedState) 
+                    AND COALESCE(l.direction, :legacyDirection) = :direction 
+                    AND NOT l.test_run 
+                    AND l.size = fc.size 
+                    AND l.mtime = fc.mtime 
+                    AND l.etag = fc.etag 
+                 WHERE ' . $sourceSql . ' AND mt.mimetype <> :dirMimetype AND fc.path <> \'\'',
+                array_merge($sourceParams, [
+                    'uploadedState' => MigrationLedger::STATE_UPLOADED,
+                    'verifiedState' => MigrationLedger::STATE_VERIFIED,
+                    'committedState' => MigrationLedger::STATE_DB_UPDATED,
+                    'legacyDirection' => MigrationLedger::LEGACY_DIRECTION,
+                    'direction' => $this->direction,
+                    'dirMimetype' => 'httpd/unix-directory',
+                ])
+            );
+            $pending = (int)$row['files'] - (int)$row['transferred'];
+            if ($pending > 0) {
+                throw new Exception("$pending of {$row['files']} files have not been transferred yet or changed since, migrate them before finishing the cutover");
+            }
+            
+            $this->startPhase(self::PHASE_BACKUP);
+            $backupFile = $this->createDatabaseBackup();
+            
+            if ($this->config['enable_maintenance']) {
+                $this->enableMaintenanceMode(true);
+                $maintenanceEnabled = true;
+            }
+            
+            $this->startPhase(Checkpoint::PHASE_STORAGE_UPDATE);
+            $this->switchStorageProviders();
+            $this->finishPhase();
+            
+            if ($maintenanceEnabled) {
+                $this->enableMaintenanceMode(false);
+            }
+            
+            $this->logger->info("Cutover finished for {$row['files']} files");
+            
+            return [
+                'success' => true,
+                'status' => self::STATUS_COMPLETE,
+                'files_migrated' => 0,
+                'files_failed' => 0,
+                'bytes_transferred' => 0,
+                'switched' => (int)$row['files'],
+                'backup_file' => $backupFile,
+                'phases' => $this->phaseTimes,
             ];
+        } catch (Throwable $e) {
+            $this->db->rollback();
+            
+            // Disable maintenance mode, without hiding the error that stopped the cutover
+            if ($maintenanceEnabled) {
+                try {
+                    $this->enableMaintenanceMode(false);
+                } catch (Throwable $maintenanceError) {
+                    $this->logger->error("Failed to disable maintenance mode: " . $maintenanceError->getMessage());
+                }
+            }
+            
+            $this->logger->error("Cutover failed: " . $e->getMessage());
+            $this->finishPhase();
+            
+            return [
+                'success' => false,
+                'error' => $e->getMessage(),
+                'files_migrated' => 0,
+                'files_failed' => 0,
+                'phases' => $this->phaseTimes,
+            ];
+        }
+    }
+    
+    /**
+     * Apply a pending pause or cancel request
+     * 
+     * While paused the current transaction is committed, a checkpoint is
+     * saved so a worker that dies while paused resumes after the committed
+     * files, and the worker waits until it is resumed or cancelled.
+     * 
+     * @param callable $controlCallback Function returning a pending CONTROL_* command
+     * @param callable|null $progressCallback Function to call with progress updates
+     * @param int $totalFiles Total number of files to migrate
+     * @param string $currentFile Path of the next file to migrate
+     * @param Checkpoint|null $checkpoint Checkpoint of the run
+     * @param array|null $cursor Position after the last counted file
+     * @param string|null $backupFile Database backup of the run
+     * @return string|null The command to act on
+     */
+    private function checkControl($controlCallback, $progressCallback, $totalFiles, $currentFile, $checkpoint, $cursor, $backupFile) {
+        $command = $controlCallback();
+        
+        if ($command === self::CONTROL_CANCEL) {
+            $this->logger->info("Cancel requested");
+            return $command;
+        }
+        
+        if ($command !== self::CONTROL_PAUSE) {
+            return null;
+        }
+        
+        $this->commitTransaction();
+        $this->saveCheckpoint($checkpoint, Checkpoint::PHASE_FILES, $cursor, $totalFiles, $backupFile);
+        $this->logger->info("Migration paused after {$this->filesMigrated} files");
+        $this->reportProgress($progressCallback, $totalFiles, $currentFile, self::STATUS_PAUSED);
+        
+        while (($command = $controlCallback()) === self::CONTROL_PAUSE) {
+            sleep(1);
+        }
+        
+        if ($command === self::CONTROL_CANCEL) {
+            $this->logger->info("Cancel requested while paused");
+            return $command;
+        }
+        
+        $this->db->beginTransaction();
+        $this->logger->info("Migration resumed");
+        $this->reportProgress($progressCallback, $totalFiles, $currentFile, self::STATUS_RUNNING);
+        
+        return null;
+    }
+    
+    /**
+     * Commit the migration transaction and record the committed files in the ledger
+     */
+    private function commitTransaction() {
+        $this->db->commit();
+        
+        if ($this->ledger) {
+            $this->ledger->markCommitted($this->uncommittedFileIds);
+        }
+        $this->uncommittedFileIds = [];
+    }
+    
+    /**
+     * Open the migration ledger on its own connection
+     */
+    private function openLedger() {
+        if ($this->ledger) {
+            return;
+        }
+        
+        $this->ledgerDb = new DatabaseManager(
+            $this->config['db_host'],
+            $this->config['db_port'],
+            $this->config['db_name'],
+            $this->config['db_user'],
+            $this->config['db_password'],
+            $this->logger
+        );
+        $this->ledger = new MigrationLedger($this->ledgerDb, $this->logger);
+        $this->ledger->ensureTable();
+    }
+    
+    /**
+     * Move a file to a new ledger state, if the ledger is in use
+     * 
+     * @param int $fileId File ID
+     * @param string $state One of the MigrationLedger::STATE_* constants
+     * @param string|null $error Error message for failed files
+     * @param string|null $category One of the ERROR_* categories for failed files
+     */
+    private function updateLedger($fileId, $state, $error = null, $category = null) {
+        if ($this->ledger) {
+            $this->ledger->setState($fileId, $state, $error, $category);
+        }
+    }
+    
+    /**
+     * Save the position of the migration after a committed batch
+     * 
+     * @param Checkpoint|null $checkpoint Checkpoint to save to
+     * @param string $phase Current Checkpoint::PHASE_* phase
+     * @param array|null $cursor Queue position after the last file whose changes are committed
+     * @param int $totalFiles Total number of files to migrate
+     * @param string|null $backupFile Path to the database backup
+     */
+    private function saveCheckpoint($checkpoint, $phase, $cursor, $totalFiles, $backupFile) {
+        if (!$checkpoint) {
+            return;
+        }
+        
+        $lastFileId = $cursor['fileid'] ?? 0;
+        $checkpoint->save([
+            'phase' => $phase,
+            'last_fileid' => $lastFileId,
+            'order' => $this->order,
+            'cursor' => $cursor,
+            'total' => $totalFiles,
+            'total_bytes' => $this->totalBytes,
+            'migrated' => $this->filesMigrated,
+            'failed' => $this->filesFailed,
+            'bytes' => $this->bytesTransferred,
+            'backup_file' => $backupFile,
+            'users' => $this->userProgress,
+            'phases' => $this->phaseTimes,
+        ]);
+        $this->logger->debug("Checkpoint saved: phase $phase, last file ID $lastFileId");
+    }
+    
+    /**
+     * Record the start of a phase, ending the one before it
+     * 
+     * A phase resumed from a checkpoint keeps its original start time.
+     * 
+     * @param string $phase PHASE_BACKUP or a Checkpoint::PHASE_* phase
+     */
+    private function startPhase($phase) {
+        foreach ($this->phaseTimes as $name => $times) {
+            if ($name !== $phase && $times['finished_at'] === null) {
+                $this->phaseTimes[$name]['finished_at'] = date('c');
+            }
+        }
+        
+        if (!isset($this->phaseTimes[$phase])) {
+            $this->phaseTimes[$phase] = ['started_at' => date('c'), 'finished_at' => null];
         }
+        $this->logger->setContext(['phase' => $phase]);
+    }
+    
+    /**
+     * Record the end of the current phase
+     */
+    private function finishPhase() {
+        foreach ($this->phaseTimes as $name => $times) {
+            if ($times['finished_at'] === null) {
+                $this->phaseTimes[$name]['finished_at'] = date('c');
+            }
+        }
+    }
+    
+    /**
+     * Send the current counters to the progress callback
+     * 
+     * @param callable|null $progressCallback Function to call with progress updates
+     * @param int $totalFiles Total number of files to migrate
+     * @param string $currentFile Path of the file being processed
+     * @param string $status Migration status
+     */
+    private function reportProgress($progressCallback, $totalFiles, $currentFile, $status) {
+        if (!$progressCallback) {
+            return;
+        }
+        
+        $workers = [];
+        foreach ($this->workerStats as $stats) {
+            $stats['bytes_per_second'] = $stats['seconds'] > 0 ? (int)($stats['bytes'] / $stats['seconds']) : 0;
+            $workers[] = $stats;
+        }
+        
+        $progressCallback([
+            'total' => $totalFiles,
+            'migrated' => $this->filesMigrated,
+            'failed' => $this->filesFailed,
+            'bytes' => $this->bytesTransferred,
+            'total_bytes' => $this->totalBytes,
+            'current_file' => $currentFile,
+            'status' => $status,
+            'in_flight' => $this->inFlight,
+            'workers' => $workers,
+            'users' => $this->userProgress === null ? null : array_values($this->userProgress),
+        ]);
     }
     
     /**
      * Get a batch of files to migrate
      * 
-     * @param int $storageId Storage ID to get files from
-     * @param int $lastFileId Last file ID processed
+     * Batches are taken with keyset pagination in the migration order, so
+     * files that leave the source storage as they are migrated never shift
+     * the position of the next batch.
+     * 
+     * @param int $storageId Local root storage ID
+     * @param array|null $cursor Queue position after the last file processed, null to start
      * @return array Files to migrate
      */
-    private function getFilesBatch($storageId, $lastFileId) {
-        $this->logger->debug("Getting file batch starting after file ID: $lastFileId");
+    private function getFilesBatch($storageId, $cursor) {
+        $this->logger->debug("Getting file batch in {$this->order} order after file ID: " . ($cursor['fileid'] ?? 0));
+        
+        if ($this->retry) {
+            // Retried files may already sit on the object storage, so take
+            // the source storage recorded in the ledger
+            list($retrySql, $retryParams) = $this->getRetryFilter();
+            
+            return $this->db->fetchAll(
+                'SELECT fc.fileid, fc.path, fc.size, fc.mtime, fc.etag, l.storage, st.id AS storage_id, mt.mimetype 
+                 FROM ' . MigrationLedger::TABLE . ' l 
+                 JOIN oc_filecache fc ON fc.fileid = l.fileid 
+                 JOIN oc_mimetypes mt ON fc.mimetype = mt.id 
+                 JOIN oc_storages st ON st.numeric_id = l.storage 
+                 WHERE ' . $retrySql . ' 
+                 AND fc.fileid > :lastFileId 
+                 ORDER BY fc.fileid ASC 
+                 LIMIT :batchSize',
+                array_merge($retryParams, [
+                    'lastFileId' => $cursor['fileid'] ?? 0,
+                    'batchSize' => $this->batchSize
+                ])
+            );
+        }
+        
+        list($sourceSql, $sourceParams) = $this->getSourceFilter($storageId);
+        list($rulesSql, $rulesParams) = $this->rules->getFilter();
+        
+        if ($this->order === self::ORDER_ROUND_ROBIN) {
+            return $this->getRoundRobinBatch($cursor, $sourceSql . $rulesSql, array_merge($sourceParams, $rulesParams));
+        }
+        
+        list($column, $direction) = self::ORDER_KEYS[$this->order];
+        $keys = $column ? "fc.$column, fc.fileid" : 'fc.fileid';
+        $cursorSql = '';
+        $cursorParams = [];
+        if ($cursor !== null) {
+            $comparison = $direction === 'ASC' ? '>' : '<';
+            $cursorSql = $column
+                ? "AND ($keys) $comparison (:cursorKey, :cursorFileId)"
+                : "AND fc.fileid $comparison :cursorFileId";
+            $cursorParams['cursorFileId'] = $cursor['fileid'];
+            if ($column) {
+                $cursorParams['cursorKey'] = $cursor[$column];
+            }
+        }
         
         return $this->db->fetchAll(
-            'SELECT fc.fileid, fc.path, fc.size, fc.storage 
+            'SELECT fc.fileid, fc.path, fc.size, fc.mtime, fc.etag, fc.storage, st.id AS storage_id, mt.mimetype 
              FROM oc_filecache fc 
              JOIN oc_mimetypes mt ON fc.mimetype = mt.id 
-             WHERE fc.storage = :storageId 
-             AND fc.fileid > :lastFileId 
+             JOIN oc_storages st ON st.numeric_id = fc.storage 
+             WHERE ' . $sourceSql . $rulesSql . ' 
+             ' . $cursorSql . ' 
              AND mt.mimetype <> :dirMimetype 
              AND fc.path <> \'\' 
-             ORDER BY fc.fileid ASC 
+             ORDER BY ' . ($column ? "fc.$column $direction, fc.fileid $direction" : "fc.fileid $direction") . ' 
              LIMIT :batchSize',
-            [
-                'storageId' => $storageId,
-                'lastFileId' => $lastFileId,
+            array_merge($sourceParams, $rulesParams, $cursorParams, [
                 'dirMimetype' => 'httpd/unix-directory',
                 'batchSize' => $this->batchSize
-            ]
+            ])
+        );
+    }
+    
+    /**
+     * Get a batch taking files from every storage in turn
+     * 
+     * Each storage (one per user, plus the root storage) keeps its own file
+     * ID position in the cursor. A batch takes an equal share of the next
+     * files of every storage and interleaves them.
+     * 
+     * @param array|null $cursor Queue position with the last file ID of each storage
+     * @param string $filterSql Source and rule conditions on the filecache (fc) and storages (st)
+     * @param array $filterParams Parameters of the conditions
+     * @return array Files to migrate
+     */
+    private function getRoundRobinBatch($cursor, $filterSql, $filterParams) {
+        if ($this->roundRobinShare === null) {
+            $storages = (int)$this->db->fetchColumn(
+                'SELECT COUNT(DISTINCT fc.storage) FROM oc_filecache fc 
+                 JOIN oc_mimetypes mt ON fc.mimetype = mt.id 
+                 JOIN oc_storages st ON st.numeric_id = fc.storage 
+                 WHERE ' . $filterSql . ' AND mt.mimetype <> :dirMimetype AND fc.path <> \'\'',
+                array_merge($filterParams, [
+                    'dirMimetype' => 'httpd/unix-directory'
+                ])
+            );
+            $this->roundRobinShare = max(1, (int)ceil($this->batchSize / max(1, $storages)));
+            $this->logger->debug("Round-robin order over $storages storages, {$this->roundRobinShare} files each per batch");
+        }
+        
+        return $this->db->fetchAll(
+            'SELECT f.fileid, f.path, f.size, f.mtime, f.etag, f.storage, f.storage_id, f.mimetype 
+             FROM oc_storages st 
+             CROSS JOIN LATERAL (
+                 SELECT fc.fileid, fc.path, fc.size, fc.mtime, fc.etag, fc.storage, st.id AS storage_id, mt.mimetype, 
+                        ROW_NUMBER() OVER (ORDER BY fc.fileid ASC) AS turn 
+                 FROM oc_filecache fc 
+                 JOIN oc_mimetypes mt ON fc.mimetype = mt.id 
+                 WHERE fc.storage = st.numeric_id 
+                 AND ' . $filterSql . ' 
+                 AND fc.fileid > COALESCE(CAST(CAST(:cursor AS jsonb) ->> CAST(st.numeric_id AS text) AS bigint), 0) 
+                 AND mt.mimetype <> :dirMimetype 
+                 AND fc.path <> \'\' 
+                 ORDER BY fc.fileid ASC 
+                 LIMIT :share
+             ) f 
+             ORDER BY f.turn ASC, f.storage ASC 
+             LIMIT :batchSize',
+            array_merge($filterParams, [
+                'cursor' => json_encode((object)($cursor['storages'] ?? [])),
+                'dirMimetype' => 'httpd/unix-directory',
+                'share' => $this->roundRobinShare,
+                'batchSize' => $this->batchSize
+            ])
         );
     }
     
     /**
-     * Migrate a single file to S3
+     * Move the queue position past a processed file
      * 
+     * @param array|null $cursor Current queue position
      * @param array $file File data
-     * @return array Migration result
+     * @return array New queue position
+     */
+    private function advanceCursor($cursor, $file) {
+        $next = ['fileid' => (int)$file['fileid']];
+        
+        if ($this->order === self::ORDER_ROUND_ROBIN) {
+            $next['storages'] = $cursor['storages'] ?? [];
+            $next['storages'][$file['storage']] = (int)$file['fileid'];
+        } else if (self::ORDER_KEYS[$this->order][0]) {
+            $column = self::ORDER_KEYS[$this->order][0];
+            $next[$column] = (int)$file[$column];
+        }
+        
+        return $next;
+    }
+    
+    /**
+     * Set the order files are migrated in
+     * 
+     * @param string $order ORDER_* strategy
+     * @throws Exception If the strategy is unknown
+     */
+    private function setOrder($order) {
+        if ($order !== self::ORDER_ROUND_ROBIN && !isset(self::ORDER_KEYS[$order])) {
+            throw new Exception("Unknown migration order: $order");
+        }
+        
+        $this->order = $order;
+    }
+    
+    /**
+     * Build the condition selecting the failed files a retry run picks up
+     * 
+     * Only files that failed in a run of the same direction are retried.
+     * 
+     * @return array SQL condition on the ledger (l) and its parameters
+     */
+    private function getRetryFilter() {
+        $sql = 'l.state = :failedState AND COALESCE(l.direction, :legacyDirection) = :retryDirection';
+        $params = [
+            'failedState' => MigrationLedger::STATE_FAILED,
+            'legacyDirection' => MigrationLedger::LEGACY_DIRECTION,
+            'retryDirection' => $this->direction,
+        ];
+        
+        if ($this->retry['fileids'] !== null) {
+            $placeholders = [];
+            foreach (array_values($this->retry['fileids']) as $i => $fileId) {
+                $placeholders[] = ":retry$i";
+                $params["retry$i"] = $fileId;
+            }
+            $sql .= ' AND l.fileid IN (' . implode(', ', $placeholders ?: ['NULL']) . ')';
+        }
+        
+        return [$sql, $params];
+    }
+    
+    /**
+     * Build the condition selecting the storages files are migrated from
+     * 
+     * A full run takes the root storage and every home storage. With a user
+     * selection only those users' home storages are taken; the root storage
+     * (app data) is left for a run covering all users.
+     * 
+     * @param int $rootStorageId Root storage ID, local or object store depending on the direction
+     * @return array SQL condition on the filecache (fc) and storages (st), and its parameters
+     */
+    private function getSourceFilter($rootStorageId) {
+        $homePrefix = $this->getSourceHomePrefix();
+        
+        if ($this->users === null) {
+            return [
+                '(fc.storage = :rootStorageId OR st.id LIKE :homePrefix)',
+                [
+                    'rootStorageId' => $rootStorageId,
+                    'homePrefix' => $homePrefix . '%',
+                ],
+            ];
+        }
+        
+        $placeholders = [];
+        $params = [];
+        foreach (array_values($this->users) as $i => $user) {
+            $placeholders[] = ":user$i";
+            $params["user$i"] = $homePrefix . $user;
+        }
+        
+        return ['st.id IN (' . implode(', ', $placeholders ?: ['NULL']) . ')', $params];
+    }
+    
+    /**
+     * Get the prefix of the home storages files are migrated from
+     * 
+     * @return string LOCAL_HOME_PREFIX, or OBJECT_HOME_PREFIX when migrating from S3
+     */
+    private function getSourceHomePrefix() {
+        return $this->direction === self::DIRECTION_TO_S3 ? self::LOCAL_HOME_PREFIX : self::OBJECT_HOME_PREFIX;
+    }
+    
+    /**
+     * Get the root storage files are migrated from
+     * 
+     * @return int Local storage ID, or the object storage ID (0 if there is none) when migrating from S3
+     */
+    private function getSourceRootStorageId() {
+        if ($this->direction !== self::DIRECTION_TO_S3) {
+            return $this->getObjectStorageId() ?: 0;
+        }
+        
+        return $this->getLocalStorageId();
+    }
+    
+    /**
+     * Build the local path of a file from its storage
+     * 
+     * @param array $file File data including the storage_id string
+     * @return string Local file path
+     */
+    private function getLocalPath($file) {
+        if (substr($file['storage_id'], 0, 13) == 'object::user:') {
+            return $this->config['data_directory'] . '/' . substr($file['storage_id'], 13) . '/' . $file['path'];
+        } else if (substr($file['storage_id'], 0, 6) == 'home::') {
+            return $this->config['data_directory'] . '/' . substr($file['storage_id'], 6) . '/' . $file['path'];
+        }
+        
+        return $this->config['data_directory'] . '/' . $file['path'];
+    }
+    
+    /**
+     * Categorize a failed S3 request by its HTTP status
+     * 
+     * @param int|null $statusCode HTTP status code of the failed request
+     * @param string|null $errorCode S3 error code of the failed request
+     * @return string One of the ERROR_* categories
+     */
+    private function categorizeS3Error($statusCode, $errorCode = null) {
+        // S3 checked the body against the checksum sent with it
+        if ($errorCode === 'BadDigest') {
+            return self::ERROR_CHECKSUM;
+        }
+        
+        if ($statusCode >= 400 && $statusCode < 500) {
+            return self::ERROR_S3_CLIENT;
+        } else if ($statusCode >= 500) {
+            return self::ERROR_S3_SERVER;
+        }
+        
+        return self::ERROR_OTHER;
+    }
+    
+    /**
+     * Migrate a chunk of files to S3, from S3 for a reverse migration, or to the target bucket
+     * 
+     * Transfers run in parallel on the worker pool; database updates are then
+     * made one file at a time in the order of the chunk.
+     * 
+     * @param array $files Files to migrate, ordered by file ID
+     * @param callable|null $progressCallback Function to call with progress updates
+     * @param int $totalFiles Total number of files to migrate
+     * @param callable|null $controlCallback Function returning a pending CONTROL_* command; no new upload starts once there is one
+     * @return array Migration results keyed by file ID, up to the first file that was not started
      */
-    private function migrateFile($file) {
-        $this->logger->debug("Migrating file ID: {$file['fileid']}, Path: {$file['path']}");
+    private function migrateFiles($files, $progressCallback, $totalFiles, $controlCallback = null) {
+        $results = [];
+        $uploads = [];
+        $paths = [];
+        $sizes = [];
+        
+        foreach ($files as $file) {
+            try {
+                $result = $this->prepareFile($file);
+            } catch (Exception $e) {
+                $result = $this->failFile($file, $e->getMessage(), self::ERROR_OTHER);
+            }
+            
+            if ($result === null) {
+                $uploads[$file['fileid']] = [
+                    'key' => 'urn:oid:' . $file['fileid'],
+                    'bucket' => $this->getFileBucket($file),
+                    'verify' => $this->config['verify_uploads'],
+                ];
+                if ($this->direction !== self::DIRECTION_S3_TO_S3) {
+                    $uploads[$file['fileid']]['local_path'] = $this->getLocalPath($file);
+                }
+                $paths[$file['fileid']] = $file['path'];
+                $sizes[$file['fileid']] = $file['size'];
+            } else {
+                $results[$file['fileid']] = $result;
+            }
+        }
+        
+        $uploadResults = [];
+        if ($uploads) {
+            $onStart = function ($fileId, $slot) use ($paths) {
+                $this->inFlight++;
+                $stats = &$this->getWorkerStats($slot);
+                $stats['current_file'] = $paths[$fileId];
+            };
+            $onComplete = function ($fileId, $result) use ($paths, $sizes, $progressCallback, $totalFiles) {
+                $this->inFlight--;
+                $stats = &$this->getWorkerStats($result['slot']);
+                $stats['current_file'] = null;
+                $stats['seconds'] += $result['seconds'];
+                
+                if ($result['success']) {
+                    $stats['files']++;
+                    $stats['bytes'] += $sizes[$fileId];
+                    
+                    // Record the transfer right away so a crash mid-chunk leaves a trace of it
+                    $this->updateLedger($fileId, MigrationLedger::STATE_UPLOADED);
+                    if (!empty($result['verified'])) {
+                        $this->updateLedger($fileId, MigrationLedger::STATE_VERIFIED);
+                    }
+                }
+                
+                $this->reportProgress($progressCallback, $totalFiles, $paths[$fileId], self::STATUS_RUNNING);
+            };
+            
+            $shouldStop = $controlCallback ? function () use ($controlCallback) {
+                return in_array($controlCallback(), [self::CONTROL_PAUSE, self::CONTROL_CANCEL], true);
+            } : null;
+            
+            if ($this->direction === self::DIRECTION_S3_TO_S3) {
+                $uploadResults = $this->s3->copyFiles($uploads, $this->targetS3, $this->uploadConcurrency, $onStart, $onComplete, $shouldStop);
+            } else {
+                $transfer = $this->direction === self::DIRECTION_TO_LOCAL ? 'downloadFiles' : 'uploadFiles';
+                $uploadResults = $this->s3->$transfer($uploads, $this->uploadConcurrency, $onStart, $onComplete, $shouldStop);
+            }
+        }
+        
+        $stopped = false;
+        foreach ($files as $file) {
+            // Files after the first one left unstarted are handled again with it
+            if (isset($results[$file['fileid']])) {
+                if ($stopped) {
+                    unset($results[$file['fileid']]);
+                }
+                continue;
+            }
+            
+            if (!isset($uploadResults[$file['fileid']])) {
+                $stopped = true;
+                continue;
+            }
+            
+            try {
+                $results[$file['fileid']] = $this->finalizeFile($file, $uploadResults[$file['fileid']]);
+            } catch (Exception $e) {
+                $this->logger->error("Error migrating file ID {$file['fileid']}: " . $e->getMessage(), $this->getFileContext($file));
+                $results[$file['fileid']] = $this->failFile($file, $e->getMessage(), self::ERROR_OTHER);
+            }
+        }
+        
+        return $results;
+    }
+    
+    /**
+     * Check a file can be uploaded
+     * 
+     * @param array $file File data
+     * @return array|null Final migration result, or null if the file is ready to upload
+     */
+    private function prepareFile($file) {
+        $this->logger->debug("Migrating file ID: {$file['fileid']}, Path: {$file['path']}", $this->getFileContext($file));
+        
+        if ($this->ledger) {
+            $bucket = $this->getFileBucket($file)
+                ?? ($this->direction === self::DIRECTION_S3_TO_S3 ? $this->config['s3_target_bucket'] : $this->config['s3_bucket']);
+            $this->ledger->startFile($file, $this->config['job_id'] ?? null, $this->direction, $bucket, (bool)$this->testMode);
+        }
+        
+        // Objects are copied from bucket to bucket, nothing to check on disk
+        if ($this->direction === self::DIRECTION_S3_TO_S3) {
+            if ($this->testMode === 2) {
+                $this->logger->info("Test mode 2: Skipping S3 copy for file: {$file['path']}", $this->getFileContext($file));
+                return [
+                    'success' => true,
+                    'test_mode' => true,
+                ];
+            }
+            return null;
+        }
         
         // Build local file path
-        $localPath = $this->config['data_directory'] . '/' . $file['storage'] . '/' . $file['path'];
+        $localPath = $this->getLocalPath($file);
+        
+        if ($this->direction === self::DIRECTION_TO_LOCAL) {
+            return $this->prepareDownload($file, $localPath);
+        }
         
         // Check if local file exists
         if (!file_exists($localPath)) {
-            $this->logger->warn("Local file not found: $localPath");
+            $this->logger->warn("Local file not found: $localPath", $this->getFileContext($file));
             
             // Remove from database if configured
             if (!$this->testMode && $this->config['delete_missing_files']) {
@@ -472,50 +1889,105 @@ class MigrationManager {
                     'DELETE FROM oc_filecache WHERE fileid = :fileId',
                     ['fileId' => $file['fileid']]
                 );
-                $this->logger->info("Deleted missing file from database: {$file['fileid']}");
+                $this->logger->info("Deleted missing file from database: {$file['fileid']}", $this->getFileContext($file));
             }
             
-            return [
-                'success' => false,
-                'error' => 'Local file not found',
-            ];
+            return $this->failFile($file, 'Local file not found', self::ERROR_MISSING_LOCAL);
+        }
+        
+        // Check if local file can be read
+        if (!is_readable($localPath)) {
+            $this->logger->warn("Local file not readable: $localPath", $this->getFileContext($file));
+            return $this->failFile($file, 'Permission denied', self::ERROR_PERMISSION_DENIED);
         }
         
         // Skip actual upload in test mode level 2
         if ($this->testMode === 2) {
-            $this->logger->info("Test mode 2: Skipping S3 upload for file: {$file['path']}");
+            $this->logger->info("Test mode 2: Skipping S3 upload for file: {$file['path']}", $this->getFileContext($file));
             return [
                 'success' => true,
                 'test_mode' => true,
             ];
         }
         
-        // Upload to S3
-        $objectKey = 'urn:oid:' . $file['fileid'];
-        $result = $this->s3->uploadFile($localPath, $objectKey);
+        return null;
+    }
+    
+    /**
+     * Check the local file of a reverse migration can be written
+     * 
+     * @param array $file File data
+     * @param string $localPath Local file path the object is downloaded to
+     * @return array|null Final migration result, or null if the file is ready to download
+     */
+    private function prepareDownload($file, $localPath) {
+        // The directory may not exist yet, it is created with the download
+        $directory = dirname($localPath);
+        while (!is_dir($directory) && dirname($directory) !== $directory) {
+            $directory = dirname($directory);
+        }
+        
+        if (!is_writable($directory) || (file_exists($localPath) && !is_writable($localPath))) {
+            $this->logger->warn("Local path not writable: $localPath", $this->getFileContext($file));
+            return $this->failFile($file, 'Permission denied', self::ERROR_PERMISSION_DENIED);
+        }
         
-        if (!$result['success']) {
-            $this->logger->error("Failed to upload file to S3: {$file['path']}");
+        // Skip actual download in test mode level 2
+        if ($this->testMode === 2) {
+            $this->logger->info("Test mode 2: Skipping S3 download for file: {$file['path']}", $this->getFileContext($file));
             return [
-                'success' => false,
-                'error' => $result['error'],
+                'success' => true,
+                'test_mode' => true,
             ];
         }
         
-        // Verify upload if configured
-        if ($this->config['verify_uploads']) {
-            $verified = $this->s3->verifyObject($objectKey, $localPath);
-            if (!$verified) {
-                $this->logger->warn("File verification failed: {$file['path']}");
-                return [
-                    'success' => false,
-                    'error' => 'File verification failed',
-                ];
+        return null;
+    }
+    
+    /**
+     * Point a file at its new storage once its transfer has finished
+     * 
+     * @param array $file File data
+     * @param array $upload Transfer result from S3Manager::uploadFiles(), downloadFiles() or copyFiles()
+     * @return array Migration result
+     */
+    private function finalizeFile($file, $upload) {
+        if (!$upload['success']) {
+            $transfer = [
+                self::DIRECTION_TO_S3 => 'upload file to S3',
+                self::DIRECTION_TO_LOCAL => 'download file from S3',
+                self::DIRECTION_S3_TO_S3 => 'copy file to target S3 bucket',
+            ][$this->direction];
+            $this->logger->error("Failed to $transfer: {$file['path']} ({$upload['error']})", $this->getFileContext($file));
+            return $this->failFile($file, $upload['error'], $this->categorizeS3Error($upload['status_code'] ?? null, $upload['error_code'] ?? null));
+        }
+        
+        if (isset($upload['verified']) && !$upload['verified']) {
+            if (($upload['mismatch'] ?? null) === S3Manager::MISMATCH_CHECKSUM) {
+                $this->logger->warn("File checksum verification failed: {$file['path']}", $this->getFileContext($file));
+                return $this->failFile($file, 'Checksum mismatch', self::ERROR_CHECKSUM);
             }
+            
+            $this->logger->warn("File verification failed: {$file['path']}", $this->getFileContext($file));
+            return $this->failFile($file, 'File verification failed', self::ERROR_VERIFICATION);
         }
         
-        // Update database storage ID if not in test mode
-        if (!$this->testMode) {
+        if ($this->direction === self::DIRECTION_TO_LOCAL) {
+            return $this->finalizeDownload($file);
+        } else if ($this->direction === self::DIRECTION_S3_TO_S3) {
+            return $this->finalizeCopy($file);
+        }
+        
+        if (!$this->testMode && substr($file['storage_id'], 0, 7) == 'local::') {
+            // Nextcloud's root storage only switches with the whole cutover, so
+            // until then a partial run leaves root files where they are
+            if (!$this->switchesRootFiles()) {
+                $this->logger->debug("File uploaded, left on the local storage until the cutover: {$file['path']}", $this->getFileContext($file));
+                return [
+                    'success' => true,
+                ];
+            }
+            
             // Get object storage ID or create if not exists
             $objectStorageId = $this->getObjectStorageId();
             if (!$objectStorageId) {
@@ -530,14 +2002,173 @@ class MigrationManager {
                     'fileId' => $file['fileid']
                 ]
             );
+            
+            // Marked db_updated in the ledger once the transaction commits
+            $this->uncommittedFileIds[] = $file['fileid'];
+        } else if (!$this->testMode && substr($file['storage_id'], 0, strlen(self::LOCAL_HOME_PREFIX)) !== self::LOCAL_HOME_PREFIX) {
+            // Already on the object storage, e.g. retried after the cutover
+            $this->uncommittedFileIds[] = $file['fileid'];
+        }
+        
+        // Home storage files keep their storage until it is renamed to an
+        // object storage, the ledger marks them db_updated then
+        
+        $this->logger->debug("File migrated successfully: {$file['path']}", $this->getFileContext($file));
+        return [
+            'success' => true,
+        ];
+    }
+    
+    /**
+     * Point a downloaded file back at the local storage
+     * 
+     * @param array $file File data
+     * @return array Migration result
+     */
+    private function finalizeDownload($file) {
+        // Keep the modification time Nextcloud knows so the file isn't rescanned as changed
+        touch($this->getLocalPath($file), (int)$file['mtime']);
+        
+        if (!$this->testMode && substr($file['storage_id'], 0, strlen(self::OBJECT_STORE_PREFIX)) === self::OBJECT_STORE_PREFIX) {
+            // Like uploads, downloads of root files only move them in a full run
+            if (!$this->switchesRootFiles()) {
+                $this->logger->debug("File downloaded, left on the object storage until the cutover: {$file['path']}", $this->getFileContext($file));
+                return [
+                    'success' => true,
+                ];
+            }
+            
+            $localStorageId = $this->findLocalStorageId();
+            if (!$localStorageId) {
+                $localStorageId = $this->createLocalStorage();
+            }
+            
+            $this->db->execute(
+                'UPDATE oc_filecache SET storage = :newStorageId WHERE fileid = :fileId',
+                [
+                    'newStorageId' => $localStorageId,
+                    'fileId' => $file['fileid']
+                ]
+            );
+            
+            // Marked db_updated in the ledger once the transaction commits
+            $this->uncommittedFileIds[] = $file['fileid'];
+        } else if (!$this->testMode && substr($file['storage_id'], 0, strlen(self::OBJECT_HOME_PREFIX)) !== self::OBJECT_HOME_PREFIX) {
+            // Already on local storage, e.g. retried after the cutover
+            $this->uncommittedFileIds[] = $file['fileid'];
+        }
+        
+        // Home storage files keep their storage until it is renamed back to a
+        // home storage, the ledger marks them db_updated then
+        
+        $this->logger->debug("File migrated back successfully: {$file['path']}", $this->getFileContext($file));
+        return [
+            'success' => true,
+        ];
+    }
+    
+    /**
+     * Record a file copied to the target bucket
+     * 
+     * Objects keep their keys, so the file's row only changes when the
+     * object storage is switched to the target bucket at the end of the run,
+     * and the ledger marks it db_updated then.
+     * 
+     * @param array $file File data
+     * @return array Migration result
+     */
+    private function finalizeCopy($file) {
+        // Retried after the switch, the copy is in use as soon as it commits
+        if (!$this->testMode && $this->isTargetBucketActive()) {
+            $this->uncommittedFileIds[] = $file['fileid'];
         }
         
-        $this->logger->debug("File migrated successfully: {$file['path']}");
+        $this->logger->debug("File copied successfully: {$file['path']}", $this->getFileContext($file));
         return [
             'success' => true,
         ];
     }
     
+    /**
+     * Check whether transferred root storage files move to their new storage right away
+     * 
+     * Only a run that switches the storage providers at its end does so.
+     * Files of runs limited by rules stay on their source storage, marked
+     * uploaded or verified in the ledger, until finishCutover().
+     * 
+     * @return bool True for runs covering every file
+     */
+    private function switchesRootFiles() {
+        return $this->users === null && $this->rules->isEmpty() && !$this->retry;
+    }
+    
+    /**
+     * Check whether the object storage already uses the target bucket
+     * 
+     * @return bool True once a bucket-to-bucket run switched to it
+     */
+    private function isTargetBucketActive() {
+        if ($this->targetBucketActive === null) {
+            $this->targetBucketActive = (bool)$this->db->fetchColumn(
+                'SELECT numeric_id FROM oc_storages WHERE id = :id',
+                ['id' => self::OBJECT_STORE_PREFIX . $this->config['s3_target_bucket']]
+            );
+        }
+        
+        return $this->targetBucketActive;
+    }
+    
+    /**
+     * Get the log context of a file
+     * 
+     * @param array $file File data
+     * @return array File ID, path and owning user for Logger
+     */
+    private function getFileContext($file) {
+        return [
+            'fileid' => (int)$file['fileid'],
+            'path' => $file['path'],
+            'user' => MigrationLedger::resolveOwner($file['storage_id'], $file['path']),
+        ];
+    }
+    
+    /**
+     * Record a failed file in the ledger
+     * 
+     * @param array $file File data
+     * @param string $error Error message
+     * @param string $category One of the ERROR_* categories
+     * @return array Failed migration result
+     */
+    private function failFile($file, $error, $category) {
+        $this->updateLedger($file['fileid'], MigrationLedger::STATE_FAILED, $error, $category);
+        return [
+            'success' => false,
+            'error' => $error,
+            'category' => $category,
+        ];
+    }
+    
+    /**
+     * Get the throughput counters of an upload worker slot
+     * 
+     * @param int $slot Worker slot
+     * @return array Counters, by reference
+     */
+    private function &getWorkerStats($slot) {
+        if (!isset($this->workerStats[$slot])) {
+            $this->workerStats[$slot] = [
+                'slot' => $slot,
+                'files' => 0,
+                'bytes' => 0,
+                'seconds' => 0.0,
+                'current_file' => null,
+            ];
+        }
+        
+        return $this->workerStats[$slot];
+    }
+    
     /**
      * Create object storage in database
      * 
@@ -549,13 +2180,107 @@ class MigrationManager {
         // Insert new storage
         $this->db->execute(
             'INSERT INTO oc_storages (id, available) VALUES (:id, 1)',
-            ['id' => 'object::store:amazon::' . $this->config['s3_bucket']]
+            ['id' => self::OBJECT_STORE_PREFIX . $this->getRootBucket()]
         );
         
         // Get the new storage ID
         return $this->getObjectStorageId();
     }
     
+    /**
+     * Switch every storage to the direction of the migration
+     * 
+     * The files of the switched storages are marked db_updated in the ledger
+     * once the switch is committed, including those transferred by earlier
+     * partial runs.
+     */
+    private function switchStorageProviders() {
+        $this->db->beginTransaction();
+        if ($this->direction === self::DIRECTION_TO_LOCAL) {
+            $this->restoreLocalStorageProviders();
+        } else if ($this->direction === self::DIRECTION_S3_TO_S3) {
+            $this->switchObjectStorageBucket();
+        } else {
+            $this->updateStorageProviders();
+        }
+        $this->db->commit();
+        
+        if ($this->ledger) {
+            $this->ledger->markStoragesSwitched($this->direction);
+        }
+        
+        // Nextcloud only finds the files with a matching objectstore section
+        if (!empty($this->config['update_nextcloud_config'])) {
+            $this->applyNextcloudConfig();
+        }
+    }
+    
+    /**
+     * Switch the home storages of the selected users
+     * 
+     * Their home storages and mounts are renamed like a full run renames
+     * every one, in one transaction, so each user's files and storage agree
+     * and maintenance mode ends with the run like after a full one. The root
+     * storage and config.php follow with a run covering all users.
+     */
+    private function switchUserStorages() {
+        if ($this->direction === self::DIRECTION_S3_TO_S3) {
+            // Home storages don't name their bucket, the whole object storage switches at once
+            $this->logger->info("Partial run for " . count($this->users) . " users: the object storage switches to the target bucket with a run covering all users");
+            return;
+        }
+        
+        $fromPrefix = $this->getSourceHomePrefix();
+        $toPrefix = $fromPrefix === self::LOCAL_HOME_PREFIX ? self::OBJECT_HOME_PREFIX : self::LOCAL_HOME_PREFIX;
+        $fromProvider = $fromPrefix === self::LOCAL_HOME_PREFIX ? 'LocalHomeMountProvider' : 'ObjectHomeMountProvider';
+        $toProvider = $fromPrefix === self::LOCAL_HOME_PREFIX ? 'ObjectHomeMountProvider' : 'LocalHomeMountProvider';
+        
+        $placeholders = [];
+        $params = [];
+        foreach (array_values($this->users) as $i => $user) {
+            $placeholders[] = ":user$i";
+            $params["user$i"] = $fromPrefix . $user;
+        }
+        $storageIds = array_map('intval', array_column($this->db->fetchAll(
+            'SELECT numeric_id FROM oc_storages WHERE id IN (' . implode(', ', $placeholders ?: ['NULL']) . ')',
+            $params
+        ), 'numeric_id'));
+        
+        if (!$storageIds) {
+            $this->logger->info("No home storages of the selected users left to switch");
+            return;
+        }
+        
+        $this->logger->info("Switching the home storages of " . count($storageIds) . " users");
+        $storageList = implode(', ', $storageIds);
+        
+        $this->db->beginTransaction();
+        $this->db->execute(
+            "UPDATE oc_mounts SET mount_provider_class = REPLACE(mount_provider_class, :fromProvider, :toProvider) 
+             WHERE storage_id IN ($storageList) AND mount_provider_class LIKE :fromPattern",
+            [
+                'fromProvider' => $fromProvider,
+                'toProvider' => $toProvider,
+                'fromPattern' => '%' . $fromProvider . '%',
+            ]
+        );
+        $this->db->execute(
+            "UPDATE oc_storages SET id = CONCAT(CAST(:toPrefix AS VARCHAR), SUBSTRING(id FROM :fromLength)) 
+             WHERE numeric_id IN ($storageList)",
+            [
+                'toPrefix' => $toPrefix,
+                'fromLength' => strlen($fromPrefix) + 1,
+            ]
+        );
+        $this->db->commit();
+        
+        if ($this->ledger) {
+            $this->ledger->markStoragesSwitched($this->direction, $storageIds);
+        }
+        
+        $this->logger->info("The other users' homes and the root storage switch with a run covering all users");
+    }
+    
     /**
      * Update storage providers to use object storage
      */
@@ -574,9 +2299,13 @@ class MigrationManager {
              WHERE id LIKE 'home::%'"
         );
         
-        // Get the local and object storage IDs
+        // Get the local and object storage IDs; runs limited by rules leave
+        // every root file on the local storage, so there may be none yet
         $localStorageId = $this->getLocalStorageId();
         $objectStorageId = $this->getObjectStorageId();
+        if ($localStorageId && !$objectStorageId) {
+            $objectStorageId = $this->createObjectStorage();
+        }
         
         // Update file storage references
         if ($localStorageId && $objectStorageId) {
@@ -591,44 +2320,169 @@ class MigrationManager {
     }
     
     /**
-     * Enable or disable maintenance mode
+     * Create the local root storage in the database
      * 
-     * @param bool $enable Whether to enable or disable
-     * @return bool Success status
+     * @return int The new local storage ID
      */
-    private function enableMaintenanceMode($enable) {
-        $action = $enable ? 'Enabling' : 'Disabling';
-        $this->logger->info("$action maintenance mode");
+    private function createLocalStorage() {
+        $this->logger->info("Creating local storage in database");
         
-        $configFile = $this->config['nextcloud_dir'] . '/config/config.php';
-        if (!file_exists($configFile)) {
-            $this->logger->error("Config file not found: $configFile");
-            return false;
+        $this->db->execute(
+            'INSERT INTO oc_storages (id, available) VALUES (:id, 1)',
+            ['id' => 'local::' . $this->config['data_directory'] . '/']
+        );
+        
+        return $this->getLocalStorageId();
+    }
+    
+    /**
+     * Switch storage providers back to local storage after a reverse migration
+     */
+    private function restoreLocalStorageProviders() {
+        $this->logger->info("Restoring local storage providers");
+        
+        // Update home mounts to use local storage
+        $this->db->execute(
+            "UPDATE oc_mounts SET mount_provider_class = REPLACE(mount_provider_class, 'ObjectHomeMountProvider', 'LocalHomeMountProvider') 
+             WHERE mount_provider_class LIKE '%ObjectHomeMountProvider%'"
+        );
+        
+        // Rename object storages back to home storages
+        $this->db->execute(
+            "UPDATE oc_storages SET id = CONCAT('home::', SUBSTRING(id FROM LENGTH('object::user:') + 1)) 
+             WHERE id LIKE 'object::user:%'"
+        );
+        
+        // Update file storage references
+        $localStorageId = $this->findLocalStorageId() ?: $this->createLocalStorage();
+        $objectStorageId = $this->getObjectStorageId();
+        if ($objectStorageId) {
+            $this->db->execute(
+                'UPDATE oc_filecache SET storage = :localStorageId WHERE storage = :objectStorageId',
+                [
+                    'localStorageId' => $localStorageId,
+                    'objectStorageId' => $objectStorageId
+                ]
+            );
         }
+    }
+    
+    /**
+     * Point the object storage at the target bucket after a bucket-to-bucket migration
+     * 
+     * Home storages don't name the bucket and stay as they are. If the target
+     * bucket already has a storage, the root storage files are moved to it.
+     */
+    private function switchObjectStorageBucket() {
+        $this->logger->info("Switching object storage to bucket: {$this->config['s3_target_bucket']}");
         
-        // Create backup of config file
-        copy($configFile, $configFile . '.bak');
+        $objectStorageId = $this->getObjectStorageId();
+        if (!$objectStorageId) {
+            $this->logger->info("No object storage for bucket {$this->config['s3_bucket']}, nothing to switch");
+            return;
+        }
         
-        // Read current config
-        $configContent = file_get_contents($configFile);
+        $targetId = self::OBJECT_STORE_PREFIX . $this->config['s3_target_bucket'];
+        $targetStorageId = $this->db->fetchColumn(
+            'SELECT numeric_id FROM oc_storages WHERE id = :id',
+            ['id' => $targetId]
+        );
         
-        if ($enable) {
-            // Enable maintenance mode
-            if (strpos($configContent, "'maintenance' => false") !== false) {
-                $configContent = str_replace("'maintenance' => false", "'maintenance' => true", $configContent);
-            } elseif (strpos($configContent, "'maintenance' => true") === false) {
-                // Add maintenance directive
-                $configContent = preg_replace("/(return \[\s+)/", "$1'maintenance' => true,\n  ", $configContent);
-            }
+        if ($targetStorageId) {
+            $this->db->execute(
+                'UPDATE oc_filecache SET storage = :targetStorageId WHERE storage = :objectStorageId',
+                [
+                    'targetStorageId' => $targetStorageId,
+                    'objectStorageId' => $objectStorageId
+                ]
+            );
         } else {
-            // Disable maintenance mode
-            if (strpos($configContent, "'maintenance' => true") !== false) {
-                $configContent = str_replace("'maintenance' => true", "'maintenance' => false", $configContent);
-            }
+            $this->db->execute(
+                'UPDATE oc_storages SET id = :id WHERE numeric_id = :objectStorageId',
+                [
+                    'id' => $targetId,
+                    'objectStorageId' => $objectStorageId
+                ]
+            );
+        }
+        
+        $this->logger->warn("Object storage now uses bucket {$this->config['s3_target_bucket']}: update the S3 settings of this tool"
+            . (empty($this->config['update_nextcloud_config']) ? ", and the objectstore bucket and credentials in Nextcloud's config.php" : ''));
+    }
+    
+    /**
+     * Show how this migration changes Nextcloud's config.php
+     * 
+     * @return array Config file path, current and proposed content with secrets hidden, and whether they differ
+     */
+    public function previewNextcloudConfig() {
+        $nextcloudConfig = $this->getNextcloudConfig();
+        $current = $nextcloudConfig->load();
+        
+        return $nextcloudConfig->preview($current, $this->buildNextcloudConfig($current));
+    }
+    
+    /**
+     * Write the objectstore section for the storages this migration switched to
+     */
+    private function applyNextcloudConfig() {
+        $nextcloudConfig = $this->getNextcloudConfig();
+        $current = $nextcloudConfig->load();
+        $proposed = $this->buildNextcloudConfig($current);
+        
+        if ($proposed === $current) {
+            $this->logger->info("Nextcloud config file already up to date");
+            return;
+        }
+        
+        $nextcloudConfig->save($proposed);
+    }
+    
+    /**
+     * Get the editor of Nextcloud's config.php
+     * 
+     * @return NextcloudConfig Config editor
+     */
+    private function getNextcloudConfig() {
+        return new NextcloudConfig($this->config['nextcloud_dir'], $this->config['backup_directory'], $this->logger);
+    }
+    
+    /**
+     * Build Nextcloud's config values as they should be after this migration
+     * 
+     * @param array $values Current config values
+     * @return array Config values with the objectstore section of the migration's target
+     */
+    private function buildNextcloudConfig($values) {
+        if ($this->direction === self::DIRECTION_TO_LOCAL) {
+            return NextcloudConfig::withoutObjectStore($values);
         }
         
-        // Write updated config
-        return file_put_contents($configFile, $configContent) !== false;
+        $prefix = $this->direction === self::DIRECTION_S3_TO_S3 ? 's3_target_' : 's3_';
+        $objectStore = NextcloudConfig::buildObjectStore([
+            'bucket' => $this->config[$prefix . 'bucket'],
+            'key' => $this->config[$prefix . 'key'],
+            'secret' => $this->config[$prefix . 'secret'],
+            'endpoint' => $this->config[$prefix . 'endpoint'],
+            'use_path_style' => $this->config[$prefix . 'use_path_style'] ?? false,
+            'region' => $this->config[$prefix . 'region'],
+        ], $this->bucketCount);
+        
+        return NextcloudConfig::withObjectStore($values, $objectStore, (bool)$this->bucketCount);
+    }
+    
+    /**
+     * Enable or disable maintenance mode
+     * 
+     * @param bool $enable Whether to enable or disable
+     * @return array The new state and how it was switched, from MaintenanceMode::setEnabled()
+     */
+    private function enableMaintenanceMode($enable) {
+        $action = $enable ? 'Enabling' : 'Disabling';
+        $this->logger->info("$action maintenance mode");
+        
+        $maintenanceMode = new MaintenanceMode($this->config['nextcloud_dir'], $this->config['backup_directory'], $this->logger);
+        return $maintenanceMode->setEnabled($enable);
     }
     
     /**
@@ -711,6 +2565,51 @@ class MigrationManager {
         ];
     }
     
+    /**
+     * Audit the object storage against the contents of its buckets
+     * 
+     * Lists the files with no object, the objects with no file and the files
+     * whose size differs from their object's. With a cleanup, orphaned
+     * objects older than its minimum age are deleted as well.
+     * 
+     * @param array $listFiles CSV file path of each IntegrityAuditor list, keyed by list
+     * @param callable|null $progressCallback Called with the audit progress
+     * @param callable|null $controlCallback Returns CONTROL_CANCEL to stop the audit
+     * @param array|null $cleanup Orphan cleanup with 'dry_run' and 'min_age_hours'
+     * @return array Audit result
+     */
+    public function auditIntegrity($listFiles, $progressCallback = null, $controlCallback = null, $cleanup = null) {
+        $storages = $this->db->fetchAll(
+            'SELECT numeric_id, id FROM oc_storages WHERE id = :rootStorage OR id LIKE :homePrefix',
+            [
+                'rootStorage' => self::OBJECT_STORE_PREFIX . $this->getRootBucket(),
+                'homePrefix' => self::OBJECT_HOME_PREFIX . '%',
+            ]
+        );
+        
+        // Every bucket is listed, even one no storage is kept in
+        $buckets = [];
+        foreach ($this->getBuckets() as $bucket) {
+            $buckets[$bucket] = ['s3' => $this->s3->forBucket($bucket), 'storages' => []];
+        }
+        foreach ($storages as $storage) {
+            $bucket = $this->getFileBucket(['storage_id' => $storage['id']]) ?? $this->getRootBucket();
+            if (!isset($buckets[$bucket])) {
+                $buckets[$bucket] = ['s3' => $this->s3->forBucket($bucket), 'storages' => []];
+            }
+            $buckets[$bucket]['storages'][] = (int)$storage['numeric_id'];
+        }
+        
+        // A cleanup looks up the transfers waiting for a storage switch in the
+        // ledger, and resets those whose object it deletes
+        if ($cleanup !== null) {
+            $this->openLedger();
+        }
+        
+        $auditor = new IntegrityAuditor($this->db, $this->logger, $listFiles, $this->ledger);
+        return $auditor->audit(array_values($buckets), $progressCallback, $controlCallback, $cleanup);
+    }
+    
     /**
      * Close database connection
      */
@@ -718,5 +2617,8 @@ class MigrationManager {
         if ($this->db) {
             $this->db->close();
         }
+        if ($this->ledgerDb) {
+            $this->ledgerDb->close();
+        }
     }
 }
\ No newline at end of file
@@ -0,0 +1,205 @@
+<?php
+/**
+ * Include/exclude rules for Nextcloud S3 Migration
+ *
+ * Narrows down the files a migration picks up by path, mimetype and size.
+ * Path patterns are globs matched against the path within the storage
+ * (e.g. "files_trashbin/*" or "*.iso"): "*" matches any run of characters
+ * including "/", "?" matches a single character. Mimetypes may be full
+ * types ("application/x-iso9660-image") or groups ("video").
+ */
+class MigrationRules {
+    const RULE_TYPES = [
+        'include_paths',
+        'exclude_paths',
+        'include_mimetypes',
+        'exclude_mimetypes',
+    ];
+
+    private $rules;
+    private $db;
+    private $logger;
+    private $mimetypeIds = null;
+
+    /**
+     * Initialize the rules
+     *
+     * @param array $rules Rules as stored in the configuration
+     * @param DatabaseManager $db Database connection used to resolve mimetypes
+     * @param Logger $logger Logger instance
+     */
+    public function __construct($rules, $db, $logger) {
+        $this->rules = self::normalize($rules);
+        $this->db = $db;
+        $this->logger = $logger;
+    }
+
+    /**
+     * Clean up rules coming from the configuration or the web interface
+     *
+     * @param array|null $rules Raw rules
+     * @return array Rules with every key present, trimmed lists and integer sizes or null
+     */
+    public static function normalize($rules) {
+        $rules = is_array($rules) ? $rules : [];
+        $normalized = [];
+
+        foreach (self::RULE_TYPES as $type) {
+            $values = isset($rules[$type]) && is_array($rules[$type]) ? $rules[$type] : [];
+            $normalized[$type] = array_values(array_unique(array_filter(array_map(function ($value) {
+                return trim((string)$value);
+            }, $values), 'strlen')));
+        }
+
+        foreach (['min_size', 'max_size'] as $bound) {
+            $normalized[$bound] = isset($rules[$bound]) && $rules[$bound] !== '' && $rules[$bound] !== null
+                ? max(0, (int)$rules[$bound])
+                : null;
+        }
+
+        return $normalized;
+    }
+
+    /**
+     * Whether any rule is set
+     *
+     * @return bool True if the rules narrow down the selection
+     */
+    public function isEmpty() {
+        foreach (self::RULE_TYPES as $type) {
+            if (!empty($this->rules[$type])) {
+                return false;
+            }
+        }
+
+        return $this->rules['min_size'] === null && $this->rules['max_size'] === null;
+    }
+
+    /**
+     * Build the condition applying every rule
+     *
+     * @return array SQL condition on the filecache (fc), empty without rules, and its parameters
+     */
+    public function getFilter() {
+        $conditions = [];
+        $params = [];
+
+        foreach ($this->getRuleFilters() as $rule) {
+            // A list of include rules matches when any of them does
+            $conditions[$rule['group']][] = $rule['sql'];
+            $params = array_merge($params, $rule['params']);
+        }
+
+        $sql = '';
+        foreach ($conditions as $group => $groupConditions) {
+            if ($group === 'include_paths' || $group === 'include_mimetypes') {
+                $sql .= ' AND (' . implode(' OR ', $groupConditions) . ')';
+            } else {
+                $sql .= ' AND ' . implode(' AND ', $groupConditions);
+            }
+        }
+
+        return [$sql, $params];
+    }
+
+    /**
+     * Build one condition per rule, for showing what each rule matches
+     *
+     * Exclude rules are given as the negated match, so 'match_sql' selects
+     * the files a rule includes or excludes.
+     *
+     * @return array Rules with 'type', 'value', 'group', 'sql', 'match_sql' and 'params'
+     */
+    public function getRuleFilters() {
+        $filters = [];
+        $i = 0;
+
+        foreach (['include_paths', 'exclude_paths'] as $type) {
+            foreach ($this->rules[$type] as $pattern) {
+                $name = 'rulePath' . $i++;
+                $match = "fc.path LIKE :$name";
+                $filters[] = [
+                    'type' => $type,
+                    'value' => $pattern,
+                    'group' => $type,
+                    'match_sql' => $match,
+                    'sql' => $type === 'include_paths' ? $match : "NOT ($match)",
+                    'params' => [$name => self::globToLike($pattern)],
+                ];
+            }
+        }
+
+        foreach (['include_mimetypes', 'exclude_mimetypes'] as $type) {
+            foreach ($this->rules[$type] as $mimetype) {
+                $id = $this->resolveMimetype($mimetype);
+                $name = 'ruleMime' . $i++;
+                $match = $id === null ? 'FALSE' : "(fc.mimetype = :$name OR fc.mimepart = :{$name}Part)";
+                $filters[] = [
+                    'type' => $type,
+                    'value' => $mimetype,
+                    'group' => $type,
+                    'match_sql' => $match,
+                    'sql' => $type === 'include_mimetypes' ? $match : "NOT $match",
+                    'params' => $id === null ? [] : [$name => $id, $name . 'Part' => $id],
+                    'resolved' => $id !== null,
+                ];
+            }
+        }
+
+        if ($this->rules['min_size'] !== null) {
+            $filters[] = [
+                'type' => 'min_size',
+                'value' => $this->rules['min_size'],
+                'group' => 'size',
+                'match_sql' => 'fc.size < :ruleMinSize',
+                'sql' => 'fc.size >= :ruleMinSize',
+                'params' => ['ruleMinSize' => $this->rules['min_size']],
+            ];
+        }
+
+        if ($this->rules['max_size'] !== null) {
+            $filters[] = [
+                'type' => 'max_size',
+                'value' => $this->rules['max_size'],
+                'group' => 'size',
+                'match_sql' => 'fc.size > :ruleMaxSize',
+                'sql' => 'fc.size <= :ruleMaxSize',
+                'params' => ['ruleMaxSize' => $this->rules['max_size']],
+            ];
+        }
+
+        return $filters;
+    }
+
+    /**
+     * Turn a glob pattern into a LIKE pattern
+     *
+     * @param string $pattern Glob pattern
+     * @return string LIKE pattern
+     */
+    public static function globToLike($pattern) {
+        return strtr(addcslashes($pattern, '%_\\'), ['*' => '%', '?' => '_']);
+    }
+
+    /**
+     * Look up the ID of a mimetype or mimetype group
+     *
+     * @param string $mimetype Mimetype or group
+     * @return int|null Mimetype ID or null if Nextcloud doesn't know it
+     */
+    private function resolveMimetype($mimetype) {
+        if ($this->mimetypeIds === null) {
+            $this->mimetypeIds = [];
+            foreach ($this->db->fetchAll('SELECT id, mimetype FROM oc_mimetypes') as $row) {
+                $this->mimetypeIds[$row['mimetype']] = (int)$row['id'];
+            }
+        }
+
+        if (!isset($this->mimetypeIds[$mimetype])) {
+            $this->logger->warn("Migration rule mimetype not found in oc_mimetypes: $mimetype");
+            return null;
+        }
+
+        return $this->mimetypeIds[$mimetype];
+    }
+}
@@ -0,0 +1,197 @@
+<?php
+/**
+ * Nextcloud config.php editing for Nextcloud S3 Migration
+ *
+ * Builds the objectstore section from the S3 settings and writes config.php
+ * the way Nextcloud itself does, after a timestamped backup
+ */
+class NextcloudConfig {
+    const OBJECTSTORE_CLASS = '\\OC\\Files\\ObjectStore\\S3';
+    const KEY_OBJECTSTORE = 'objectstore';
+    const KEY_MULTIBUCKET = 'objectstore_multibucket';
+
+    // Values hidden when config.php is shown, matched on their keys
+    const SECRET_PATTERN = '/pass|secret|salt/i';
+    const MASK = '********';
+
+    private $file;
+    private $backupDir;
+    private $logger;
+
+    /**
+     * Initialize the config editor
+     *
+     * @param string $nextcloudDir Nextcloud installation directory
+     * @param string $backupDir Directory the backups of config.php are written to
+     * @param Logger $logger Logger instance
+     */
+    public function __construct($nextcloudDir, $backupDir, $logger) {
+        $this->file = $nextcloudDir . '/config/config.php';
+        $this->backupDir = $backupDir;
+        $this->logger = $logger;
+    }
+
+    /**
+     * Get the path of config.php
+     *
+     * @return string Config file path
+     */
+    public function getFile() {
+        return $this->file;
+    }
+
+    /**
+     * Load the values of config.php
+     *
+     * @return array Config values
+     */
+    public function load() {
+        if (!is_readable($this->file)) {
+            throw new Exception("Nextcloud config file not readable: {$this->file}");
+        }
+
+        // The opcode cache may still hold the file as it was before the last write
+        if (function_exists('opcache_invalidate')) {
+            opcache_invalidate($this->file, true);
+        }
+
+        $CONFIG = null;
+        include $this->file;
+        if (!is_array($CONFIG)) {
+            throw new Exception("Nextcloud config file has no \$CONFIG array: {$this->file}");
+        }
+
+        return $CONFIG;
+    }
+
+    /**
+     * Build the objectstore section for an S3 bucket
+     *
+     * @param array $s3 S3 settings with 'bucket', 'key', 'secret', 'endpoint', 'use_path_style' and 'region'
+     * @param int|null $bucketCount Number of buckets of a multibucket object store, with 'bucket' as their prefix
+     * @return array Objectstore section
+     */
+    public static function buildObjectStore($s3, $bucketCount = null) {
+        $arguments = [
+            'bucket' => $s3['bucket'],
+            'key' => $s3['key'],
+            'secret' => $s3['secret'],
+        ];
+
+        // Without an endpoint Nextcloud connects to AWS in the region
+        if (!empty($s3['endpoint'])) {
+            $url = parse_url(strpos($s3['endpoint'], '://') === false ? 'https://' . $s3['endpoint'] : $s3['endpoint']);
+            $useSsl = strtolower($url['scheme'] ?? 'https') === 'https';
+            $arguments['hostname'] = $url['host'] ?? $s3['endpoint'];
+            $arguments['port'] = $url['port'] ?? ($useSsl ? 443 : 80);
+            $arguments['use_ssl'] = $useSsl;
+        }
+
+        $arguments['use_path_style'] = (bool)$s3['use_path_style'];
+        $arguments['region'] = $s3['region'];
+
+        if ($bucketCount) {
+            $arguments['num_buckets'] = (int)$bucketCount;
+        }
+
+        return [
+            'class' => self::OBJECTSTORE_CLASS,
+            'arguments' => $arguments,
+        ];
+    }
+
+    /**
+     * Set the objectstore section, replacing any existing one
+     *
+     * @param array $values Config values
+     * @param array $objectStore Objectstore section from buildObjectStore()
+     * @param bool $multibucket Whether the section configures a multibucket object store
+     * @return array Updated config values
+     */
+    public static function withObjectStore($values, $objectStore, $multibucket) {
+        $values = self::withoutObjectStore($values);
+        $values[$multibucket ? self::KEY_MULTIBUCKET : self::KEY_OBJECTSTORE] = $objectStore;
+        return $values;
+    }
+
+    /**
+     * Remove the objectstore section
+     *
+     * @param array $values Config values
+     * @return array Updated config values
+     */
+    public static function withoutObjectStore($values) {
+        unset($values[self::KEY_OBJECTSTORE], $values[self::KEY_MULTIBUCKET]);
+        return $values;
+    }
+
+    /**
+     * Render config values as Nextcloud writes config.php
+     *
+     * @param array $values Config values
+     * @return string Config file content
+     */
+    public static function render($values) {
+        return "<?php\n\$CONFIG = " . var_export($values, true) . ";\n";
+    }
+
+    /**
+     * Hide passwords, secrets and salts
+     *
+     * @param array $values Config values
+     * @return array Config values safe to show
+     */
+    public static function mask($values) {
+        foreach ($values as $key => $value) {
+            if (is_array($value)) {
+                $values[$key] = self::mask($value);
+            } else if (is_string($key) && preg_match(self::SECRET_PATTERN, $key) && $value !== '') {
+                $values[$key] = self::MASK;
+            }
+        }
+
+        return $values;
+    }
+
+    /**
+     * Describe a change of config.php for review, with secrets hidden
+     *
+     * @param array $current Current config values
+     * @param array $proposed Config values after the change
+     * @return array Config file path, current and proposed content, and whether they differ
+     */
+    public function preview($current, $proposed) {
+        return [
+            'file' => $this->file,
+            'current' => self::render(self::mask($current)),
+            'proposed' => self::render(self::mask($proposed)),
+            'changed' => $current !== $proposed,
+        ];
+    }
+
+    /**
+     * Write config.php, after backing up the current file
+     *
+     * @param array $values Config values
+     * @return string Path of the backup
+     */
+    public function save($values) {
+        $backupFile = $this->backupDir . '/config.php.' . date('Ymd-His') . '.bak';
+        if (!copy($this->file, $backupFile)) {
+            throw new Exception("Nextcloud config file could not be backed up to: $backupFile");
+        }
+        $this->logger->info("Backed up Nextcloud config file to: $backupFile");
+
+        // Written in place so the file keeps its owner and permissions
+        if (file_put_contents($this->file, self::render($values), LOCK_EX) === false) {
+            throw new Exception("Nextcloud config file could not be written: {$this->file}");
+        }
+
+        if (function_exists('opcache_invalidate')) {
+            opcache_invalidate($this->file, true);
+        }
+        $this->logger->info("Updated Nextcloud config file: {$this->file}");
+
+        return $backupFile;
+    }
+}
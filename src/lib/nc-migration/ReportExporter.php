@@ -0,0 +1,384 @@
+<?php
+/**
+ * Run report export for Nextcloud S3 Migration
+ *
+ * Turns a migration job and its files in the ledger's runs table into a
+ * JSON summary, a CSV of every file the run migrated or failed, and a
+ * printable HTML page. The runs table keeps each file's outcome per job, so
+ * a report stays the same when a later run processes its files again.
+ */
+require_once 'MigrationLedger.php';
+require_once 'MigrationManager.php';
+
+class ReportExporter {
+    const FORMAT_JSON = 'json';
+    const FORMAT_CSV = 'csv';
+    const FORMAT_HTML = 'html';
+    const FORMATS = [self::FORMAT_JSON, self::FORMAT_CSV, self::FORMAT_HTML];
+
+    // Verification results of a file, as listed in the CSV
+    const RESULT_VERIFIED = 'verified';
+    const RESULT_MISMATCH = 'mismatch';
+    const RESULT_NOT_VERIFIED = 'not_verified';
+    const RESULT_FAILED = 'failed';
+    const RESULT_INCOMPLETE = 'incomplete';
+
+    const DIRECTION_LABELS = [
+        MigrationManager::DIRECTION_TO_S3 => 'Local storage to S3',
+        MigrationManager::DIRECTION_TO_LOCAL => 'S3 to local storage',
+        MigrationManager::DIRECTION_S3_TO_S3 => 'S3 bucket to S3 bucket',
+    ];
+
+    // What the run did with its files, and how they were checked
+    const TRANSFER_LABELS = [
+        MigrationManager::DIRECTION_TO_S3 => 'uploaded to S3',
+        MigrationManager::DIRECTION_TO_LOCAL => 'downloaded to local storage',
+        MigrationManager::DIRECTION_S3_TO_S3 => 'copied to the target bucket',
+    ];
+    const VERIFICATION_LABELS = [
+        S3Manager::VERIFY_SIZE => 'by size',
+        S3Manager::VERIFY_MD5 => 'by size and, where the object has one, its MD5 checksum',
+        S3Manager::VERIFY_SHA256 => 'by size and, where the object has one, its SHA-256 checksum',
+    ];
+
+    // The bucket and key are those of the object the file was uploaded to,
+    // downloaded from or copied to
+    const CSV_COLUMNS = ['fileid', 'path', 'size', 'bucket', 'object_key', 'state', 'verification', 'error'];
+    const BATCH_SIZE = 1000;
+
+    private $job;
+    private $ledger;
+
+    /**
+     * Initialize the exporter
+     *
+     * @param array $job Job as returned by JobManager::getJob()
+     * @param MigrationLedger $ledger Ledger holding the job's files
+     */
+    public function __construct($job, $ledger) {
+        $this->job = $job;
+        $this->ledger = $ledger;
+    }
+
+    /**
+     * Build the summary of the run
+     *
+     * @return array Run details, counters, phases, failures, checks and verification outcome
+     */
+    public function getSummary() {
+        $job = $this->job;
+        $progress = $job['progress'] ?: [];
+        $result = $job['result'] ?: [];
+        $checkpoint = $job['checkpoint'] ?? null;
+
+        return [
+            'job_id' => $job['id'],
+            'status' => $job['status'],
+            'test_mode' => $this->getTestMode(),
+            'direction' => $job['options']['direction'] ?? MigrationManager::DIRECTION_TO_S3,
+            'created_at' => $job['created_at'],
+            'started_at' => $job['started_at'],
+            'finished_at' => $job['finished_at'],
+            'error' => $job['error'] ?? null,
+            'counters' => [
+                'total' => (int)($progress['total'] ?? 0),
+                'migrated' => (int)($result['files_migrated'] ?? $progress['migrated'] ?? 0),
+                'failed' => (int)($result['files_failed'] ?? $progress['failed'] ?? 0),
+                'bytes' => (int)($result['bytes_transferred'] ?? $progress['bytes'] ?? 0),
+            ],
+            'backup_file' => $result['backup_file'] ?? ($checkpoint['backup_file'] ?? null),
+            'phases' => $result['phases'] ?? ($checkpoint['phases'] ?? []),
+            'failures' => $result['failures'] ?? null,
+            'checks' => $job['checks'] ?? null,
+            'verification' => $this->getVerification(),
+            'config' => $job['config'] ?? null,
+            'generated_at' => date('c'),
+        ];
+    }
+
+    /**
+     * Write the files of the run as CSV
+     *
+     * @param resource $handle Stream to write to
+     */
+    public function writeCsv($handle) {
+        fputcsv($handle, self::CSV_COLUMNS);
+        $defaultBucket = $this->getDefaultBucket();
+        foreach ($this->getFiles() as $row) {
+            fputcsv($handle, [
+                $row['fileid'],
+                $row['path'],
+                $row['size'],
+                $row['bucket'] ?? $defaultBucket,
+                'urn:oid:' . $row['fileid'],
+                $row['state'],
+                self::getVerificationResult($row),
+                $row['error'],
+            ]);
+        }
+    }
+
+    /**
+     * Render the report as a standalone page meant for printing
+     *
+     * @return string HTML document
+     */
+    public function renderHtml() {
+        $summary = $this->getSummary();
+        $h = function ($value) {
+            return htmlspecialchars((string)$value, ENT_QUOTES, 'UTF-8');
+        };
+
+        $rows = function ($pairs) use ($h) {
+            $html = '';
+            foreach ($pairs as $label => $value) {
+                $html .= '<tr><th>' . $h($label) . '</th><td>' . $h($value) . '</td></tr>';
+            }
+            return $html;
+        };
+
+        $counters = $summary['counters'];
+        $html = '<!DOCTYPE html><html><head><meta charset="utf-8">'
+            . '<title>Migration Report ' . $h($summary['job_id']) . '</title>'
+            . '<style>'
+            . 'body{font-family:sans-serif;font-size:13px;margin:2em;color:#111}'
+            . 'h1{font-size:20px}h2{font-size:16px;margin-top:2em;border-bottom:1px solid #ccc}'
+            . 'table{border-collapse:collapse;width:100%;margin-top:.5em}'
+            . 'th,td{text-align:left;padding:4px 8px;border-bottom:1px solid #eee;vertical-align:top}'
+            . 'th{width:30%;font-weight:600}.num{text-align:right}'
+            . '.success{color:#15803d}.warning{color:#a16207}.error{color:#b91c1c}.info{color:#1d4ed8}'
+            . '.verdict{padding:8px;border:1px solid #ccc;margin-top:.5em}'
+            . '@media print{.no-print{display:none}body{margin:0}}'
+            . '</style></head><body>'
+            . '<button class="no-print" onclick="window.print()">Print</button>'
+            . '<h1>Nextcloud S3 Migration Report</h1>'
+            . '<table>' . $rows([
+                'Job' => $summary['job_id'],
+                'Status' => $summary['status'],
+                'Mode' => self::describeTestMode($summary['test_mode']),
+                'Direction' => self::DIRECTION_LABELS[$summary['direction']] ?? $summary['direction'],
+                'Started' => $summary['started_at'] ?: '-',
+                'Finished' => $summary['finished_at'] ?: '-',
+                'Files in scope' => number_format($counters['total']),
+                'Files migrated' => number_format($counters['migrated']),
+                'Files failed' => number_format($counters['failed']),
+                'Data transferred' => self::formatBytes($counters['bytes']),
+                'Database backup' => $summary['backup_file'] ?: 'None',
+                'Report generated' => $summary['generated_at'],
+            ]) . '</table>';
+
+        if ($summary['error']) {
+            $html .= '<p class="error">Error: ' . $h($summary['error']) . '</p>';
+        }
+
+        // Pre-migration checks
+        $html .= '<h2>Pre-Migration Checks</h2>';
+        if (empty($summary['checks']['results']['checks'])) {
+            $html .= '<p>No pre-migration checks were run before this migration.</p>';
+        } else {
+            $html .= '<p>Run at ' . $h($summary['checks']['checked_at']) . '</p><table>';
+            foreach ($summary['checks']['results']['checks'] as $check) {
+                $html .= '<tr><th>' . $h($check['name']) . '</th>'
+                    . '<td class="' . $h($check['status']) . '">' . $h(strtoupper($check['status'])) . '</td>'
+                    . '<td>' . $h($check['message']) . '</td></tr>';
+            }
+            $html .= '</table>';
+        }
+
+        // Phases
+        $html .= '<h2>Phases</h2>';
+        if (empty($summary['phases'])) {
+            $html .= '<p>No phase times were recorded for this run.</p>';
+        } else {
+            $html .= '<table><tr><th>Phase</th><th>Started</th><th>Finished</th></tr>';
+            foreach ($summary['phases'] as $phase => $times) {
+                $html .= '<tr><td>' . $h($phase) . '</td><td>' . $h($times['started_at'])
+                    . '</td><td>' . $h($times['finished_at'] ?: '-') . '</td></tr>';
+            }
+            $html .= '</table>';
+        }
+
+        // Post-migration verification
+        $verification = $summary['verification'];
+        $html .= '<h2>Post-Migration Verification</h2>'
+            . '<div class="verdict ' . ($verification['passed'] ? 'success' : 'error') . '">' . $h($verification['verdict']) . '</div>'
+            . '<table>' . $rows([
+                'Transfer verification' => $verification['enabled']
+                    ? 'Enabled, ' . (self::VERIFICATION_LABELS[$verification['level']] ?? $verification['level'])
+                    : 'Disabled',
+                'Verified' => number_format($verification['counts'][self::RESULT_VERIFIED]),
+                'Size or checksum mismatch' => number_format($verification['counts'][self::RESULT_MISMATCH]),
+                'Not verified' => number_format($verification['counts'][self::RESULT_NOT_VERIFIED]),
+                'Failed' => number_format($verification['counts'][self::RESULT_FAILED]),
+                'Incomplete' => number_format($verification['counts'][self::RESULT_INCOMPLETE]),
+            ]) . '</table>';
+
+        // Failures
+        if (!empty($summary['failures'])) {
+            $html .= '<h2>Failures</h2><table><tr><th>Category</th><th class="num">Files</th><th class="num">Size</th></tr>';
+            foreach ($summary['failures'] as $category => $failure) {
+                $html .= '<tr><td>' . $h($category) . '</td><td class="num">' . number_format($failure['count'])
+                    . '</td><td class="num">' . $h(self::formatBytes($failure['size'])) . '</td></tr>';
+            }
+            $html .= '</table>';
+        }
+
+        // Settings
+        if (!empty($summary['config'])) {
+            $settings = [];
+            ksort($summary['config']);
+            foreach ($summary['config'] as $key => $value) {
+                $settings[$key] = is_string($value) ? $value : json_encode($value);
+            }
+            $html .= '<h2>Settings</h2><table>' . $rows($settings) . '</table>';
+        }
+
+        $html .= '<p>The list of every migrated and failed file is in the CSV export of this run.</p>';
+
+        return $html . '</body></html>';
+    }
+
+    /**
+     * Work out the verification result of a file from its ledger row
+     *
+     * @param array $row Ledger row with 'state' and 'verified'
+     * @return string One of the RESULT_* constants
+     */
+    public static function getVerificationResult($row) {
+        // PostgreSQL booleans come back as PHP booleans or 't'/'f' depending on the driver
+        $verified = $row['verified'] === null ? null : in_array($row['verified'], [true, 't', 1, '1'], true);
+
+        if ($verified === false) {
+            return self::RESULT_MISMATCH;
+        } else if ($row['state'] === MigrationLedger::STATE_FAILED) {
+            return self::RESULT_FAILED;
+        } else if ($verified === true) {
+            return self::RESULT_VERIFIED;
+        } else if ($row['state'] === MigrationLedger::STATE_PENDING) {
+            return self::RESULT_INCOMPLETE;
+        }
+
+        return self::RESULT_NOT_VERIFIED;
+    }
+
+    /**
+     * Count the job's files per verification result and judge the outcome
+     *
+     * @return array 'enabled', 'level', 'counts', 'passed' and a one-line 'verdict'
+     */
+    private function getVerification() {
+        $counts = array_fill_keys([
+            self::RESULT_VERIFIED,
+            self::RESULT_MISMATCH,
+            self::RESULT_NOT_VERIFIED,
+            self::RESULT_FAILED,
+            self::RESULT_INCOMPLETE,
+        ], 0);
+        foreach ($this->ledger->getVerificationSummary($this->job['id']) as $row) {
+            $counts[self::getVerificationResult($row)] += $row['count'];
+        }
+
+        $enabled = !empty($this->job['config']['verify_uploads']);
+        $level = $this->job['config']['verification_level'] ?? S3Manager::VERIFY_SIZE;
+        $direction = $this->job['options']['direction'] ?? MigrationManager::DIRECTION_TO_S3;
+        $transferred = self::TRANSFER_LABELS[$direction] ?? 'transferred';
+        $problems = $counts[self::RESULT_MISMATCH] + $counts[self::RESULT_FAILED] + $counts[self::RESULT_INCOMPLETE];
+        $total = array_sum($counts);
+
+        if ($total === 0) {
+            $verdict = 'The ledger holds no files for this run.';
+        } else if ($problems > 0) {
+            $verdict = number_format($problems) . ' of ' . number_format($total) . " files were not $transferred intact.";
+        } else if (!$enabled) {
+            $verdict = 'All ' . number_format($total) . " files were $transferred; transfer verification was disabled for this run.";
+        } else if ($counts[self::RESULT_NOT_VERIFIED] > 0) {
+            $verdict = 'All ' . number_format($total) . " files were $transferred; "
+                . number_format($counts[self::RESULT_NOT_VERIFIED]) . ' were not verified.';
+        } else {
+            $verdict = 'All ' . number_format($total) . " files were $transferred and verified "
+                . (self::VERIFICATION_LABELS[$level] ?? "at the $level level") . '.';
+        }
+
+        return [
+            'enabled' => $enabled,
+            'level' => $level,
+            'counts' => $counts,
+            'passed' => $total > 0 && $problems === 0,
+            'verdict' => $verdict,
+        ];
+    }
+
+    /**
+     * Iterate over the job's files in batches
+     *
+     * @return Generator Ledger rows
+     */
+    private function getFiles() {
+        $afterFileId = 0;
+        do {
+            $rows = $this->ledger->getJobFiles($this->job['id'], $afterFileId, self::BATCH_SIZE);
+            foreach ($rows as $row) {
+                yield $row;
+                $afterFileId = $row['fileid'];
+            }
+        } while (count($rows) === self::BATCH_SIZE);
+    }
+
+    /**
+     * Get the bucket of files the runs table has no bucket for
+     *
+     * Rows written before the runs table recorded a bucket get the bucket
+     * of the run's settings. On a multibucket object store each user has a
+     * bucket of their own, so there is no single bucket to give them.
+     *
+     * @return string|null Bucket name, or null if it can't be told
+     */
+    private function getDefaultBucket() {
+        $config = $this->job['config'] ?? [];
+        if (($this->job['options']['direction'] ?? null) === MigrationManager::DIRECTION_S3_TO_S3) {
+            return $config['s3_target_bucket'] ?? null;
+        }
+
+        return empty($config['s3_multibucket']) ? ($config['s3_bucket'] ?? null) : null;
+    }
+
+    /**
+     * Get the test mode the run went with
+     *
+     * @return int|string|false Normalized test mode
+     */
+    private function getTestMode() {
+        $testMode = $this->job['options']['test_mode'] ?? ($this->job['config']['test_mode'] ?? false);
+        return MigrationManager::normalizeTestMode($testMode);
+    }
+
+    /**
+     * Describe a test mode for people
+     *
+     * @param int|string|false $testMode Normalized test mode
+     * @return string Description
+     */
+    private static function describeTestMode($testMode) {
+        if ($testMode === false) {
+            return 'Off (production)';
+        } else if ($testMode === 1) {
+            return 'Upload only';
+        } else if ($testMode === 2) {
+            return 'Dry run';
+        }
+
+        return "Single user: $testMode";
+    }
+
+    /**
+     * Format a byte count
+     *
+     * @param int $bytes Bytes
+     * @return string Size with unit
+     */
+    private static function formatBytes($bytes) {
+        $units = ['Bytes', 'KB', 'MB', 'GB', 'TB', 'PB'];
+        $i = $bytes > 0 ? min(count($units) - 1, (int)floor(log($bytes, 1024))) : 0;
+        return round($bytes / pow(1024, $i), 2) . ' ' . $units[$i];
+    }
+}
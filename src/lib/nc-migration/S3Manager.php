@@ -7,18 +7,44 @@
 require_once 'vendor/autoload.php';
 use Aws\S3\S3Client;
 use Aws\S3\MultipartUploader;
+use Aws\S3\ObjectCopier;
 use Aws\Exception\AwsException;
 use Aws\S3\Exception\S3Exception;
+use GuzzleHttp\Promise\Create;
+use GuzzleHttp\Promise\Each;
+use GuzzleHttp\Promise\Utils;
 
 class S3Manager {
     const STORAGE_ID = 2; // Default storage ID for S3 in Nextcloud
     
+    // How transfers are verified: size only, size and MD5 (the ETag of
+    // single-part uploads), or size and SHA-256
+    const VERIFY_SIZE = 'size';
+    const VERIFY_MD5 = 'md5';
+    const VERIFY_SHA256 = 'sha256';
+    const VERIFICATION_LEVELS = [self::VERIFY_SIZE, self::VERIFY_MD5, self::VERIFY_SHA256];
+    
+    // Why a verification failed
+    const MISMATCH_MISSING = 'missing';
+    const MISMATCH_SIZE = 'size';
+    const MISMATCH_CHECKSUM = 'checksum';
+    
+    // Object metadata holding the SHA-256 of uploaded files (x-amz-meta-sha256)
+    const SHA256_METADATA = 'sha256';
+    
+    // Most keys a DeleteObjects request takes
+    const DELETE_BATCH_SIZE = 1000;
+    
     private $s3Client;
     private $bucket;
+    private $endpoint;
+    private $key;
     private $useMultipart;
     private $multipartThreshold;
     private $maxRetries;
+    private $verificationLevel;
     private $logger;
+    private $bucketManagers = [];
     
     /**
      * Initialize the S3 client
@@ -29,9 +55,12 @@ class S3Manager {
     public function __construct($config, $logger) {
         $this->logger = $logger;
         $this->bucket = $config['bucket'];
+        $this->endpoint = $config['endpoint'] ?? null;
+        $this->key = $config['key'];
         $this->useMultipart = $config['use_multipart'] ?? false;
         $this->multipartThreshold = $config['multipart_threshold'] ?? 100; // In MB
         $this->maxRetries = $config['max_retries'] ?? 3;
+        $this->verificationLevel = $config['verification_level'] ?? self::VERIFY_SIZE;
         
         $s3Config = [
             'version' => 'latest',
@@ -73,6 +102,21 @@ class S3Manager {
      * @return array Upload result
      */
     public function uploadFile($localPath, $objectKey, $options = []) {
+        return $this->uploadFileAsync($localPath, $objectKey, $options)->wait();
+    }
+
+    /**
+     * Start uploading a file to S3
+     * 
+     * The returned promise never rejects on S3 errors, it resolves to the
+     * same result array uploadFile() returns.
+     * 
+     * @param string $localPath Local file path
+     * @param string $objectKey S3 object key
+     * @param array $options Additional upload options
+     * @return \GuzzleHttp\Promise\PromiseInterface Promise for the upload result
+     */
+    public function uploadFileAsync($localPath, $objectKey, $options = []) {
         if (!file_exists($localPath)) {
             throw new Exception("Local file not found: $localPath");
         }
@@ -87,40 +131,401 @@ class S3Manager {
             'ACL' => 'private',
         ], $options);
 
-        try {
-            // Use multipart upload for large files
-            if ($this->useMultipart && $fileSize > ($this->multipartThreshold * 1024 * 1024)) {
-                $this->logger->debug("Using multipart upload for large file: $localPath");
-                
-                $uploader = new MultipartUploader($this->s3Client, $localPath, [
-                    'bucket' => $this->bucket,
-                    'key' => $objectKey,
-                    'acl' => 'private',
-                    'before_upload' => function ($command) {
-                        // You can modify the command before each upload if needed
-                    },
-                ]);
+        // Keep the SHA-256 with the object for later verification
+        $sha256 = null;
+        if ($this->verificationLevel === self::VERIFY_SHA256) {
+            $sha256 = hash_file('sha256', $localPath, true);
+            $params['Metadata'] = [self::SHA256_METADATA => bin2hex($sha256)];
+        }
+
+        // Use multipart upload for large files
+        if ($this->useMultipart && $fileSize > ($this->multipartThreshold * 1024 * 1024)) {
+            $this->logger->debug("Using multipart upload for large file: $localPath");
+            
+            $uploaderConfig = [
+                'bucket' => $this->bucket,
+                'key' => $objectKey,
+                'acl' => 'private',
+            ];
+            if ($sha256 !== null) {
+                $uploaderConfig['before_initiate'] = function ($command) use ($params) {
+                    $command['Metadata'] = $params['Metadata'];
+                };
+            }
+            
+            $uploader = new MultipartUploader($this->s3Client, $localPath, $uploaderConfig);
+            $promise = $uploader->promise();
+        } else {
+            // S3 rejects the upload with BadDigest if the body doesn't match
+            if ($sha256 !== null) {
+                $params['ChecksumSHA256'] = base64_encode($sha256);
+            }
+            $promise = $this->s3Client->putObjectAsync($params);
+        }
 
-                $result = $uploader->upload();
+        return $promise->then(
+            function ($result) {
                 return [
                     'success' => true,
                     'url' => $result['ObjectURL'],
                 ];
-            } else {
-                $result = $this->s3Client->putObject($params);
+            },
+            function ($e) use ($localPath) {
+                $this->logger->error("S3 upload failed for file $localPath: " . $e->getMessage());
+                return [
+                    'success' => false,
+                    'error' => $e->getMessage(),
+                    'status_code' => $e instanceof AwsException ? $e->getStatusCode() : null,
+                    'error_code' => $e instanceof AwsException ? $e->getAwsErrorCode() : null,
+                    'file' => $localPath,
+                ];
+            }
+        );
+    }
+
+    /**
+     * Upload many files, running up to $concurrency uploads at the same time
+     * 
+     * Uploads are numbered by worker slot (0 to $concurrency - 1) so callers
+     * can report throughput per worker. Callbacks run in completion order,
+     * the returned results are keyed like $uploads.
+     * 
+     * @param array $uploads Uploads keyed by caller ID, each with 'local_path', 'key' and optional 'bucket' and 'verify'
+     * @param int $concurrency Maximum number of uploads in flight
+     * @param callable|null $onStart Called with (id, slot) when an upload starts
+     * @param callable|null $onComplete Called with (id, result) when an upload (and its verification) finishes
+     * @param callable|null $shouldStop Checked before each upload starts; once it returns true no more are started
+     * @return array Upload results with 'slot', 'seconds' and, when verified, 'verified' and the 'mismatch' if it failed;
+     *               uploads that were never started have none
+     */
+    public function uploadFiles($uploads, $concurrency, $onStart = null, $onComplete = null, $shouldStop = null) {
+        return $this->transferFiles($uploads, $concurrency, function ($upload) {
+            return $this->forTransfer($upload)->uploadFileAsync($upload['local_path'], $upload['key']);
+        }, function ($upload) {
+            return $this->forTransfer($upload)->verifyObjectAsync($upload['key'], $upload['local_path']);
+        }, $onStart, $onComplete, $shouldStop);
+    }
+
+    /**
+     * Download many files, running up to $concurrency downloads at the same time
+     * 
+     * Works like uploadFiles(), with objects saved to 'local_path'.
+     * 
+     * @param array $downloads Downloads keyed by caller ID, each with 'key', 'local_path' and optional 'bucket' and 'verify'
+     * @param int $concurrency Maximum number of downloads in flight
+     * @param callable|null $onStart Called with (id, slot) when a download starts
+     * @param callable|null $onComplete Called with (id, result) when a download (and its verification) finishes
+     * @param callable|null $shouldStop Checked before each download starts; once it returns true no more are started
+     * @return array Download results with 'slot', 'seconds' and, when verified, 'verified'
+     */
+    public function downloadFiles($downloads, $concurrency, $onStart = null, $onComplete = null, $shouldStop = null) {
+        return $this->transferFiles($downloads, $concurrency, function ($download) {
+            return $this->forTransfer($download)->downloadFileAsync($download['key'], $download['local_path']);
+        }, function ($download) {
+            return $this->forTransfer($download)->verifyObjectAsync($download['key'], $download['local_path']);
+        }, $onStart, $onComplete, $shouldStop);
+    }
+
+    /**
+     * Copy many objects to another bucket, running up to $concurrency copies at the same time
+     * 
+     * Works like uploadFiles(), with each object copied under the same key
+     * and verified against the copy in the target bucket.
+     * 
+     * @param array $copies Copies keyed by caller ID, each with 'key' and optional 'verify'
+     * @param S3Manager $target Manager of the bucket to copy to
+     * @param int $concurrency Maximum number of copies in flight
+     * @param callable|null $onStart Called with (id, slot) when a copy starts
+     * @param callable|null $onComplete Called with (id, result) when a copy (and its verification) finishes
+     * @param callable|null $shouldStop Checked before each copy starts; once it returns true no more are started
+     * @return array Copy results with 'slot', 'seconds' and, when verified, 'verified'
+     */
+    public function copyFiles($copies, $target, $concurrency, $onStart = null, $onComplete = null, $shouldStop = null) {
+        return $this->transferFiles($copies, $concurrency, function ($copy) use ($target) {
+            return $this->copyObjectAsync($copy['key'], $target);
+        }, function ($copy) use ($target) {
+            return $this->verifyCopyAsync($copy['key'], $target);
+        }, $onStart, $onComplete, $shouldStop);
+    }
+
+    /**
+     * Start copying an object to the same key in another bucket
+     * 
+     * Buckets reachable with the same endpoint and credentials are copied
+     * server-side; otherwise the object is streamed from this bucket into
+     * the target, as a multipart upload above the multipart threshold. The
+     * returned promise never rejects on S3 errors.
+     * 
+     * @param string $objectKey S3 object key
+     * @param S3Manager $target Manager of the bucket to copy to
+     * @return \GuzzleHttp\Promise\PromiseInterface Promise for the copy result
+     */
+    public function copyObjectAsync($objectKey, $target) {
+        $this->logger->debug("Copying S3 key: $objectKey to bucket: {$target->bucket}");
+
+        if ($this->sharesAccountWith($target)) {
+            $copier = new ObjectCopier(
+                $target->s3Client,
+                ['Bucket' => $this->bucket, 'Key' => $objectKey],
+                ['Bucket' => $target->bucket, 'Key' => $objectKey],
+                'private'
+            );
+            $promise = $copier->promise();
+        } else {
+            $promise = $this->s3Client->getObjectAsync([
+                'Bucket' => $this->bucket,
+                'Key' => $objectKey,
+                '@http' => ['stream' => true],
+            ])->then(function ($result) use ($objectKey, $target) {
+                return $target->uploadStreamAsync($objectKey, $result['Body'], (int)$result['ContentLength'], $result['Metadata'] ?: []);
+            });
+        }
+
+        return $promise->then(
+            function () {
                 return [
                     'success' => true,
-                    'url' => $result['ObjectURL'],
+                ];
+            },
+            function ($e) use ($objectKey) {
+                $this->logger->error("S3 copy failed for key $objectKey: " . $e->getMessage());
+                return [
+                    'success' => false,
+                    'error' => $e->getMessage(),
+                    'status_code' => $e instanceof AwsException ? $e->getStatusCode() : null,
+                    'file' => $objectKey,
                 ];
             }
-        } catch (AwsException $e) {
-            $this->logger->error("S3 upload failed for file $localPath: " . $e->getMessage());
-            return [
-                'success' => false,
-                'error' => $e->getMessage(),
-                'file' => $localPath,
-            ];
+        );
+    }
+
+    /**
+     * Start uploading a stream to S3
+     * 
+     * @param string $objectKey S3 object key
+     * @param \Psr\Http\Message\StreamInterface $body Stream to upload
+     * @param int $size Size of the stream in bytes
+     * @param array $metadata User metadata of the object
+     * @return \GuzzleHttp\Promise\PromiseInterface Promise for the upload, rejected on S3 errors
+     */
+    private function uploadStreamAsync($objectKey, $body, $size, $metadata = []) {
+        if ($this->useMultipart && $size > ($this->multipartThreshold * 1024 * 1024)) {
+            $this->logger->debug("Using multipart upload for large object: $objectKey");
+
+            $uploader = new MultipartUploader($this->s3Client, $body, [
+                'bucket' => $this->bucket,
+                'key' => $objectKey,
+                'acl' => 'private',
+                'before_initiate' => function ($command) use ($metadata) {
+                    $command['Metadata'] = $metadata;
+                },
+            ]);
+            return $uploader->promise();
         }
+
+        return $this->s3Client->putObjectAsync([
+            'Bucket' => $this->bucket,
+            'Key' => $objectKey,
+            'Body' => $body,
+            'ContentLength' => $size,
+            'Metadata' => $metadata,
+            'ACL' => 'private',
+        ]);
+    }
+
+    /**
+     * Whether another bucket is reachable with this manager's endpoint and credentials
+     * 
+     * @param S3Manager $other Manager of the other bucket
+     * @return bool True if objects can be copied between the buckets server-side
+     */
+    public function sharesAccountWith($other) {
+        return $this->endpoint == $other->endpoint && $this->key === $other->key;
+    }
+
+    /**
+     * Get the bucket name
+     * 
+     * @return string Bucket name
+     */
+    public function getBucket() {
+        return $this->bucket;
+    }
+
+    /**
+     * Get a manager for another bucket reachable with this manager's client
+     * 
+     * Used for multibucket object stores, where every bucket shares the
+     * endpoint and credentials.
+     * 
+     * @param string $bucket Bucket name
+     * @return S3Manager Manager of the bucket
+     */
+    public function forBucket($bucket) {
+        if ($bucket === $this->bucket) {
+            return $this;
+        }
+
+        if (!isset($this->bucketManagers[$bucket])) {
+            $manager = clone $this;
+            $manager->bucket = $bucket;
+            $manager->bucketManagers = [];
+            $this->bucketManagers[$bucket] = $manager;
+        }
+
+        return $this->bucketManagers[$bucket];
+    }
+
+    /**
+     * Get the manager of the bucket a transfer goes to
+     * 
+     * @param array $transfer Transfer with an optional 'bucket'
+     * @return S3Manager Manager of the transfer's bucket
+     */
+    private function forTransfer($transfer) {
+        return empty($transfer['bucket']) ? $this : $this->forBucket($transfer['bucket']);
+    }
+
+    /**
+     * Start downloading an object to a local file
+     * 
+     * The object is written next to the target and moved into place once
+     * complete, so an interrupted download never leaves a truncated file.
+     * The returned promise never rejects on S3 errors.
+     * 
+     * @param string $objectKey S3 object key
+     * @param string $localPath Local file path
+     * @return \GuzzleHttp\Promise\PromiseInterface Promise for the download result
+     */
+    public function downloadFileAsync($objectKey, $localPath) {
+        $directory = dirname($localPath);
+        if (!is_dir($directory) && !mkdir($directory, 0750, true) && !is_dir($directory)) {
+            throw new Exception("Directory could not be created: $directory");
+        }
+
+        $this->logger->debug("Downloading S3 key: $objectKey to file: $localPath");
+        $partPath = $localPath . '.part';
+
+        return $this->s3Client->getObjectAsync([
+            'Bucket' => $this->bucket,
+            'Key' => $objectKey,
+            'SaveAs' => $partPath,
+        ])->then(
+            function () use ($partPath, $localPath) {
+                if (!rename($partPath, $localPath)) {
+                    @unlink($partPath);
+                    return [
+                        'success' => false,
+                        'error' => "File could not be written: $localPath",
+                        'status_code' => null,
+                        'file' => $localPath,
+                    ];
+                }
+                return [
+                    'success' => true,
+                ];
+            },
+            function ($e) use ($objectKey, $partPath, $localPath) {
+                @unlink($partPath);
+                $this->logger->error("S3 download failed for key $objectKey: " . $e->getMessage());
+                return [
+                    'success' => false,
+                    'error' => $e->getMessage(),
+                    'status_code' => $e instanceof AwsException ? $e->getStatusCode() : null,
+                    'file' => $localPath,
+                ];
+            }
+        );
+    }
+
+    /**
+     * Run transfers on a pool of $concurrency worker slots
+     * 
+     * @param array $transfers Transfers keyed by caller ID, each with 'key', 'local_path' (except copies) and optional 'verify'
+     * @param int $concurrency Maximum number of transfers in flight
+     * @param callable $start Called with a transfer, returns a promise for its result
+     * @param callable $verify Called with a transfer, returns a promise for its mismatch or null if it matches
+     * @param callable|null $onStart Called with (id, slot) when a transfer starts
+     * @param callable|null $onComplete Called with (id, result) when a transfer (and its verification) finishes
+     * @param callable|null $shouldStop Checked before each transfer starts; once it returns true no more are started
+     * @return array Transfer results keyed like $transfers, without the transfers that were never started
+     */
+    private function transferFiles($transfers, $concurrency, $start, $verify, $onStart, $onComplete, $shouldStop = null) {
+        $concurrency = max(1, (int)$concurrency);
+        $freeSlots = range($concurrency - 1, 0);
+        $results = [];
+
+        $promises = function () use ($transfers, $start, $verify, &$freeSlots, &$results, $onStart, $onComplete, $shouldStop) {
+            foreach ($transfers as $id => $transfer) {
+                // The pool pulls the next transfer as one finishes, so transfers
+                // in flight complete while no new ones start
+                if ($shouldStop && $shouldStop()) {
+                    return;
+                }
+
+                $slot = array_pop($freeSlots);
+                $started = microtime(true);
+                if ($onStart) {
+                    $onStart($id, $slot);
+                }
+
+                try {
+                    $promise = $start($transfer);
+                } catch (Throwable $e) {
+                    $promise = Create::promiseFor([
+                        'success' => false,
+                        'error' => $e->getMessage(),
+                        'status_code' => null,
+                        'file' => $transfer['local_path'] ?? $transfer['key'],
+                    ]);
+                }
+
+                if (!empty($transfer['verify'])) {
+                    $promise = $promise->then(function ($result) use ($transfer, $verify) {
+                        if (!$result['success']) {
+                            return $result;
+                        }
+                        return $verify($transfer)->then(
+                            function ($mismatch) use ($result) {
+                                $result['verified'] = $mismatch === null;
+                                $result['mismatch'] = $mismatch;
+                                return $result;
+                            }
+                        );
+                    });
+                }
+
+                // An error thrown while transferring or comparing one file fails
+                // that file instead of rejecting the whole pool
+                $promise = $promise->otherwise(function ($reason) use ($transfer) {
+                    $file = $transfer['local_path'] ?? $transfer['key'];
+                    $error = $reason instanceof Throwable ? $reason->getMessage() : (string)$reason;
+                    $this->logger->error("Transfer failed for $file: $error");
+                    return [
+                        'success' => false,
+                        'error' => $error,
+                        'status_code' => $reason instanceof AwsException ? $reason->getStatusCode() : null,
+                        'error_code' => $reason instanceof AwsException ? $reason->getAwsErrorCode() : null,
+                        'file' => $file,
+                    ];
+                });
+
+                yield $id => $promise->then(function ($result) use ($id, $slot, $started, &$freeSlots, &$results, $onComplete) {
+                    // Free the slot before the pool pulls the next transfer
+                    $freeSlots[] = $slot;
+                    $result['slot'] = $slot;
+                    $result['seconds'] = microtime(true) - $started;
+                    $results[$id] = $result;
+                    if ($onComplete) {
+                        $onComplete($id, $result);
+                    }
+                });
+            }
+        };
+
+        Each::ofLimit($promises(), $concurrency)->wait();
+
+        return $results;
     }
 
     /**
@@ -152,6 +557,42 @@ class S3Manager {
         }
     }
 
+    /**
+     * Delete many objects, DELETE_BATCH_SIZE keys per DeleteObjects request
+     * 
+     * @param array $objectKeys Object keys to delete
+     * @return array Error messages of the keys that could not be deleted, keyed by key
+     */
+    public function deleteObjects($objectKeys) {
+        $errors = [];
+        foreach (array_chunk($objectKeys, self::DELETE_BATCH_SIZE) as $chunk) {
+            $this->logger->debug("Deleting " . count($chunk) . " S3 objects from bucket: {$this->bucket}");
+            
+            try {
+                $result = $this->s3Client->deleteObjects([
+                    'Bucket' => $this->bucket,
+                    'Delete' => [
+                        'Objects' => array_map(function ($objectKey) {
+                            return ['Key' => $objectKey];
+                        }, $chunk),
+                        'Quiet' => true,
+                    ],
+                ]);
+                
+                foreach ($result['Errors'] ?: [] as $error) {
+                    $errors[$error['Key']] = $error['Message'] ?? $error['Code'];
+                }
+            } catch (AwsException $e) {
+                $this->logger->error("S3 delete objects failed: " . $e->getMessage());
+                foreach ($chunk as $objectKey) {
+                    $errors[$objectKey] = $e->getMessage();
+                }
+            }
+        }
+        
+        return $errors;
+    }
+
     /**
      * Verify an object exists in S3 and matches the local file
      * 
@@ -160,25 +601,167 @@ class S3Manager {
      * @return bool True if the object exists and matches
      */
     public function verifyObject($objectKey, $localPath) {
-        try {
-            $result = $this->s3Client->headObject([
-                'Bucket' => $this->bucket,
-                'Key' => $objectKey,
-            ]);
-            
-            $s3Size = $result['ContentLength'];
-            $localSize = filesize($localPath);
-            
-            if ($s3Size !== $localSize) {
-                $this->logger->warn("Size mismatch for $objectKey: S3=$s3Size, Local=$localSize");
-                return false;
+        return $this->verifyObjectAsync($objectKey, $localPath)->wait() === null;
+    }
+
+    /**
+     * Start verifying an object against the local file
+     * 
+     * Compares the size, then the checksum of the verification level.
+     * 
+     * @param string $objectKey S3 object key
+     * @param string $localPath Local file path
+     * @return \GuzzleHttp\Promise\PromiseInterface Promise for the MISMATCH_* reason, or null if the object matches
+     */
+    public function verifyObjectAsync($objectKey, $localPath) {
+        return $this->headObjectAsync($objectKey)->then(
+            function ($result) use ($objectKey, $localPath) {
+                $s3Size = $result['ContentLength'];
+                $localSize = filesize($localPath);
+                
+                if ($s3Size !== $localSize) {
+                    $this->logger->warn("Size mismatch for $objectKey: S3=$s3Size, Local=$localSize");
+                    return self::MISMATCH_SIZE;
+                }
+                
+                return $this->compareChecksum($objectKey, $result, function ($algorithm) use ($localPath) {
+                    $digest = hash_file($algorithm, $localPath);
+                    if ($digest === false) {
+                        throw new Exception("Failed to read $localPath for its $algorithm checksum");
+                    }
+                    return $digest;
+                });
+            },
+            function ($e) use ($objectKey) {
+                $this->logger->error("S3 verification failed for $objectKey: " . $e->getMessage());
+                return self::MISMATCH_MISSING;
             }
-            
-            return true;
-        } catch (AwsException $e) {
-            $this->logger->error("S3 verification failed for $objectKey: " . $e->getMessage());
-            return false;
+        );
+    }
+
+    /**
+     * Start verifying an object against its copy in another bucket
+     * 
+     * @param string $objectKey S3 object key
+     * @param S3Manager $target Manager of the bucket the object was copied to
+     * @return \GuzzleHttp\Promise\PromiseInterface Promise for the MISMATCH_* reason, or null if the copy matches
+     */
+    public function verifyCopyAsync($objectKey, $target) {
+        return Utils::all([
+            $this->headObjectAsync($objectKey),
+            $target->headObjectAsync($objectKey),
+        ])->then(
+            function ($results) use ($objectKey, $target) {
+                $sourceSize = $results[0]['ContentLength'];
+                $targetSize = $results[1]['ContentLength'];
+                
+                if ($sourceSize !== $targetSize) {
+                    $this->logger->warn("Size mismatch for $objectKey: Source=$sourceSize, Target=$targetSize");
+                    return self::MISMATCH_SIZE;
+                }
+                
+                return $target->compareChecksum($objectKey, $results[1], function ($algorithm) use ($results) {
+                    return $algorithm === 'md5' ? self::getEtagMd5($results[0]) : self::getSha256($results[0]);
+                });
+            },
+            function ($e) use ($objectKey) {
+                $this->logger->error("S3 copy verification failed for $objectKey: " . $e->getMessage());
+                return self::MISMATCH_MISSING;
+            }
+        );
+    }
+
+    /**
+     * Start reading the headers of an object, with its checksums at the SHA-256 level
+     * 
+     * @param string $objectKey S3 object key
+     * @return \GuzzleHttp\Promise\PromiseInterface Promise for the HeadObject result
+     */
+    private function headObjectAsync($objectKey) {
+        $params = [
+            'Bucket' => $this->bucket,
+            'Key' => $objectKey,
+        ];
+        if ($this->verificationLevel === self::VERIFY_SHA256) {
+            $params['ChecksumMode'] = 'ENABLED';
+        }
+        
+        return $this->s3Client->headObjectAsync($params);
+    }
+
+    /**
+     * Compare an object's checksum for the verification level with the expected one
+     * 
+     * Objects without a checksum to compare (multipart uploads at the MD5
+     * level, objects uploaded without a SHA-256) are only compared by size.
+     * 
+     * @param string $objectKey S3 object key
+     * @param \Aws\Result $head HeadObject result of the object
+     * @param callable $expected Called with 'md5' or 'sha256', returns the expected hex digest or null if unknown
+     * @return string|null MISMATCH_CHECKSUM, or null if the checksum matches or can't be compared
+     */
+    private function compareChecksum($objectKey, $head, $expected) {
+        if ($this->verificationLevel === self::VERIFY_MD5) {
+            $algorithm = 'md5';
+            $actual = self::getEtagMd5($head);
+        } else if ($this->verificationLevel === self::VERIFY_SHA256) {
+            $algorithm = 'sha256';
+            $actual = self::getSha256($head);
+        } else {
+            return null;
+        }
+        
+        if ($actual === null) {
+            $this->logger->debug("No $algorithm checksum to compare for $objectKey, compared by size only");
+            return null;
+        }
+        
+        $expectedDigest = $expected($algorithm);
+        if ($expectedDigest === null) {
+            $this->logger->debug("No expected $algorithm checksum for $objectKey, compared by size only");
+            return null;
+        }
+        
+        if (strtolower($expectedDigest) !== $actual) {
+            $this->logger->warn("Checksum mismatch for $objectKey: S3 $algorithm=$actual, expected $expectedDigest");
+            return self::MISMATCH_CHECKSUM;
+        }
+        
+        return null;
+    }
+
+    /**
+     * Get the MD5 of an object from its ETag
+     * 
+     * @param \Aws\Result $head HeadObject result
+     * @return string|null Hex MD5, or null for multipart uploads whose ETag isn't one
+     */
+    private static function getEtagMd5($head) {
+        $etag = strtolower(trim($head['ETag'] ?? '', '"'));
+        return preg_match('/^[0-9a-f]{32}$/', $etag) ? $etag : null;
+    }
+
+    /**
+     * Get the SHA-256 of an object
+     * 
+     * Prefers the checksum S3 computed itself over the metadata written
+     * at upload; composite checksums of multipart uploads are skipped.
+     * 
+     * @param \Aws\Result $head HeadObject result
+     * @return string|null Hex SHA-256, or null if the object has none
+     */
+    private static function getSha256($head) {
+        $checksum = $head['ChecksumSHA256'] ?? null;
+        if ($checksum && strpos($checksum, '-') === false) {
+            return bin2hex(base64_decode($checksum));
+        }
+        
+        $metadata = $head['Metadata'] ?? [];
+        if (!empty($metadata[self::SHA256_METADATA])) {
+            return strtolower($metadata[self::SHA256_METADATA]);
         }
+        
+        return null;
     }
 
     /**
@@ -215,7 +798,39 @@ class S3Manager {
             throw new Exception("S3 list objects failed: " . $e->getMessage());
         }
     }
-    
+
+    /**
+     * Iterate over every object in the bucket, a page of listObjects at a time
+     *
+     * Objects come in byte order of their keys.
+     *
+     * @param string $prefix Prefix filter
+     * @return Generator Objects with their 'key', 'size' and 'lastModified'
+     */
+    public function iterateObjects($prefix = '') {
+        $this->logger->debug("Iterating S3 objects with prefix: $prefix");
+
+        try {
+            $pages = $this->s3Client->getPaginator('ListObjects', [
+                'Bucket' => $this->bucket,
+                'Prefix' => $prefix,
+            ]);
+
+            foreach ($pages as $page) {
+                foreach ($page['Contents'] ?: [] as $object) {
+                    yield [
+                        'key' => $object['Key'],
+                        'size' => $object['Size'],
+                        'lastModified' => $object['LastModified'],
+                    ];
+                }
+            }
+        } catch (AwsException $e) {
+            $this->logger->error("S3 list objects failed: " . $e->getMessage());
+            throw new Exception("S3 list objects failed: " . $e->getMessage());
+        }
+    }
+
     /**
      * Test the S3 connection
      * 
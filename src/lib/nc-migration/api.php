@@ -6,10 +6,13 @@ header('Content-Type: application/json');
 
 require_once 'config.php';
 require_once 'MigrationManager.php';
+require_once 'JobManager.php';
 require_once 'Logger.php';
+require_once 'ReportExporter.php';
+require_once 'MaintenanceMode.php';
 
 // Initialize logger
-$logger = new Logger(LOG_FILE, LOG_LEVEL);
+$logger = Logger::fromConfig(getConfig());
 
 // Get action parameter
 $action = isset($_GET['action']) ? $_GET['action'] : '';
@@ -23,6 +26,7 @@ try {
             // Remove sensitive information
             unset($config['db_password']);
             unset($config['s3_secret']);
+            unset($config['s3_target_secret']);
             echo json_encode([
                 'success' => true,
                 'config' => $config
@@ -39,7 +43,7 @@ try {
             // Validate required fields
             $required = [
                 'db_host', 'db_port', 'db_name', 'db_user', 'db_password',
-                'nextcloud_dir', 'data_directory', 'backup_directory',
+                'nextcloud_dir', 'data_directory', 'backup_directory', 'jobs_directory',
                 's3_bucket', 's3_region', 's3_key', 's3_secret'
             ];
             
@@ -49,6 +53,26 @@ try {
                 }
             }
             
+            // A target bucket needs its own credentials
+            if (!empty($data['s3_target_bucket'])) {
+                foreach (['s3_target_region', 's3_target_key', 's3_target_secret'] as $field) {
+                    if (empty($data[$field])) {
+                        throw new Exception("Missing required field: $field");
+                    }
+                }
+            }
+            
+            $orders = array_merge(array_keys(MigrationManager::ORDER_KEYS), [MigrationManager::ORDER_ROUND_ROBIN]);
+            $order = $data['migration_order'] ?? MigrationManager::ORDER_FILEID;
+            if (!in_array($order, $orders, true)) {
+                throw new Exception("Unknown migration order: $order");
+            }
+            
+            $verificationLevel = $data['verification_level'] ?? S3Manager::VERIFY_SIZE;
+            if (!in_array($verificationLevel, S3Manager::VERIFICATION_LEVELS, true)) {
+                throw new Exception("Unknown verification level: $verificationLevel");
+            }
+            
             // Update config file
             $configContent = "<?php\n/**\n * Configuration for Nextcloud S3 Migration\n */\n\n";
             
@@ -64,7 +88,8 @@ try {
             $configContent .= "// Nextcloud configuration\n";
             $configContent .= "define('NEXTCLOUD_DIR', '{$data['nextcloud_dir']}');\n";
             $configContent .= "define('DATA_DIR', '{$data['data_directory']}');\n";
-            $configContent .= "define('BACKUP_DIR', '{$data['backup_directory']}');\n\n";
+            $configContent .= "define('BACKUP_DIR', '{$data['backup_directory']}');\n";
+            $configContent .= "define('JOBS_DIR', " . var_export((string)$data['jobs_directory'], true) . ");\n\n";
             
             // S3 configuration
             $configContent .= "// S3 configuration\n";
@@ -75,18 +100,37 @@ try {
             $configContent .= "define('S3_SECRET', '{$data['s3_secret']}');\n";
             $configContent .= "define('S3_USE_PATH_STYLE', " . ($data['s3_use_path_style'] ? 'true' : 'false') . ");\n";
             $configContent .= "define('S3_USE_MULTIPART', " . ($data['s3_use_multipart'] ? 'true' : 'false') . ");\n";
-            $configContent .= "define('S3_MULTIPART_THRESHOLD', {$data['s3_multipart_threshold']});\n\n";
+            $configContent .= "define('S3_MULTIPART_THRESHOLD', {$data['s3_multipart_threshold']});\n";
+            $configContent .= "define('S3_MULTIBUCKET', " . (!empty($data['s3_multibucket']) ? 'true' : 'false') . ");\n";
+            $configContent .= "define('S3_MULTIBUCKET_COUNT', " . max(1, (int)($data['s3_multibucket_count'] ?? 64)) . ");\n\n";
+            
+            // Target S3 configuration
+            $configContent .= "// Target S3 configuration for bucket-to-bucket migrations (leave the bucket empty to disable)\n";
+            $configContent .= "define('S3_TARGET_BUCKET', " . var_export((string)($data['s3_target_bucket'] ?? ''), true) . ");\n";
+            $configContent .= "define('S3_TARGET_REGION', " . var_export((string)($data['s3_target_region'] ?? ''), true) . ");\n";
+            $configContent .= "define('S3_TARGET_ENDPOINT', " . var_export((string)($data['s3_target_endpoint'] ?? ''), true) . ");\n";
+            $configContent .= "define('S3_TARGET_KEY', " . var_export((string)($data['s3_target_key'] ?? ''), true) . ");\n";
+            $configContent .= "define('S3_TARGET_SECRET', " . var_export((string)($data['s3_target_secret'] ?? ''), true) . ");\n";
+            $configContent .= "define('S3_TARGET_USE_PATH_STYLE', " . (!empty($data['s3_target_use_path_style']) ? 'true' : 'false') . ");\n\n";
             
             // Migration options
             $configContent .= "// Migration options\n";
-            $configContent .= "define('TEST_MODE', " . ($data['test_mode'] ? 'true' : 'false') . ");\n";
+            $configContent .= "define('TEST_MODE', " . var_export(MigrationManager::normalizeTestMode($data['test_mode']), true) . ");\n";
             $configContent .= "define('BATCH_SIZE', {$data['batch_size']});\n";
+            $configContent .= "define('UPLOAD_CONCURRENCY', " . max(1, (int)$data['upload_concurrency']) . ");\n";
+            $configContent .= "define('MIGRATION_ORDER', '$order');\n";
             $configContent .= "define('ENABLE_MAINTENANCE', " . ($data['enable_maintenance'] ? 'true' : 'false') . ");\n";
             $configContent .= "define('VERIFY_UPLOADS', " . ($data['verify_uploads'] ? 'true' : 'false') . ");\n";
+            $configContent .= "define('VERIFICATION_LEVEL', '$verificationLevel');\n";
             $configContent .= "define('DELETE_MISSING_FILES', " . ($data['delete_missing_files'] ? 'true' : 'false') . ");\n";
+            $configContent .= "define('UPDATE_NEXTCLOUD_CONFIG', " . (!empty($data['update_nextcloud_config']) ? 'true' : 'false') . ");\n";
             $configContent .= "define('PREVIEW_MAX_AGE', {$data['preview_max_age']});\n";
+            $configContent .= "define('MIGRATION_RULES', " . var_export(MigrationRules::normalize($data['rules'] ?? []), true) . ");\n";
             $configContent .= "define('LOG_LEVEL', {$data['log_level']});\n";
-            $configContent .= "define('LOG_FILE', '{$data['log_file']}');\n\n";
+            $configContent .= "define('LOG_FILE', " . var_export((string)$data['log_file'], true) . ");\n";
+            $configContent .= "define('LOG_FORMAT', '" . ($data['log_format'] === Logger::FORMAT_JSON ? Logger::FORMAT_JSON : Logger::FORMAT_TEXT) . "');\n";
+            $configContent .= "define('LOG_MAX_SIZE', " . max(0, (int)$data['log_max_size']) . ");\n";
+            $configContent .= "define('LOG_MAX_FILES', " . max(1, (int)$data['log_max_files']) . ");\n\n";
             
             // Add getConfig function
             $configContent .= "// Get configuration as array\n";
@@ -101,7 +145,8 @@ try {
             $configContent .= "        // Nextcloud configuration\n";
             $configContent .= "        'nextcloud_dir' => NEXTCLOUD_DIR,\n";
             $configContent .= "        'data_directory' => DATA_DIR,\n";
-            $configContent .= "        'backup_directory' => BACKUP_DIR,\n\n";
+            $configContent .= "        'backup_directory' => BACKUP_DIR,\n";
+            $configContent .= "        'jobs_directory' => JOBS_DIR,\n\n";
             $configContent .= "        // S3 configuration\n";
             $configContent .= "        's3_bucket' => S3_BUCKET,\n";
             $configContent .= "        's3_region' => S3_REGION,\n";
@@ -110,14 +155,34 @@ try {
             $configContent .= "        's3_secret' => S3_SECRET,\n";
             $configContent .= "        's3_use_path_style' => S3_USE_PATH_STYLE,\n";
             $configContent .= "        's3_use_multipart' => S3_USE_MULTIPART,\n";
-            $configContent .= "        's3_multipart_threshold' => S3_MULTIPART_THRESHOLD,\n\n";
+            $configContent .= "        's3_multipart_threshold' => S3_MULTIPART_THRESHOLD,\n";
+            $configContent .= "        's3_multibucket' => S3_MULTIBUCKET,\n";
+            $configContent .= "        's3_multibucket_count' => S3_MULTIBUCKET_COUNT,\n\n";
+            $configContent .= "        // Target S3 configuration\n";
+            $configContent .= "        's3_target_bucket' => S3_TARGET_BUCKET,\n";
+            $configContent .= "        's3_target_region' => S3_TARGET_REGION,\n";
+            $configContent .= "        's3_target_endpoint' => S3_TARGET_ENDPOINT,\n";
+            $configContent .= "        's3_target_key' => S3_TARGET_KEY,\n";
+            $configContent .= "        's3_target_secret' => S3_TARGET_SECRET,\n";
+            $configContent .= "        's3_target_use_path_style' => S3_TARGET_USE_PATH_STYLE,\n\n";
             $configContent .= "        // Migration options\n";
             $configContent .= "        'test_mode' => TEST_MODE,\n";
             $configContent .= "        'batch_size' => BATCH_SIZE,\n";
+            $configContent .= "        'upload_concurrency' => UPLOAD_CONCURRENCY,\n";
+            $configContent .= "        'migration_order' => MIGRATION_ORDER,\n";
             $configContent .= "        'enable_maintenance' => ENABLE_MAINTENANCE,\n";
             $configContent .= "        'verify_uploads' => VERIFY_UPLOADS,\n";
+            $configContent .= "        'verification_level' => VERIFICATION_LEVEL,\n";
             $configContent .= "        'delete_missing_files' => DELETE_MISSING_FILES,\n";
+            $configContent .= "        'update_nextcloud_config' => UPDATE_NEXTCLOUD_CONFIG,\n";
             $configContent .= "        'preview_max_age' => PREVIEW_MAX_AGE,\n";
+            $configContent .= "        'rules' => MIGRATION_RULES,\n\n";
+            $configContent .= "        // Logging\n";
+            $configContent .= "        'log_level' => LOG_LEVEL,\n";
+            $configContent .= "        'log_file' => LOG_FILE,\n";
+            $configContent .= "        'log_format' => LOG_FORMAT,\n";
+            $configContent .= "        'log_max_size' => LOG_MAX_SIZE,\n";
+            $configContent .= "        'log_max_files' => LOG_MAX_FILES,\n";
             $configContent .= "    ];\n";
             $configContent .= "}\n";
             
@@ -136,6 +201,10 @@ try {
             $migrationManager = new MigrationManager($config, $logger);
             $results = $migrationManager->runPreMigrationChecks();
             
+            // Kept for the report of the next run
+            $jobManager = new JobManager($config['jobs_directory'], $logger);
+            $jobManager->saveCheckResults($results);
+            
             echo json_encode([
                 'success' => true,
                 'results' => $results
@@ -143,58 +212,447 @@ try {
             break;
             
         case 'startMigration':
-            // Start migration process
+            // Queue a migration job and hand it to a detached worker
             $data = json_decode(file_get_contents('php://input'), true);
             $config = getConfig();
+            $jobManager = new JobManager($config['jobs_directory'], $logger);
+            
+            // An audit would see files and objects move under it
+            foreach (['migration', 'audit'] as $type) {
+                $activeJob = $jobManager->getActiveJob($type);
+                if ($activeJob) {
+                    throw new Exception("A $type job is already running: {$activeJob['id']}");
+                }
+            }
+            
+            $options = [];
             
             // Override test mode if provided
             if (isset($data['test_mode'])) {
-                $config['test_mode'] = $data['test_mode'];
-            }
-            
-            session_start();
-            $_SESSION['migration_running'] = true;
-            $_SESSION['migration_progress'] = [
-                'total' => 0,
-                'migrated' => 0,
-                'failed' => 0,
-                'bytes' => 0,
-                'current_file' => '',
-                'status' => 'running'
-            ];
-            session_write_close();
+                $options['test_mode'] = MigrationManager::normalizeTestMode($data['test_mode']);
+            }
+            
+            // Migrate back from S3 to local storage
+            if (!empty($data['direction'])) {
+                if (!in_array($data['direction'], MigrationManager::DIRECTIONS, true)) {
+                    throw new Exception("Invalid migration direction: {$data['direction']}");
+                }
+                $options['direction'] = $data['direction'];
+            }
+            
+            // Limit the migration to a selection of users
+            if (!empty($data['users']) && is_array($data['users'])) {
+                $options['users'] = array_values(array_map('strval', $data['users']));
+            }
+            
+            $job = $jobManager->createJob('migration', $options);
+            $jobManager->startWorker($job['id']);
+            
+            echo json_encode([
+                'success' => true,
+                'message' => 'Migration started',
+                'job' => $jobManager->getJob($job['id'])
+            ]);
+            break;
             
-            // Start migration in background
+        case 'listUsers':
+            // List the users with a home storage to migrate from and what they have to migrate
+            $config = getConfig();
+            if (!empty($_GET['direction'])) {
+                $config['direction'] = $_GET['direction'];
+            }
             $migrationManager = new MigrationManager($config, $logger);
-            $migrationManager->startMigration(function($progress) {
-                session_start();
-                $_SESSION['migration_progress'] = $progress;
-                $_SESSION['migration_progress']['status'] = 'running';
-                session_write_close();
-            });
+            $users = $migrationManager->listUsers();
+            $migrationManager->close();
+            
+            echo json_encode([
+                'success' => true,
+                'users' => $users
+            ]);
+            break;
+            
+        case 'previewNextcloudConfig':
+            // Show how a migration in the given direction changes Nextcloud's config.php
+            $config = getConfig();
+            if (!empty($_GET['direction'])) {
+                $config['direction'] = $_GET['direction'];
+            }
+            $migrationManager = new MigrationManager($config, $logger);
+            $preview = $migrationManager->previewNextcloudConfig();
+            $migrationManager->close();
+            
+            echo json_encode([
+                'success' => true,
+                'preview' => $preview
+            ]);
+            break;
+            
+        case 'planMigration':
+            // Build a migration plan and duration estimate without changing anything
+            $data = json_decode(file_get_contents('php://input'), true) ?: [];
+            $config = getConfig();
+            
+            // Walking every file can take a while on large instances
+            set_time_limit(0);
+            
+            if (!empty($data['throughput_mbps'])) {
+                $throughput = [
+                    'source' => 'configured',
+                    'bytes_per_second' => (float)$data['throughput_mbps'] * 1024 * 1024,
+                ];
+            } else {
+                $jobManager = new JobManager($config['jobs_directory'], $logger);
+                $throughput = $jobManager->getMeasuredThroughput();
+                if ($throughput) {
+                    $throughput['source'] = 'measured';
+                }
+            }
+            
+            $migrationManager = new MigrationManager($config, $logger);
+            $plan = $migrationManager->planMigration($throughput, !isset($data['check_disk']) || $data['check_disk']);
+            $migrationManager->close();
+            
+            echo json_encode([
+                'success' => true,
+                'plan' => $plan
+            ]);
+            break;
+            
+        case 'listJobs':
+            // List persisted jobs, newest first
+            $config = getConfig();
+            $jobManager = new JobManager($config['jobs_directory'], $logger);
+            $type = isset($_GET['type']) ? $_GET['type'] : null;
+            
+            echo json_encode([
+                'success' => true,
+                'jobs' => $jobManager->listJobs($type)
+            ]);
+            break;
+            
+        case 'getJob':
+            // Get the persisted state of a single job
+            $config = getConfig();
+            $jobManager = new JobManager($config['jobs_directory'], $logger);
+            $job = $jobManager->getJob(isset($_GET['job_id']) ? $_GET['job_id'] : '');
+            if (!$job) {
+                throw new Exception('Job not found');
+            }
+            
+            echo json_encode([
+                'success' => true,
+                'job' => $job
+            ]);
+            break;
+            
+        case 'getLogs':
+            // Read new lines of a job's log, waiting for some while the job runs
+            $config = getConfig();
+            $jobManager = new JobManager($config['jobs_directory'], $logger);
+            $jobId = isset($_GET['job_id']) ? $_GET['job_id'] : '';
+            $job = $jobManager->getJob($jobId);
+            if (!$job) {
+                throw new Exception('Job not found');
+            }
+            
+            $logFile = $jobManager->getLogFile($jobId);
+            $offset = isset($_GET['offset']) ? max(0, (int)$_GET['offset']) : null;
+            $wait = isset($_GET['wait']) ? min(max(0, (int)$_GET['wait']), 25) : 0;
+            set_time_limit($wait + 30);
+            
+            $deadline = time() + $wait;
+            while (true) {
+                $chunk = Logger::readLines($logFile, $offset);
+                $active = $jobManager->isActive($job);
+                if ($chunk['lines'] || !$active || time() >= $deadline) {
+                    break;
+                }
+                
+                usleep(500000);
+                $job = $jobManager->getJob($jobId);
+            }
+            
+            echo json_encode(array_merge(['success' => true, 'active' => $active], $chunk));
+            break;
+            
+        case 'downloadLog':
+            // Send a job's complete log file
+            $config = getConfig();
+            $jobManager = new JobManager($config['jobs_directory'], $logger);
+            $jobId = isset($_GET['job_id']) ? $_GET['job_id'] : '';
+            if (!$jobManager->getJob($jobId)) {
+                throw new Exception('Job not found');
+            }
+            
+            $logFile = $jobManager->getLogFile($jobId);
+            if (!file_exists($logFile)) {
+                throw new Exception('No log was recorded for this job');
+            }
+            
+            header('Content-Type: text/plain');
+            header('Content-Disposition: attachment; filename="migration-' . $jobId . '.log"');
+            header('Content-Length: ' . filesize($logFile));
+            readfile($logFile);
+            break;
+            
+        case 'exportRun':
+            // Export a run's report as a JSON summary, a CSV of its files or a printable page
+            $config = getConfig();
+            $jobManager = new JobManager($config['jobs_directory'], $logger);
+            $jobId = isset($_GET['job_id']) ? $_GET['job_id'] : '';
+            $job = $jobManager->getJob($jobId);
+            if (!$job) {
+                throw new Exception('Job not found');
+            }
+            
+            $format = isset($_GET['format']) ? $_GET['format'] : ReportExporter::FORMAT_JSON;
+            if (!in_array($format, ReportExporter::FORMATS, true)) {
+                throw new Exception("Invalid export format: $format");
+            }
+            
+            $db = new DatabaseManager(
+                $config['db_host'],
+                $config['db_port'],
+                $config['db_name'],
+                $config['db_user'],
+                $config['db_password'],
+                $logger
+            );
+            $ledger = new MigrationLedger($db, $logger);
+            $ledger->ensureTable();
+            $exporter = new ReportExporter($job, $ledger);
+            
+            if ($format === ReportExporter::FORMAT_CSV) {
+                set_time_limit(0);
+                header('Content-Type: text/csv');
+                header('Content-Disposition: attachment; filename="migration-' . $jobId . '-files.csv"');
+                $exporter->writeCsv(fopen('php://output', 'w'));
+            } else if ($format === ReportExporter::FORMAT_HTML) {
+                header('Content-Type: text/html; charset=utf-8');
+                echo $exporter->renderHtml();
+            } else {
+                header('Content-Disposition: attachment; filename="migration-' . $jobId . '.json"');
+                echo json_encode($exporter->getSummary(), JSON_PRETTY_PRINT);
+            }
+            $db->close();
+            break;
+            
+        case 'pauseJob':
+        case 'resumeJob':
+        case 'cancelJob':
+            // Forward a control command to the job's worker
+            $commands = [
+                'pauseJob' => MigrationManager::CONTROL_PAUSE,
+                'resumeJob' => MigrationManager::CONTROL_RESUME,
+                'cancelJob' => MigrationManager::CONTROL_CANCEL,
+            ];
+            $config = getConfig();
+            $jobManager = new JobManager($config['jobs_directory'], $logger);
+            $job = $jobManager->requestControl(isset($_GET['job_id']) ? $_GET['job_id'] : '', $commands[$action]);
+            
+            echo json_encode([
+                'success' => true,
+                'job' => $job
+            ]);
+            break;
+            
+        case 'resumeInterruptedJob':
+            // Relaunch an interrupted job from its last checkpoint
+            $config = getConfig();
+            $jobManager = new JobManager($config['jobs_directory'], $logger);
+            
+            // An audit would see files and objects move under it
+            foreach (['migration', 'audit'] as $type) {
+                $activeJob = $jobManager->getActiveJob($type);
+                if ($activeJob) {
+                    throw new Exception("A $type job is already running: {$activeJob['id']}");
+                }
+            }
+            
+            $job = $jobManager->resumeJob(isset($_GET['job_id']) ? $_GET['job_id'] : '');
+            
+            echo json_encode([
+                'success' => true,
+                'job' => $job
+            ]);
+            break;
             
-            // Update status to complete
-            session_start();
-            $_SESSION['migration_progress']['status'] = 'complete';
-            $_SESSION['migration_running'] = false;
-            session_write_close();
+        case 'getLedger':
+            // Search the per-file migration ledger
+            $config = getConfig();
+            $db = new DatabaseManager(
+                $config['db_host'],
+                $config['db_port'],
+                $config['db_name'],
+                $config['db_user'],
+                $config['db_password'],
+                $logger
+            );
+            $ledger = new MigrationLedger($db, $logger);
+            $ledger->ensureTable();
+            
+            $page = isset($_GET['page']) ? max(1, (int)$_GET['page']) : 1;
+            $perPage = isset($_GET['per_page']) ? min(500, max(1, (int)$_GET['per_page'])) : 50;
+            $results = $ledger->search([
+                'search' => isset($_GET['search']) ? trim($_GET['search']) : '',
+                'state' => isset($_GET['state']) ? $_GET['state'] : '',
+                'job_id' => isset($_GET['job_id']) ? $_GET['job_id'] : '',
+            ], $page, $perPage);
+            $db->close();
             
             echo json_encode([
                 'success' => true,
-                'message' => 'Migration started'
+                'results' => array_merge($results, [
+                    'page' => $page,
+                    'per_page' => $perPage,
+                ])
+            ]);
+            break;
+            
+        case 'getFailures':
+            // List failed files from the ledger, grouped by error category
+            $config = getConfig();
+            $db = new DatabaseManager(
+                $config['db_host'],
+                $config['db_port'],
+                $config['db_name'],
+                $config['db_user'],
+                $config['db_password'],
+                $logger
+            );
+            $ledger = new MigrationLedger($db, $logger);
+            $ledger->ensureTable();
+            $jobManager = new JobManager($config['jobs_directory'], $logger);
+            $ledger->backfillDirections($jobManager->getMigrationDirections());
+            $results = $ledger->getFailures();
+            $db->close();
+            
+            echo json_encode([
+                'success' => true,
+                'results' => $results
+            ]);
+            break;
+            
+        case 'finishCutover':
+            // Queue a job that switches the storages of files transferred by runs limited by rules
+            $data = json_decode(file_get_contents('php://input'), true) ?: [];
+            $config = getConfig();
+            $jobManager = new JobManager($config['jobs_directory'], $logger);
+            
+            // An audit would see files and objects move under it
+            foreach (['migration', 'audit'] as $type) {
+                $activeJob = $jobManager->getActiveJob($type);
+                if ($activeJob) {
+                    throw new Exception("A $type job is already running: {$activeJob['id']}");
+                }
+            }
+            
+            if (MigrationManager::normalizeTestMode($config['test_mode'])) {
+                throw new Exception('The cutover changes the database, turn test mode off to finish it');
+            }
+            
+            $options = ['cutover' => true];
+            if (!empty($data['direction'])) {
+                if (!in_array($data['direction'], MigrationManager::DIRECTIONS, true)) {
+                    throw new Exception("Invalid migration direction: {$data['direction']}");
+                }
+                $options['direction'] = $data['direction'];
+            }
+            
+            $job = $jobManager->createJob('migration', $options);
+            $jobManager->startWorker($job['id']);
+            
+            echo json_encode([
+                'success' => true,
+                'message' => 'Cutover started',
+                'job' => $jobManager->getJob($job['id'])
+            ]);
+            break;
+            
+        case 'retryFailed':
+            // Queue a migration job that only retries failed files
+            $data = json_decode(file_get_contents('php://input'), true);
+            $config = getConfig();
+            $jobManager = new JobManager($config['jobs_directory'], $logger);
+            
+            // An audit would see files and objects move under it
+            foreach (['migration', 'audit'] as $type) {
+                $activeJob = $jobManager->getActiveJob($type);
+                if ($activeJob) {
+                    throw new Exception("A $type job is already running: {$activeJob['id']}");
+                }
+            }
+            
+            $options = [];
+            if (!empty($data['fileids']) && is_array($data['fileids'])) {
+                $options['retry_fileids'] = array_values(array_map('intval', $data['fileids']));
+            } else if (!empty($data['all'])) {
+                $options['retry_failed'] = true;
+            } else {
+                throw new Exception('No files selected to retry');
+            }
+            
+            // Failed files are retried in the direction of the run they failed in
+            $db = new DatabaseManager(
+                $config['db_host'],
+                $config['db_port'],
+                $config['db_name'],
+                $config['db_user'],
+                $config['db_password'],
+                $logger
+            );
+            $ledger = new MigrationLedger($db, $logger);
+            $ledger->ensureTable();
+            $ledger->backfillDirections($jobManager->getMigrationDirections());
+            $directions = $ledger->countFailuresByDirection($options['retry_fileids'] ?? null);
+            $db->close();
+            
+            // A run only goes one way, so failures of several directions are
+            // retried one direction at a time
+            if (!empty($data['direction'])) {
+                if (!isset($directions[$data['direction']])) {
+                    throw new Exception("No failed files to retry in direction {$data['direction']}");
+                }
+                $direction = $data['direction'];
+            } else if (count($directions) > 1) {
+                $counts = [];
+                foreach ($directions as $direction => $count) {
+                    $counts[] = "$count $direction";
+                }
+                throw new Exception('The files failed in runs of different directions (' . implode(', ', $counts) . '), retry one direction at a time');
+            } else if ($directions) {
+                $direction = array_key_first($directions);
+            } else {
+                throw new Exception('No failed files to retry');
+            }
+            if ($direction !== MigrationManager::DIRECTION_TO_S3) {
+                $options['direction'] = $direction;
+            }
+            
+            $job = $jobManager->createJob('migration', $options);
+            $jobManager->startWorker($job['id']);
+            
+            echo json_encode([
+                'success' => true,
+                'message' => 'Retry started',
+                'job' => $jobManager->getJob($job['id'])
             ]);
             break;
             
         case 'getMigrationStatus':
-            // Get migration status
-            session_start();
-            $progress = isset($_SESSION['migration_progress']) ? $_SESSION['migration_progress'] : null;
-            $running = isset($_SESSION['migration_running']) ? $_SESSION['migration_running'] : false;
-            session_write_close();
+            // Get the status of the most recent migration job
+            $config = getConfig();
+            $jobManager = new JobManager($config['jobs_directory'], $logger);
+            $jobs = $jobManager->listJobs('migration');
+            $job = empty($jobs) ? null : $jobs[0];
+            $progress = null;
+            if ($job && $job['progress']) {
+                $progress = array_merge($job['progress'], ['status' => $job['status']]);
+            }
             
             echo json_encode([
                 'success' => true,
-                'running' => $running,
+                'running' => $job ? $jobManager->isActive($job) : false,
                 'progress' => $progress
             ]);
             break;
@@ -217,6 +675,93 @@ try {
             ]);
             break;
             
+        case 'startAudit':
+            // Queue an integrity audit of the object storage against its buckets
+            $data = json_decode(file_get_contents('php://input'), true) ?: [];
+            $config = getConfig();
+            $jobManager = new JobManager($config['jobs_directory'], $logger);
+            
+            // Files and objects move while a migration runs
+            foreach (['migration', 'audit'] as $type) {
+                $activeJob = $jobManager->getActiveJob($type);
+                if ($activeJob) {
+                    throw new Exception("A $type job is already running: {$activeJob['id']}");
+                }
+            }
+            
+            $options = [];
+            
+            // Delete the orphaned objects, or only preview what would be deleted
+            if (!empty($data['cleanup']) && is_array($data['cleanup'])) {
+                $minAgeHours = $data['cleanup']['min_age_hours'] ?? null;
+                if (!is_numeric($minAgeHours) || $minAgeHours < IntegrityAuditor::MIN_CLEANUP_AGE_HOURS) {
+                    throw new Exception('Orphans can only be cleaned up when at least ' . IntegrityAuditor::MIN_CLEANUP_AGE_HOURS . ' hour old');
+                }
+                $options['cleanup'] = [
+                    'dry_run' => !empty($data['cleanup']['dry_run']),
+                    'min_age_hours' => (float)$minAgeHours,
+                ];
+            }
+            
+            $job = $jobManager->createJob('audit', $options);
+            $jobManager->startWorker($job['id']);
+            
+            echo json_encode([
+                'success' => true,
+                'message' => isset($options['cleanup']) ? 'Orphan cleanup started' : 'Audit started',
+                'job' => $jobManager->getJob($job['id'])
+            ]);
+            break;
+            
+        case 'downloadAuditList':
+            // Send one of the lists written by an audit job as CSV
+            $config = getConfig();
+            $jobManager = new JobManager($config['jobs_directory'], $logger);
+            $jobId = isset($_GET['job_id']) ? $_GET['job_id'] : '';
+            $job = $jobManager->getJob($jobId);
+            if (!$job || $job['type'] !== 'audit') {
+                throw new Exception('Audit not found');
+            }
+            
+            $list = isset($_GET['list']) ? $_GET['list'] : '';
+            $listFile = $jobManager->getAuditListFile($jobId, $list);
+            if (!file_exists($listFile)) {
+                throw new Exception('The audit did not write this list');
+            }
+            
+            header('Content-Type: text/csv');
+            header('Content-Disposition: attachment; filename="audit-' . $jobId . '-' . $list . '.csv"');
+            header('Content-Length: ' . filesize($listFile));
+            readfile($listFile);
+            break;
+            
+        case 'getMaintenanceMode':
+            // Read Nextcloud's maintenance mode back from config.php
+            $config = getConfig();
+            $maintenanceMode = new MaintenanceMode($config['nextcloud_dir'], $config['backup_directory'], $logger);
+            
+            echo json_encode([
+                'success' => true,
+                'maintenance' => ['enabled' => $maintenanceMode->isEnabled()]
+            ]);
+            break;
+            
+        case 'setMaintenanceMode':
+            // Turn Nextcloud's maintenance mode on or off by hand
+            $data = json_decode(file_get_contents('php://input'), true);
+            if (!$data || !isset($data['enabled'])) {
+                throw new Exception('Invalid request data');
+            }
+            
+            $config = getConfig();
+            $maintenanceMode = new MaintenanceMode($config['nextcloud_dir'], $config['backup_directory'], $logger);
+            
+            echo json_encode([
+                'success' => true,
+                'maintenance' => $maintenanceMode->setEnabled((bool)$data['enabled'])
+            ]);
+            break;
+            
         default:
             // Invalid action
             throw new Exception('Invalid action specified');
@@ -14,6 +14,7 @@ define('DB_PASSWORD', 'nextcloud_password');
 define('NEXTCLOUD_DIR', '/var/www/nextcloud');
 define('DATA_DIR', '/var/www/nextcloud/data');
 define('BACKUP_DIR', '/var/www/nextcloud/backup');
+define('JOBS_DIR', '/var/www/nextcloud/backup/jobs');
 
 // S3 configuration
 define('S3_BUCKET', 'nextcloud-bucket');
@@ -24,16 +25,41 @@ define('S3_SECRET', 'your_s3_secret_key');
 define('S3_USE_PATH_STYLE', true);
 define('S3_USE_MULTIPART', true);
 define('S3_MULTIPART_THRESHOLD', 100); // In MB
+define('S3_MULTIBUCKET', false); // Spread users over S3_MULTIBUCKET_COUNT buckets named S3_BUCKET followed by a number
+define('S3_MULTIBUCKET_COUNT', 64); // Nextcloud's objectstore_multibucket num_buckets
+
+// Target S3 configuration for bucket-to-bucket migrations (leave the bucket empty to disable)
+define('S3_TARGET_BUCKET', '');
+define('S3_TARGET_REGION', 'us-east-1');
+define('S3_TARGET_ENDPOINT', 'https://s3.example.net');
+define('S3_TARGET_KEY', 'your_target_s3_access_key');
+define('S3_TARGET_SECRET', 'your_target_s3_secret_key');
+define('S3_TARGET_USE_PATH_STYLE', true);
 
 // Migration options
 define('TEST_MODE', true); // Set to false for production migration
 define('BATCH_SIZE', 1000); // Number of files to process in a batch
+define('UPLOAD_CONCURRENCY', 4); // Number of parallel S3 uploads
+define('MIGRATION_ORDER', 'fileid'); // fileid, size_asc, size_desc, round_robin or mtime_asc
 define('ENABLE_MAINTENANCE', true); // Enable maintenance mode during migration
 define('VERIFY_UPLOADS', true); // Verify files after upload
+define('VERIFICATION_LEVEL', 'size'); // size, md5 (ETag of single-part uploads) or sha256
 define('DELETE_MISSING_FILES', false); // Delete missing files from database
+define('UPDATE_NEXTCLOUD_CONFIG', true); // Write the objectstore section of Nextcloud's config.php during cutover
 define('PREVIEW_MAX_AGE', 30); // Maximum age of preview images in days (0 to disable)
+define('MIGRATION_RULES', [ // Limit the files migrated (path globs, mimetypes, sizes in bytes)
+    'include_paths' => [],
+    'exclude_paths' => [],
+    'include_mimetypes' => [],
+    'exclude_mimetypes' => [],
+    'min_size' => null,
+    'max_size' => null,
+]);
 define('LOG_LEVEL', 1); // 0=DEBUG, 1=INFO, 2=WARN, 3=ERROR
 define('LOG_FILE', '/var/log/nextcloud_migration.log');
+define('LOG_FORMAT', 'text'); // text or json (one JSON object per line with job and file context)
+define('LOG_MAX_SIZE', 100); // Rotate the log file at this size in MB (0 to disable)
+define('LOG_MAX_FILES', 5); // Number of rotated log files to keep
 
 // Get configuration as array
 function getConfig() {
@@ -49,6 +75,7 @@ function getConfig() {
         'nextcloud_dir' => NEXTCLOUD_DIR,
         'data_directory' => DATA_DIR,
         'backup_directory' => BACKUP_DIR,
+        'jobs_directory' => JOBS_DIR,
         
         // S3 configuration
         's3_bucket' => S3_BUCKET,
@@ -59,13 +86,35 @@ function getConfig() {
         's3_use_path_style' => S3_USE_PATH_STYLE,
         's3_use_multipart' => S3_USE_MULTIPART,
         's3_multipart_threshold' => S3_MULTIPART_THRESHOLD,
+        's3_multibucket' => S3_MULTIBUCKET,
+        's3_multibucket_count' => S3_MULTIBUCKET_COUNT,
+        
+        // Target S3 configuration
+        's3_target_bucket' => S3_TARGET_BUCKET,
+        's3_target_region' => S3_TARGET_REGION,
+        's3_target_endpoint' => S3_TARGET_ENDPOINT,
+        's3_target_key' => S3_TARGET_KEY,
+        's3_target_secret' => S3_TARGET_SECRET,
+        's3_target_use_path_style' => S3_TARGET_USE_PATH_STYLE,
         
         // Migration options
         'test_mode' => TEST_MODE,
         'batch_size' => BATCH_SIZE,
+        'upload_concurrency' => UPLOAD_CONCURRENCY,
+        'migration_order' => MIGRATION_ORDER,
         'enable_maintenance' => ENABLE_MAINTENANCE,
         'verify_uploads' => VERIFY_UPLOADS,
+        'verification_level' => VERIFICATION_LEVEL,
         'delete_missing_files' => DELETE_MISSING_FILES,
+        'update_nextcloud_config' => UPDATE_NEXTCLOUD_CONFIG,
         'preview_max_age' => PREVIEW_MAX_AGE,
+        'rules' => MIGRATION_RULES,
+        
+        // Logging
+        'log_level' => LOG_LEVEL,
+        'log_file' => LOG_FILE,
+        'log_format' => LOG_FORMAT,
+        'log_max_size' => LOG_MAX_SIZE,
+        'log_max_files' => LOG_MAX_FILES,
     ];
 }
\ No newline at end of file
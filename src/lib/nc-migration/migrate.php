@@ -7,10 +7,14 @@ require_once 'MigrationManager.php';
 require_once 'Logger.php';
 
 // Parse command-line options
-$options = getopt('c:t:', ['config:', 'test:']);
+$options = getopt('c:t:ro:d:', ['config:', 'test:', 'resume', 'order:', 'direction:', 'finish-cutover']);
 
 $configFile = isset($options['c']) ? $options['c'] : (isset($options['config']) ? $options['config'] : null);
 $testMode = isset($options['t']) ? $options['t'] : (isset($options['test']) ? $options['test'] : null);
+$resume = isset($options['r']) || isset($options['resume']);
+$order = isset($options['o']) ? $options['o'] : (isset($options['order']) ? $options['order'] : null);
+$direction = isset($options['d']) ? $options['d'] : (isset($options['direction']) ? $options['direction'] : null);
+$finishCutover = isset($options['finish-cutover']);
 
 // Load configuration
 $config = getConfig();
@@ -29,14 +33,30 @@ if ($testMode !== null) {
     }
 }
 
+// Override file order if provided (a resumed run keeps the order it started with)
+if ($order !== null) {
+    $config['migration_order'] = $order;
+}
+
+// Migrate back from S3 to local storage with --direction=to_local,
+// or to the target S3 bucket with --direction=s3_to_s3
+if ($direction !== null) {
+    $config['direction'] = $direction;
+}
+
 // Initialize logger
-$logger = new Logger(LOG_FILE, LOG_LEVEL);
+$logger = Logger::fromConfig($config);
 
 // Print banner
 echo "\n#########################################################################################";
 echo "\n Nextcloud Local to S3 Migration Tool - PostgreSQL Edition";
 echo "\n Version 1.0.0";
 echo "\n Test Mode: " . ($config['test_mode'] ? ($config['test_mode'] === true ? '1' : $config['test_mode']) : 'No');
+if (($config['direction'] ?? null) === MigrationManager::DIRECTION_TO_LOCAL) {
+    echo "\n Direction: S3 to local storage (reverse)";
+} else if (($config['direction'] ?? null) === MigrationManager::DIRECTION_S3_TO_S3) {
+    echo "\n Direction: S3 bucket {$config['s3_bucket']} to S3 bucket {$config['s3_target_bucket']}";
+}
 echo "\n#########################################################################################\n";
 
 // Confirm before proceeding
@@ -83,8 +103,34 @@ try {
         exit(1);
     }
     
+    // Switch the storages of files transferred by runs limited by rules
+    if ($finishCutover) {
+        echo "\nPre-migration checks passed. Finishing the cutover...\n";
+        $result = $migrationManager->finishCutover();
+        if (!$result['success']) {
+            echo "\nCutover failed: {$result['error']}\n";
+            exit(1);
+        }
+        echo "\nCutover finished for {$result['switched']} files.";
+        echo "\nDatabase backup: {$result['backup_file']}\n";
+        exit;
+    }
+    
     echo "\nPre-migration checks passed. Starting migration...\n";
     
+    // Checkpoints let an interrupted run continue with --resume
+    $checkpoint = new Checkpoint($config['backup_directory'] . DIRECTORY_SEPARATOR . 'migration.checkpoint.json');
+    if ($resume) {
+        $state = $checkpoint->load();
+        if (!$state) {
+            echo "\nNo checkpoint found, nothing to resume.\n";
+            exit(1);
+        }
+        echo "\nResuming from checkpoint saved at {$state['saved_at']} (phase: {$state['phase']}, last file ID: {$state['last_fileid']})\n";
+    } else {
+        $checkpoint->clear();
+    }
+    
     // Start migration with progress reporting
     $result = $migrationManager->startMigration(function($progress) {
         static $lastPercent = -1;
@@ -96,7 +142,7 @@ try {
             $bytesFormatted = formatBytes($progress['bytes']);
             echo "\rProgress: {$percent}% ({$progress['migrated']} migrated, {$progress['failed']} failed, {$bytesFormatted}) - Current: {$progress['current_file']}";
         }
-    });
+    }, null, $checkpoint);
     
     echo "\n\nMigration completed!";
     echo "\nFiles migrated: {$result['files_migrated']}";
@@ -0,0 +1,247 @@
+<?php
+/**
+ * Background worker for Nextcloud S3 Migration jobs
+ *
+ * Launched detached by JobManager::startWorker(); not meant to be run by hand
+ */
+chdir(__DIR__);
+
+require_once 'config.php';
+require_once 'MigrationManager.php';
+require_once 'JobManager.php';
+require_once 'Logger.php';
+
+$options = getopt('', ['job:']);
+$jobId = isset($options['job']) ? $options['job'] : null;
+
+if (!$jobId) {
+    fwrite(STDERR, "Usage: php worker.php --job=<job id>\n");
+    exit(1);
+}
+
+// Load configuration
+$config = getConfig();
+
+// Initialize logger (no console, the worker is detached)
+$logger = Logger::fromConfig($config, false);
+
+$jobManager = new JobManager($config['jobs_directory'], $logger);
+$job = $jobManager->getJob($jobId);
+
+if (!$job) {
+    $logger->error("Worker started for unknown job: $jobId");
+    exit(1);
+}
+
+// Keep a log of the job on its own for the web interface
+$logger->addLogFile($jobManager->getLogFile($jobId));
+$logger->setContext(['job_id' => $jobId]);
+$logger->info("Worker for job $jobId started (PID " . getmypid() . ")");
+
+$jobManager->updateJob($jobId, [
+    'status' => JobManager::STATUS_RUNNING,
+    'pid' => getmypid(),
+    'started_at' => $job['started_at'] ?: date('c'),
+]);
+
+// Integrity audits only read the object storage and its buckets
+if ($job['type'] === 'audit') {
+    $exitCode = 0;
+    try {
+        $migrationManager = new MigrationManager($config, $logger);
+
+        $lastUpdate = 0;
+        $lastStatus = IntegrityAuditor::STATUS_RUNNING;
+        $progressCallback = function($progress) use ($jobManager, $jobId, &$lastUpdate, &$lastStatus) {
+            if (time() === $lastUpdate && $progress['status'] === $lastStatus) {
+                return;
+            }
+            $lastUpdate = time();
+            $lastStatus = $progress['status'];
+            $jobManager->updateJob($jobId, ['progress' => $progress]);
+        };
+
+        $lastCheck = 0;
+        $command = null;
+        $controlCallback = function() use ($jobManager, $jobId, &$lastCheck, &$command) {
+            if (time() !== $lastCheck) {
+                $lastCheck = time();
+                $command = $jobManager->getJob($jobId)['control'] ?? null;
+            }
+
+            return $command;
+        };
+
+        $listFiles = [];
+        foreach (IntegrityAuditor::LISTS as $list) {
+            $listFiles[$list] = $jobManager->getAuditListFile($jobId, $list);
+        }
+
+        // Audits started with a cleanup also delete the orphans they find
+        $cleanup = $job['options']['cleanup'] ?? null;
+        $result = $migrationManager->auditIntegrity($listFiles, $progressCallback, $controlCallback, $cleanup);
+        $status = $result['status'] === IntegrityAuditor::STATUS_CANCELLED ? JobManager::STATUS_CANCELLED : JobManager::STATUS_COMPLETE;
+
+        $jobManager->updateJob($jobId, [
+            'status' => $status,
+            'finished_at' => date('c'),
+            'result' => $result,
+        ]);
+    } catch (Throwable $e) {
+        $logger->error("Job $jobId failed: " . $e->getMessage());
+        $jobManager->updateJob($jobId, [
+            'status' => JobManager::STATUS_FAILED,
+            'finished_at' => date('c'),
+            'error' => $e->getMessage(),
+        ]);
+        $exitCode = 1;
+    } finally {
+        if (isset($migrationManager)) {
+            $migrationManager->close();
+        }
+    }
+
+    exit($exitCode);
+}
+
+// Tag ledger rows with the job
+$config['job_id'] = $jobId;
+
+// Override test mode if provided
+if (isset($job['options']['test_mode'])) {
+    $config['test_mode'] = $job['options']['test_mode'];
+}
+
+// Migrate back from S3 to local storage for reverse jobs
+if (isset($job['options']['direction'])) {
+    $config['direction'] = $job['options']['direction'];
+}
+
+// Limit the migration to the users selected when the job was created
+if (!empty($job['options']['users'])) {
+    $config['users'] = $job['options']['users'];
+}
+
+// Retry runs only pick up files the ledger has marked as failed
+if (!empty($job['options']['retry_fileids'])) {
+    $config['retry_fileids'] = $job['options']['retry_fileids'];
+} else if (!empty($job['options']['retry_failed'])) {
+    $config['retry_failed'] = true;
+}
+
+// Record the settings of the run and the checks before it for its report,
+// without credentials
+if (empty($job['config'])) {
+    $snapshot = $config;
+    unset($snapshot['db_password'], $snapshot['s3_secret'], $snapshot['s3_target_secret'], $snapshot['job_id'], $snapshot['retry_fileids']);
+    $jobManager->updateJob($jobId, [
+        'config' => $snapshot,
+        'checks' => $jobManager->getCheckResults(),
+    ]);
+}
+
+$exitCode = 0;
+try {
+    $migrationManager = new MigrationManager($config, $logger);
+
+    $lastUpdate = 0;
+    $lastStatus = JobManager::STATUS_RUNNING;
+    $samples = $job['samples'] ?? [];
+    $sampleInterval = $job['sample_interval'] ?? JobManager::SAMPLE_INTERVAL;
+    $progressCallback = function($progress) use ($jobManager, $jobId, &$lastUpdate, &$lastStatus, &$samples, &$sampleInterval) {
+        // Every write locks the job file, so only persist about once per second
+        // unless the status changed
+        if (time() === $lastUpdate && $progress['status'] === $lastStatus) {
+            return;
+        }
+        $lastUpdate = time();
+        $lastStatus = $progress['status'];
+
+        $changes = [
+            'status' => $progress['status'],
+            'progress' => $progress,
+        ];
+
+        // Keep a throughput history for the charts, thinned out as the run
+        // gets longer so the job file stays small
+        $lastSample = end($samples);
+        if (!$lastSample || time() - $lastSample['t'] >= $sampleInterval) {
+            $samples[] = [
+                't' => time(),
+                'migrated' => $progress['migrated'],
+                'failed' => $progress['failed'],
+                'bytes' => $progress['bytes'],
+            ];
+            if (count($samples) > JobManager::MAX_SAMPLES) {
+                $samples = array_values(array_filter($samples, function ($i) {
+                    return $i % 2 === 0;
+                }, ARRAY_FILTER_USE_KEY));
+                $sampleInterval *= 2;
+            }
+            $changes['samples'] = $samples;
+            $changes['sample_interval'] = $sampleInterval;
+        }
+
+        $jobManager->updateJob($jobId, $changes);
+    };
+
+    $lastCheck = 0;
+    $command = null;
+    $controlCallback = function() use ($jobManager, $jobId, &$lastCheck, &$command) {
+        // Re-read the job file at most once per second
+        if (time() !== $lastCheck) {
+            $lastCheck = time();
+            $job = $jobManager->getJob($jobId);
+            $command = $job['control'] ?? null;
+        }
+
+        return $command === MigrationManager::CONTROL_RESUME ? null : $command;
+    };
+
+    if (!empty($job['options']['cutover'])) {
+        // Only switches the storages of files transferred by earlier runs
+        $result = $migrationManager->finishCutover();
+    } else {
+        // Resumes automatically when a previous worker of this job left a checkpoint
+        $checkpoint = $jobManager->getCheckpoint($jobId);
+        $result = $migrationManager->startMigration($progressCallback, $controlCallback, $checkpoint);
+    }
+
+    if (!$result['success']) {
+        $status = JobManager::STATUS_FAILED;
+    } else if ($result['status'] === MigrationManager::STATUS_CANCELLED) {
+        $status = JobManager::STATUS_CANCELLED;
+    } else {
+        $status = JobManager::STATUS_COMPLETE;
+    }
+
+    $job = $jobManager->getJob($jobId);
+    $progress = array_merge(['total' => 0, 'current_file' => ''], $job['progress'] ?: []);
+
+    $jobManager->updateJob($jobId, [
+        'status' => $status,
+        'finished_at' => date('c'),
+        'result' => $result,
+        'error' => $result['error'] ?? null,
+        'progress' => array_merge($progress, [
+            'migrated' => $result['files_migrated'],
+            'failed' => $result['files_failed'],
+            'bytes' => $result['bytes_transferred'] ?? ($progress['bytes'] ?? 0),
+            'status' => $status,
+        ]),
+    ]);
+} catch (Throwable $e) {
+    $logger->error("Job $jobId failed: " . $e->getMessage());
+    $jobManager->updateJob($jobId, [
+        'status' => JobManager::STATUS_FAILED,
+        'finished_at' => date('c'),
+        'error' => $e->getMessage(),
+    ]);
+    $exitCode = 1;
+} finally {
+    if (isset($migrationManager)) {
+        $migrationManager->close();
+    }
+}
+
+exit($exitCode);
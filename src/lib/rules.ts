@@ -0,0 +1,23 @@
+import type { MigrationRules, RuleMatch } from '@/lib/api';
+
+export const ruleLabels: Record<RuleMatch['type'], string> = {
+  include_paths: 'Include path',
+  exclude_paths: 'Exclude path',
+  include_mimetypes: 'Include mimetype',
+  exclude_mimetypes: 'Exclude mimetype',
+  min_size: 'Minimum size',
+  max_size: 'Maximum size',
+};
+
+/**
+ * Whether the rules leave every file in the migration
+ */
+export function isRulesEmpty(rules: MigrationRules | undefined) {
+  if (!rules) {
+    return true;
+  }
+  const lists = [rules.include_paths, rules.exclude_paths, rules.include_mimetypes, rules.exclude_mimetypes];
+  return lists.every(list => !list?.some(value => value.trim() !== ''))
+    && rules.min_size == null
+    && rules.max_size == null;
+}
@@ -0,0 +1,106 @@
+import * as api from '@/lib/api';
+import type { Job, MigrationDirection, PhaseTimes, TestMode } from '@/lib/api';
+import { migrationDirectionOptions } from '@/lib/migrationDirection';
+import { describeTestMode } from '@/lib/testMode';
+
+export const phaseLabels: Record<string, string> = {
+  backup: 'Database backup',
+  files: 'File upload',
+  storage_update: 'Storage update',
+};
+
+export interface RunMetric {
+  key: string;
+  label: string;
+  value: number | null;
+  format: 'count' | 'bytes' | 'seconds' | 'rate';
+  // Whether a higher value is the better outcome, for colouring deltas
+  higherIsBetter: boolean;
+}
+
+function seconds(from: string | null | undefined, to: string | null | undefined) {
+  if (!from || !to) return null;
+  return Math.max(0, (new Date(to).getTime() - new Date(from).getTime()) / 1000);
+}
+
+/**
+ * Test mode a run went with: the job option when one was given, the
+ * configuration snapshot otherwise
+ */
+export function getRunTestMode(job: Job): TestMode {
+  return api.testModeSchema.parse(job.options.test_mode ?? job.config?.test_mode ?? false);
+}
+
+export function getRunDirection(job: Job): MigrationDirection {
+  return api.migrationDirectionSchema.catch('to_s3').parse(job.options.direction);
+}
+
+/**
+ * Test mode of a run, and its direction when it didn't go to S3
+ */
+export function describeRun(job: Job) {
+  const mode = describeTestMode(getRunTestMode(job));
+  const direction = getRunDirection(job);
+  return direction === 'to_s3' ? mode : `${mode}, ${migrationDirectionOptions[direction].label}`;
+}
+
+export function getRunDuration(job: Job) {
+  return seconds(job.started_at, job.finished_at);
+}
+
+/**
+ * Durations of the phases a run went through, in the order they started
+ */
+export function getPhaseDurations(phases: PhaseTimes | undefined) {
+  return Object.entries(phases ?? {})
+    .sort(([, a], [, b]) => a.started_at.localeCompare(b.started_at))
+    .map(([phase, times]) => ({
+      phase,
+      label: phaseLabels[phase] ?? phase,
+      started_at: times.started_at,
+      finished_at: times.finished_at,
+      seconds: seconds(times.started_at, times.finished_at),
+    }));
+}
+
+/**
+ * Figures of a run that are worth comparing between runs
+ */
+export function getRunMetrics(job: Job): RunMetric[] {
+  const migrated = job.result?.files_migrated ?? job.progress?.migrated ?? null;
+  const failed = job.result?.files_failed ?? job.progress?.failed ?? null;
+  const bytes = job.result?.bytes_transferred ?? job.progress?.bytes ?? null;
+  const duration = getRunDuration(job);
+  const uploadSeconds = seconds(job.result?.phases?.files?.started_at, job.result?.phases?.files?.finished_at);
+
+  return [
+    { key: 'total', label: 'Files in scope', value: job.progress?.total ?? null, format: 'count', higherIsBetter: true },
+    { key: 'migrated', label: 'Files migrated', value: migrated, format: 'count', higherIsBetter: true },
+    { key: 'failed', label: 'Files failed', value: failed, format: 'count', higherIsBetter: false },
+    { key: 'bytes', label: 'Data transferred', value: bytes, format: 'bytes', higherIsBetter: true },
+    { key: 'duration', label: 'Duration', value: duration, format: 'seconds', higherIsBetter: false },
+    {
+      key: 'throughput',
+      label: 'Upload throughput',
+      value: bytes !== null && uploadSeconds ? bytes / uploadSeconds : null,
+      format: 'rate',
+      higherIsBetter: true,
+    },
+  ];
+}
+
+/**
+ * Settings that differ between two configuration snapshots, sorted by key
+ */
+export function diffConfig(a: Record<string, unknown> | null | undefined, b: Record<string, unknown> | null | undefined) {
+  const keys = Array.from(new Set([...Object.keys(a ?? {}), ...Object.keys(b ?? {})])).sort();
+  return keys
+    .filter(key => JSON.stringify(a?.[key]) !== JSON.stringify(b?.[key]))
+    .map(key => ({ key, a: a?.[key], b: b?.[key] }));
+}
+
+export function formatConfigValue(value: unknown) {
+  if (value === undefined) return '—';
+  if (typeof value === 'string') return value === '' ? '""' : value;
+  return JSON.stringify(value);
+}
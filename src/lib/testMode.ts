@@ -0,0 +1,49 @@
+import type { TestMode } from '@/lib/api';
+
+export type TestModeLevel = 'off' | 'upload' | 'dry_run' | 'user';
+
+export interface TestModeOption {
+  level: TestModeLevel;
+  label: string;
+  does: string;
+  doesNot: string;
+}
+
+export const testModeOptions: TestModeOption[] = [
+  {
+    level: 'off',
+    label: 'Off (production)',
+    does: 'Backs up the database, uploads every file, points the file cache at S3 and switches storage providers to object storage.',
+    doesNot: 'Remove local files. Previews are only cleaned up when you ask for it.',
+  },
+  {
+    level: 'upload',
+    label: 'Upload only',
+    does: 'Uploads and verifies every file, so the S3 connection and throughput get a real test.',
+    doesNot: 'Change the database, take a backup or enable maintenance mode. Nextcloud keeps using local storage.',
+  },
+  {
+    level: 'dry_run',
+    label: 'Dry run',
+    does: 'Walks every file and checks it exists and is readable on disk.',
+    doesNot: 'Upload anything to S3, change the database or enable maintenance mode.',
+  },
+  {
+    level: 'user',
+    label: 'Single user',
+    does: "Uploads and verifies only the selected user's files.",
+    doesNot: 'Change the database, take a backup or enable maintenance mode. Other users are not touched.',
+  },
+];
+
+export function getTestModeLevel(mode: TestMode): TestModeLevel {
+  if (mode === false) return 'off';
+  if (mode === 1) return 'upload';
+  if (mode === 2) return 'dry_run';
+  return 'user';
+}
+
+export function describeTestMode(mode: TestMode) {
+  const option = testModeOptions.find(o => o.level === getTestModeLevel(mode));
+  return typeof mode === 'string' ? `${option.label}: ${mode}` : option.label;
+}
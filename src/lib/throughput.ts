@@ -0,0 +1,53 @@
+import type { MigrationProgress, ProgressSample } from '@/lib/api';
+
+// Window the ETA averages over; older samples only feed the charts
+const ETA_WINDOW_SECONDS = 60;
+
+export interface RatePoint {
+  t: number;
+  filesPerSecond: number;
+  bytesPerSecond: number;
+}
+
+/**
+ * Turn cumulative progress samples into per-interval rates
+ */
+export function toRateSeries(samples: ProgressSample[]): RatePoint[] {
+  const points: RatePoint[] = [];
+  for (let i = 1; i < samples.length; i++) {
+    const previous = samples[i - 1];
+    const current = samples[i];
+    const seconds = current.t - previous.t;
+    if (seconds <= 0) continue;
+    points.push({
+      t: current.t,
+      filesPerSecond: (current.migrated + current.failed - previous.migrated - previous.failed) / seconds,
+      bytesPerSecond: Math.max(0, current.bytes - previous.bytes) / seconds,
+    });
+  }
+  return points;
+}
+
+/**
+ * Estimate the seconds left from the average rate over the last minute of
+ * samples. Uses bytes when the server reported a byte total, files otherwise.
+ * Returns null while there isn't enough history or nothing is moving.
+ */
+export function estimateRemainingSeconds(samples: ProgressSample[], progress: MigrationProgress): number | null {
+  if (samples.length < 2) return null;
+
+  const last = samples[samples.length - 1];
+  const first = samples.find(sample => sample.t >= last.t - ETA_WINDOW_SECONDS && sample !== last)
+    ?? samples[samples.length - 2];
+  const seconds = last.t - first.t;
+  if (seconds <= 0) return null;
+
+  if (progress.total_bytes) {
+    const rate = (last.bytes - first.bytes) / seconds;
+    return rate > 0 ? Math.max(0, progress.total_bytes - progress.bytes) / rate : null;
+  }
+
+  const rate = (last.migrated + last.failed - first.migrated - first.failed) / seconds;
+  const remaining = progress.total - progress.migrated - progress.failed;
+  return rate > 0 ? Math.max(0, remaining) / rate : null;
+}
@@ -0,0 +1,16 @@
+import type { VerificationLevel } from '@/lib/api';
+
+export const verificationLevelOptions: Record<VerificationLevel, { label: string; description: string }> = {
+  size: {
+    label: 'Size only',
+    description: 'Compares the object size with the file size.',
+  },
+  md5: {
+    label: 'MD5 (ETag)',
+    description: 'Also compares the MD5 of the file with the ETag. Multipart uploads, whose ETag is no MD5, are compared by size.',
+  },
+  sha256: {
+    label: 'SHA-256',
+    description: 'Hashes every file, sends the checksum with the upload and stores it as object metadata. Slowest, but catches any corruption.',
+  },
+};
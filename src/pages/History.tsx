@@ -0,0 +1,96 @@
+import { useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { ArrowLeft, History as HistoryIcon } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { toast } from '@/components/ui/sonner';
+import * as api from '@/lib/api';
+import type { Job } from '@/lib/api';
+import { formatBytes, formatDuration } from '@/lib/format';
+import { describeRun, getRunDuration } from '@/lib/runs';
+
+export default function HistoryPage() {
+  const [jobs, setJobs] = useState<Job[] | null>(null);
+
+  useEffect(() => {
+    api.listJobs('migration')
+      .then(setJobs)
+      .catch(error => toast.error('Error loading run history: ' + error.message));
+  }, []);
+
+  return (
+    <div className="container mx-auto py-8 max-w-5xl">
+      <div className="text-center mb-6">
+        <h1 className="text-3xl font-bold">Migration History</h1>
+        <p className="text-muted-foreground mt-2">Every migration run with its settings and outcome</p>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <div>
+              <CardTitle className="flex items-center">
+                <HistoryIcon className="mr-2 h-5 w-5" />
+                Runs
+              </CardTitle>
+              <CardDescription>Open a run for its report and to compare it with another run</CardDescription>
+            </div>
+            <Button variant="outline" size="sm" asChild>
+              <Link to="/">
+                <ArrowLeft className="mr-2 h-4 w-4" />
+                Back to Migration
+              </Link>
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {jobs === null ? (
+            <p className="text-center text-muted-foreground py-6">Loading...</p>
+          ) : jobs.length === 0 ? (
+            <p className="text-center text-muted-foreground py-6">No migration runs yet</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Started</TableHead>
+                  <TableHead>Mode</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead className="text-right">Migrated</TableHead>
+                  <TableHead className="text-right">Failed</TableHead>
+                  <TableHead className="text-right">Data</TableHead>
+                  <TableHead className="text-right">Duration</TableHead>
+                  <TableHead />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {jobs.map(job => {
+                  const duration = getRunDuration(job);
+                  return (
+                    <TableRow key={job.id}>
+                      <TableCell>{new Date(job.started_at ?? job.created_at).toLocaleString()}</TableCell>
+                      <TableCell>{describeRun(job)}</TableCell>
+                      <TableCell>
+                        <Badge variant={job.status === 'failed' ? 'destructive' : 'secondary'}>{job.status}</Badge>
+                      </TableCell>
+                      <TableCell className="text-right">{job.progress?.migrated ?? 0}</TableCell>
+                      <TableCell className="text-right">{job.progress?.failed ?? 0}</TableCell>
+                      <TableCell className="text-right">{formatBytes(job.progress?.bytes ?? 0)}</TableCell>
+                      <TableCell className="text-right">{duration === null ? '—' : formatDuration(duration)}</TableCell>
+                      <TableCell className="text-right">
+                        <Button variant="link" size="sm" asChild>
+                          <Link to={`/history/${job.id}`}>Report</Link>
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
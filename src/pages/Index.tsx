@@ -1,4 +1,5 @@
 import { useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
 import { Tabs, TabsList, TabsTrigger, TabsContent } from "@/components/ui/tabs";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
@@ -7,6 +8,32 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Checkbox } from "@/components/ui/checkbox";
 import { Progress } from "@/components/ui/progress";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { toast } from "@/components/ui/sonner";
+import { IntegrityAudit } from "@/components/migration/IntegrityAudit";
+import { LedgerView } from "@/components/migration/LedgerView";
+import { LogViewer } from "@/components/migration/LogViewer";
+import { MaintenanceStatus } from "@/components/migration/MaintenanceStatus";
+import { NextcloudConfigPreview } from "@/components/migration/NextcloudConfigPreview";
+import { FailuresPanel } from "@/components/migration/FailuresPanel";
+import { PlanView } from "@/components/migration/PlanView";
+import { ResumeMigrationCard } from "@/components/migration/ResumeMigrationCard";
+import { RulesEditor } from "@/components/migration/RulesEditor";
+import { TestModeSelector } from "@/components/migration/TestModeSelector";
+import { ThroughputCharts } from "@/components/migration/ThroughputCharts";
+import { UploadWorkers } from "@/components/migration/UploadWorkers";
+import { UserProgressTable } from "@/components/migration/UserProgressTable";
+import { UserSelector } from "@/components/migration/UserSelector";
+import * as api from "@/lib/api";
+import { formatBytes, formatDuration } from "@/lib/format";
+import { migrationDirectionOptions } from "@/lib/migrationDirection";
+import { migrationOrderOptions } from "@/lib/migrationOrder";
+import { isRulesEmpty } from "@/lib/rules";
+import { getRunDirection } from "@/lib/runs";
+import { describeTestMode, getTestModeLevel, testModeOptions } from "@/lib/testMode";
+import { estimateRemainingSeconds } from "@/lib/throughput";
+import { verificationLevelOptions } from "@/lib/verificationLevel";
+import type { AuditJob, CheckResults, CheckStatus, Job, JobControl, MigrationConfig, MigrationDirection, MigrationOrder, PreviewCleanupResult, VerificationLevel } from "@/lib/api";
 import { 
   CheckCircle, 
   XCircle, 
@@ -17,12 +44,17 @@ import {
   Cloud, 
   Server, 
   FileUp,
-  ArrowRight
+  FileText,
+  ArrowRight,
+  History,
+  Pause,
+  Play,
+  Square
 } from 'lucide-react';
 
 export default function MigrationTool() {
   const [activeTab, setActiveTab] = useState('overview');
-  const [config, setConfig] = useState({
+  const [config, setConfig] = useState<MigrationConfig>({
     // Database configuration
     db_host: 'localhost',
     db_port: '5432',
@@ -34,6 +66,7 @@ export default function MigrationTool() {
     nextcloud_dir: '/var/www/nextcloud',
     data_directory: '/var/www/nextcloud/data',
     backup_directory: '/var/www/nextcloud/backup',
+    jobs_directory: '/var/www/nextcloud/backup/jobs',
     
     // S3 configuration
     s3_bucket: 'nextcloud-bucket',
@@ -44,173 +77,233 @@ export default function MigrationTool() {
     s3_use_path_style: true,
     s3_use_multipart: true,
     s3_multipart_threshold: 100,
+    s3_multibucket: false,
+    s3_multibucket_count: 64,
+    
+    // Target S3 configuration
+    s3_target_bucket: '',
+    s3_target_region: 'us-east-1',
+    s3_target_endpoint: '',
+    s3_target_key: '',
+    s3_target_secret: '',
+    s3_target_use_path_style: true,
     
     // Migration options
-    test_mode: true,
+    test_mode: 1,
     batch_size: 1000,
+    upload_concurrency: 4,
+    migration_order: 'fileid',
     enable_maintenance: true,
     verify_uploads: true,
+    verification_level: 'size',
     delete_missing_files: false,
+    update_nextcloud_config: true,
     preview_max_age: 30,
+    rules: {
+      include_paths: [],
+      exclude_paths: [],
+      include_mimetypes: [],
+      exclude_mimetypes: [],
+      min_size: null,
+      max_size: null,
+    },
     log_level: 1,
-    log_file: '/var/log/nextcloud_migration.log'
+    log_file: '/var/log/nextcloud_migration.log',
+    log_format: 'text',
+    log_max_size: 100,
+    log_max_files: 5
   });
   
-  const [checkResults, setCheckResults] = useState(null);
-  const [migrationRunning, setMigrationRunning] = useState(false);
-  const [migrationProgress, setMigrationProgress] = useState({
-    total: 0,
-    migrated: 0,
-    failed: 0,
-    bytes: 0,
-    percent: 0,
-    current_file: '',
-    status: 'idle'
-  });
-  const [previewCleanupResults, setPreviewCleanupResults] = useState(null);
+  const [checkResults, setCheckResults] = useState<CheckResults | null>(null);
+  const [job, setJob] = useState<Job | null>(null);
+  const [resumableJobs, setResumableJobs] = useState<Job[]>([]);
+  const [selectedUsers, setSelectedUsers] = useState<string[] | null>(null);
+  const [direction, setDirection] = useState<MigrationDirection>('to_s3');
+  const [previewCleanupResults, setPreviewCleanupResults] = useState<PreviewCleanupResult | null>(null);
+  const [auditJob, setAuditJob] = useState<AuditJob | null>(null);
   
   useEffect(() => {
     // Load configuration
-    fetch('/api/migrate.php?action=getConfig')
-      .then(response => response.json())
-      .then(data => {
-        if (data.success && data.config) {
-          setConfig(prev => ({ ...prev, ...data.config }));
+    api.getConfig()
+      .then(stored => setConfig(prev => ({ ...prev, ...stored })))
+      .catch(error => toast.error('Error loading configuration: ' + error.message));
+      
+    // Attach to a migration job that is still running
+    loadMigrationJobs(true);
+  }, []);
+  
+  const loadMigrationJobs = (attach: boolean) => {
+    api.listJobs('migration')
+      .then(jobs => {
+        const activeJob = jobs.find(api.isJobActive);
+        if (attach && activeJob) {
+          setJob(activeJob);
         }
+        setResumableJobs(jobs.filter(api.isJobResumable));
       })
-      .catch(error => console.error('Error loading configuration:', error));
-      
-    // Check migration status periodically if running
+      .catch(error => toast.error('Error loading migration jobs: ' + error.message));
+  };
+  
+  const jobId = job?.id;
+  const jobActive = job !== null && api.isJobActive(job);
+  
+  useEffect(() => {
+    if (!jobId || !jobActive) {
+      return;
+    }
+    
+    // Poll the attached job until its worker finishes
     const interval = setInterval(() => {
-      if (migrationRunning) {
-        fetch('/api/migrate.php?action=getMigrationStatus')
-          .then(response => response.json())
-          .then(data => {
-            if (data.success) {
-              setMigrationRunning(data.running);
-              if (data.progress) {
-                const progress = data.progress;
-                const percent = Math.round(
-                  (progress.migrated + progress.failed) / Math.max(1, progress.total) * 100
-                );
-                setMigrationProgress({
-                  ...progress,
-                  percent
-                });
-                
-                if (progress.status === 'complete') {
-                  setMigrationRunning(false);
-                }
-              }
-            }
-          })
-          .catch(error => console.error('Error checking migration status:', error));
-      }
+      api.getJob(jobId)
+        .then(setJob)
+        .catch(error => toast.error('Error checking migration status: ' + error.message));
     }, 1000);
     
     return () => clearInterval(interval);
-  }, [migrationRunning]);
+  }, [jobId, jobActive]);
+  
+  const migrationProgress = job?.progress ?? {
+    total: 0,
+    migrated: 0,
+    failed: 0,
+    bytes: 0,
+    current_file: job ? 'Initializing...' : ''
+  };
+  const migrationPercent = Math.round(
+    (migrationProgress.migrated + migrationProgress.failed) / Math.max(1, migrationProgress.total) * 100
+  );
+  const bytesPercent = migrationProgress.total_bytes
+    ? Math.min(100, Math.round(migrationProgress.bytes / migrationProgress.total_bytes * 100))
+    : null;
+  const samples = job?.samples ?? [];
+  // An attached job runs with the mode it was started with
+  const runMode = job?.options.test_mode !== undefined
+    ? api.testModeSchema.parse(job.options.test_mode)
+    : config.test_mode;
+  const runModeOption = testModeOptions.find(option => option.level === getTestModeLevel(runMode));
+  const remainingSeconds = job?.status === 'running' ? estimateRemainingSeconds(samples, migrationProgress) : null;
   
   const runPreMigrationChecks = () => {
-    fetch('/api/migrate.php?action=runChecks')
-      .then(response => response.json())
-      .then(data => {
-        if (data.success) {
-          setCheckResults(data.results);
-          setActiveTab('checks');
-        }
+    api.runChecks()
+      .then(results => {
+        setCheckResults(results);
+        setActiveTab('checks');
       })
-      .catch(error => console.error('Error running pre-migration checks:', error));
+      .catch(error => toast.error('Error running pre-migration checks: ' + error.message));
   };
   
-  const saveConfiguration = () => {
-    fetch('/api/migrate.php?action=saveConfig', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json'
-      },
-      body: JSON.stringify(config)
-    })
-      .then(response => response.json())
-      .then(data => {
-        if (data.success) {
-          alert('Configuration saved successfully');
-        } else {
-          alert('Failed to save configuration: ' + data.error);
-        }
+  const startAudit = () => {
+    api.startAudit()
+      .then(started => {
+        setAuditJob(started);
+        setActiveTab('audit');
       })
-      .catch(error => console.error('Error saving configuration:', error));
+      .catch(error => toast.error('Failed to start audit: ' + error.message));
+  };
+  
+  const saveConfiguration = () => {
+    if (config.test_mode === '') {
+      toast.error('Select the user for the single-user test run');
+      return;
+    }
+    
+    api.saveConfig(config)
+      .then(message => toast.success(message))
+      .catch(error => toast.error('Failed to save configuration: ' + error.message));
   };
   
   const startMigration = () => {
+    if (config.test_mode === '') {
+      toast.error('Select the user for the single-user test run');
+      return;
+    }
+    
+    if (direction === 's3_to_s3' && !config.s3_target_bucket) {
+      toast.error('Save a target S3 bucket before copying to it');
+      return;
+    }
+    
+    // A single-user test run brings its own user
+    const users = typeof config.test_mode === 'string' ? null : selectedUsers;
+    if (users !== null && users.length === 0) {
+      toast.error('Select at least one user to migrate');
+      return;
+    }
+    
+    const scope = (users === null ? '' : ` for ${users.length} selected users`)
+      + (direction === 'to_s3' ? '' : ` (${migrationDirectionOptions[direction].label})`);
     if (window.confirm(
       config.test_mode 
-        ? 'Start migration in TEST mode?' 
-        : 'Start PRODUCTION migration? This will modify your Nextcloud instance!'
+        ? `Start migration in TEST mode (${describeTestMode(config.test_mode)})${scope}?` 
+        : `Start PRODUCTION migration${scope}? This will modify your Nextcloud instance!`
     )) {
-      fetch('/api/migrate.php?action=startMigration', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json'
-        },
-        body: JSON.stringify({ test_mode: config.test_mode })
-      })
-        .then(response => response.json())
-        .then(data => {
-          if (data.success) {
-            setMigrationRunning(true);
-            setMigrationProgress({
-              total: 0,
-              migrated: 0,
-              failed: 0,
-              bytes: 0,
-              percent: 0,
-              current_file: 'Initializing...',
-              status: 'running'
-            });
-            setActiveTab('migrate');
-          } else {
-            alert('Failed to start migration: ' + data.error);
-          }
+      api.startMigration({ test_mode: config.test_mode, users: users ?? undefined, direction })
+        .then(newJob => {
+          setJob(newJob);
+          setActiveTab('migrate');
         })
-        .catch(error => console.error('Error starting migration:', error));
+        .catch(error => toast.error('Failed to start migration: ' + error.message));
+    }
+  };
+  
+  const finishCutover = () => {
+    if (!window.confirm(
+      `Finish the cutover ${migrationDirectionOptions[direction].done}? This switches the storage providers of every file and will modify your Nextcloud instance!`
+    )) {
+      return;
+    }
+    
+    api.finishCutover(direction)
+      .then(setJob)
+      .catch(error => toast.error('Failed to finish cutover: ' + error.message));
+  };
+  
+  const controlMigration = (command: JobControl) => {
+    if (command === 'cancel' && !window.confirm(
+      'Cancel the migration? Files migrated so far are kept, storage providers are left unchanged and maintenance mode is turned off.'
+    )) {
+      return;
     }
+    
+    api.controlJob(job.id, command)
+      .then(updatedJob => {
+        setJob(updatedJob);
+        toast.success(command === 'resume'
+          ? 'Resume requested'
+          : `${command.charAt(0).toUpperCase() + command.slice(1)} requested, the worker starts no new files and acts on it once the files in flight finish`);
+      })
+      .catch(error => toast.error(`Failed to ${command} migration: ` + error.message));
+  };
+  
+  const resumeMigration = (interruptedJob: Job) => {
+    api.resumeInterruptedJob(interruptedJob.id)
+      .then(resumedJob => {
+        setJob(resumedJob);
+        setResumableJobs(jobs => jobs.filter(j => j.id !== resumedJob.id));
+      })
+      .catch(error => toast.error('Failed to resume migration: ' + error.message));
+  };
+  
+  const detachJob = () => {
+    setJob(null);
+    loadMigrationJobs(false);
   };
   
   const cleanupPreviews = () => {
     if (window.confirm('Start preview cleanup?')) {
-      fetch('/api/migrate.php?action=cleanupPreviews', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json'
-        },
-        body: JSON.stringify({
-          max_age_days: config.preview_max_age,
-          max_count: 1000
-        })
+      api.cleanupPreviews({
+        max_age_days: config.preview_max_age,
+        max_count: 1000
       })
-        .then(response => response.json())
-        .then(data => {
-          if (data.success) {
-            setPreviewCleanupResults(data.results);
-            alert(`Preview cleanup completed: ${data.results.deleted} files removed`);
-          } else {
-            alert('Failed to clean up previews: ' + data.error);
-          }
+        .then(results => {
+          setPreviewCleanupResults(results);
+          toast.success(`Preview cleanup completed: ${results.deleted} files removed`);
         })
-        .catch(error => console.error('Error cleaning up previews:', error));
+        .catch(error => toast.error('Failed to clean up previews: ' + error.message));
     }
   };
   
-  const formatBytes = (bytes) => {
-    if (bytes === 0) return '0 Bytes';
-    const k = 1024;
-    const sizes = ['Bytes', 'KB', 'MB', 'GB', 'TB', 'PB'];
-    const i = Math.floor(Math.log(bytes) / Math.log(k));
-    return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + ' ' + sizes[i];
-  };
-  
-  const renderStatusIcon = (status) => {
+  const renderStatusIcon = (status: CheckStatus) => {
     switch (status) {
       case 'success':
         return <CheckCircle className="h-5 w-5 text-green-500" />;
@@ -230,14 +323,25 @@ export default function MigrationTool() {
       <div className="text-center mb-6">
         <h1 className="text-3xl font-bold">Nextcloud Local to S3 Migration Tool</h1>
         <p className="text-muted-foreground mt-2">PostgreSQL Edition</p>
+        <MaintenanceStatus refreshKey={job?.status} />
+        <Button variant="link" size="sm" asChild>
+          <Link to="/history">
+            <History className="mr-1 h-4 w-4" />
+            Run History
+          </Link>
+        </Button>
       </div>
       
       <Tabs value={activeTab} onValueChange={setActiveTab}>
-        <TabsList className="grid grid-cols-4 w-full">
+        <TabsList className="grid grid-cols-8 w-full">
           <TabsTrigger value="overview">Overview</TabsTrigger>
           <TabsTrigger value="config">Configuration</TabsTrigger>
           <TabsTrigger value="checks">Pre-Migration Checks</TabsTrigger>
+          <TabsTrigger value="plan">Plan</TabsTrigger>
           <TabsTrigger value="migrate">Migrate</TabsTrigger>
+          <TabsTrigger value="audit">Audit</TabsTrigger>
+          <TabsTrigger value="ledger">Ledger</TabsTrigger>
+          <TabsTrigger value="logs">Logs</TabsTrigger>
         </TabsList>
         
         {/* Overview Tab */}
@@ -401,6 +505,14 @@ export default function MigrationTool() {
                         onChange={e => setConfig({...config, backup_directory: e.target.value})}
                       />
                     </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="jobs_directory">Jobs Directory</Label>
+                      <Input 
+                        id="jobs_directory" 
+                        value={config.jobs_directory} 
+                        onChange={e => setConfig({...config, jobs_directory: e.target.value})}
+                      />
+                    </div>
                   </div>
                 </div>
                 
@@ -456,7 +568,7 @@ export default function MigrationTool() {
                       <Checkbox 
                         id="s3_use_path_style"
                         checked={config.s3_use_path_style}
-                        onCheckedChange={(checked) => setConfig({...config, s3_use_path_style: checked})}
+                        onCheckedChange={(checked) => setConfig({...config, s3_use_path_style: checked === true})}
                       />
                       <Label htmlFor="s3_use_path_style">Use Path Style Endpoint</Label>
                     </div>
@@ -464,7 +576,7 @@ export default function MigrationTool() {
                       <Checkbox 
                         id="s3_use_multipart"
                         checked={config.s3_use_multipart}
-                        onCheckedChange={(checked) => setConfig({...config, s3_use_multipart: checked})}
+                        onCheckedChange={(checked) => setConfig({...config, s3_use_multipart: checked === true})}
                       />
                       <Label htmlFor="s3_use_multipart">Use Multipart Upload</Label>
                     </div>
@@ -477,29 +589,116 @@ export default function MigrationTool() {
                         onChange={e => setConfig({...config, s3_multipart_threshold: parseInt(e.target.value)})}
                       />
                     </div>
+                    <div className="space-y-2 col-span-2 flex items-center space-x-2">
+                      <Checkbox 
+                        id="s3_multibucket"
+                        checked={config.s3_multibucket}
+                        onCheckedChange={(checked) => setConfig({...config, s3_multibucket: checked === true})}
+                      />
+                      <Label htmlFor="s3_multibucket">Multibucket Object Store (bucket is the prefix of numbered buckets)</Label>
+                    </div>
+                    {config.s3_multibucket && (
+                      <div className="space-y-2 col-span-2">
+                        <Label htmlFor="s3_multibucket_count">Bucket Count</Label>
+                        <Input 
+                          id="s3_multibucket_count" 
+                          type="number"
+                          min={1}
+                          value={config.s3_multibucket_count} 
+                          onChange={e => setConfig({...config, s3_multibucket_count: parseInt(e.target.value)})}
+                        />
+                        <p className="text-sm text-muted-foreground">
+                          Matches <code>num_buckets</code> of <code>objectstore_multibucket</code>. Buckets are named
+                          {' '}<code>{config.s3_bucket}0</code> to <code>{config.s3_bucket}{Math.max(1, config.s3_multibucket_count || 1) - 1}</code>,
+                          {' '}the root storage lives in the first one.
+                        </p>
+                      </div>
+                    )}
                   </div>
                 </div>
                 
-                {/* Migration Options */}
+                {/* Target S3 Configuration */}
                 <div>
                   <h3 className="text-lg font-medium flex items-center">
-                    <FileUp className="mr-2 h-5 w-5" />
-                    Migration Options
+                    <Cloud className="mr-2 h-5 w-5" />
+                    Target S3 Configuration
                   </h3>
+                  <p className="text-sm text-muted-foreground mt-1">
+                    Bucket the objects are copied to by an S3 to S3 migration. Leave the bucket empty if you are not
+                    moving to another bucket or provider.
+                  </p>
                   <div className="grid grid-cols-2 gap-4 mt-2">
-                    <div className="space-y-2 flex items-center space-x-2">
+                    <div className="space-y-2">
+                      <Label htmlFor="s3_target_bucket">Bucket</Label>
+                      <Input 
+                        id="s3_target_bucket" 
+                        value={config.s3_target_bucket} 
+                        onChange={e => setConfig({...config, s3_target_bucket: e.target.value})}
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="s3_target_region">Region</Label>
+                      <Input 
+                        id="s3_target_region" 
+                        value={config.s3_target_region} 
+                        onChange={e => setConfig({...config, s3_target_region: e.target.value})}
+                      />
+                    </div>
+                    <div className="space-y-2 col-span-2">
+                      <Label htmlFor="s3_target_endpoint">Endpoint</Label>
+                      <Input 
+                        id="s3_target_endpoint" 
+                        value={config.s3_target_endpoint} 
+                        onChange={e => setConfig({...config, s3_target_endpoint: e.target.value})}
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="s3_target_key">Access Key</Label>
+                      <Input 
+                        id="s3_target_key" 
+                        value={config.s3_target_key} 
+                        onChange={e => setConfig({...config, s3_target_key: e.target.value})}
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="s3_target_secret">Secret Key</Label>
+                      <Input 
+                        id="s3_target_secret" 
+                        type="password"
+                        value={config.s3_target_secret} 
+                        onChange={e => setConfig({...config, s3_target_secret: e.target.value})}
+                      />
+                    </div>
+                    <div className="space-y-2 col-span-2 flex items-center space-x-2">
                       <Checkbox 
-                        id="test_mode"
-                        checked={config.test_mode}
-                        onCheckedChange={(checked) => setConfig({...config, test_mode: checked})}
+                        id="s3_target_use_path_style"
+                        checked={config.s3_target_use_path_style}
+                        onCheckedChange={(checked) => setConfig({...config, s3_target_use_path_style: checked === true})}
                       />
-                      <Label htmlFor="test_mode">Test Mode</Label>
+                      <Label htmlFor="s3_target_use_path_style">Use Path Style Endpoint</Label>
                     </div>
+                  </div>
+                </div>
+                
+                {/* Migration Options */}
+                <div>
+                  <h3 className="text-lg font-medium flex items-center">
+                    <FileUp className="mr-2 h-5 w-5" />
+                    Migration Options
+                  </h3>
+                  <div className="space-y-2 mt-2">
+                    <Label>Test Mode</Label>
+                    <TestModeSelector
+                      value={config.test_mode}
+                      onChange={testMode => setConfig({...config, test_mode: testMode})}
+                    />
+                  </div>
+                  <div className="grid grid-cols-2 gap-4 mt-4">
                     <div className="space-y-2 flex items-center space-x-2">
                       <Checkbox 
                         id="enable_maintenance"
                         checked={config.enable_maintenance}
-                        onCheckedChange={(checked) => setConfig({...config, enable_maintenance: checked})}
+                        onCheckedChange={(checked) => setConfig({...config, enable_maintenance: checked === true})}
                       />
                       <Label htmlFor="enable_maintenance">Enable Maintenance Mode</Label>
                     </div>
@@ -507,7 +706,7 @@ export default function MigrationTool() {
                       <Checkbox 
                         id="verify_uploads"
                         checked={config.verify_uploads}
-                        onCheckedChange={(checked) => setConfig({...config, verify_uploads: checked})}
+                        onCheckedChange={(checked) => setConfig({...config, verify_uploads: checked === true})}
                       />
                       <Label htmlFor="verify_uploads">Verify Uploads</Label>
                     </div>
@@ -515,10 +714,18 @@ export default function MigrationTool() {
                       <Checkbox 
                         id="delete_missing_files"
                         checked={config.delete_missing_files}
-                        onCheckedChange={(checked) => setConfig({...config, delete_missing_files: checked})}
+                        onCheckedChange={(checked) => setConfig({...config, delete_missing_files: checked === true})}
                       />
                       <Label htmlFor="delete_missing_files">Delete Missing Files</Label>
                     </div>
+                    <div className="space-y-2 flex items-center space-x-2">
+                      <Checkbox
+                        id="update_nextcloud_config"
+                        checked={config.update_nextcloud_config}
+                        onCheckedChange={(checked) => setConfig({...config, update_nextcloud_config: checked === true})}
+                      />
+                      <Label htmlFor="update_nextcloud_config">Update Nextcloud config.php</Label>
+                    </div>
                     <div className="space-y-2">
                       <Label htmlFor="batch_size">Batch Size</Label>
                       <Input 
@@ -528,6 +735,55 @@ export default function MigrationTool() {
                         onChange={e => setConfig({...config, batch_size: parseInt(e.target.value)})}
                       />
                     </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="upload_concurrency">Parallel Uploads</Label>
+                      <Input 
+                        id="upload_concurrency" 
+                        type="number"
+                        min={1}
+                        value={config.upload_concurrency} 
+                        onChange={e => setConfig({...config, upload_concurrency: parseInt(e.target.value)})}
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="migration_order">File Order</Label>
+                      <Select
+                        value={config.migration_order}
+                        onValueChange={order => setConfig({...config, migration_order: order as MigrationOrder})}
+                      >
+                        <SelectTrigger id="migration_order">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {Object.entries(migrationOrderOptions).map(([order, option]) => (
+                            <SelectItem key={order} value={order}>{option.label}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <p className="text-xs text-muted-foreground">
+                        {migrationOrderOptions[config.migration_order]?.description}
+                      </p>
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="verification_level">Verification Level</Label>
+                      <Select
+                        value={config.verification_level}
+                        onValueChange={level => setConfig({...config, verification_level: level as VerificationLevel})}
+                        disabled={!config.verify_uploads}
+                      >
+                        <SelectTrigger id="verification_level">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {Object.entries(verificationLevelOptions).map(([level, option]) => (
+                            <SelectItem key={level} value={level}>{option.label}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <p className="text-xs text-muted-foreground">
+                        {verificationLevelOptions[config.verification_level]?.description}
+                      </p>
+                    </div>
                     <div className="space-y-2">
                       <Label htmlFor="preview_max_age">Preview Max Age (days)</Label>
                       <Input 
@@ -539,6 +795,82 @@ export default function MigrationTool() {
                     </div>
                   </div>
                 </div>
+                
+                {/* Migration Rules */}
+                <RulesEditor
+                  value={config.rules}
+                  onChange={rules => setConfig({...config, rules})}
+                />
+                
+                {/* Logging */}
+                <div>
+                  <h3 className="text-lg font-medium flex items-center">
+                    <FileText className="mr-2 h-5 w-5" />
+                    Logging
+                  </h3>
+                  <div className="grid grid-cols-2 gap-4 mt-2">
+                    <div className="space-y-2">
+                      <Label htmlFor="log_level">Log Level</Label>
+                      <Select
+                        value={String(config.log_level)}
+                        onValueChange={level => setConfig({...config, log_level: parseInt(level)})}
+                      >
+                        <SelectTrigger id="log_level">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="0">Debug</SelectItem>
+                          <SelectItem value="1">Info</SelectItem>
+                          <SelectItem value="2">Warning</SelectItem>
+                          <SelectItem value="3">Error</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="log_format">Log Format</Label>
+                      <Select
+                        value={config.log_format}
+                        onValueChange={format => setConfig({...config, log_format: format as MigrationConfig['log_format']})}
+                      >
+                        <SelectTrigger id="log_format">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="text">Text</SelectItem>
+                          <SelectItem value="json">JSON lines (with job and file context)</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div className="space-y-2 col-span-2">
+                      <Label htmlFor="log_file">Log File</Label>
+                      <Input 
+                        id="log_file" 
+                        value={config.log_file} 
+                        onChange={e => setConfig({...config, log_file: e.target.value})}
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="log_max_size">Rotate at (MB, 0 to disable)</Label>
+                      <Input 
+                        id="log_max_size" 
+                        type="number"
+                        min={0}
+                        value={config.log_max_size} 
+                        onChange={e => setConfig({...config, log_max_size: parseInt(e.target.value)})}
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="log_max_files">Rotated Files to Keep</Label>
+                      <Input 
+                        id="log_max_files" 
+                        type="number"
+                        min={1}
+                        value={config.log_max_files} 
+                        onChange={e => setConfig({...config, log_max_files: parseInt(e.target.value)})}
+                      />
+                    </div>
+                  </div>
+                </div>
               </div>
             </CardContent>
             <CardFooter>
@@ -613,6 +945,21 @@ export default function MigrationTool() {
           </Card>
         </TabsContent>
         
+        {/* Plan Tab */}
+        <TabsContent value="plan">
+          <Card>
+            <CardHeader>
+              <CardTitle>Migration Plan</CardTitle>
+              <CardDescription>
+                What a migration would move, what it would skip and how long it should take
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <PlanView />
+            </CardContent>
+          </Card>
+        </TabsContent>
+        
         {/* Migration Tab */}
         <TabsContent value="migrate">
           <Card>
@@ -624,28 +971,51 @@ export default function MigrationTool() {
             </CardHeader>
             <CardContent>
               <div className="space-y-6">
-                <Alert variant={config.test_mode ? 'default' : 'destructive'}>
+                <Alert variant={runMode ? 'default' : 'destructive'}>
                   <AlertCircle className="h-4 w-4" />
                   <AlertTitle>
-                    {config.test_mode ? 'Test Mode Active' : 'Production Mode'}
+                    {runMode ? `Test Mode: ${describeTestMode(runMode)}` : 'Production Mode'}
                   </AlertTitle>
                   <AlertDescription>
-                    {config.test_mode 
-                      ? 'In test mode, no actual database changes will be made.'
-                      : 'Warning: Production mode will modify your Nextcloud instance!'}
+                    {runModeOption.does} It will not {runModeOption.doesNot.charAt(0).toLowerCase() + runModeOption.doesNot.slice(1)}
                   </AlertDescription>
                 </Alert>
                 
-                {migrationRunning || migrationProgress.status === 'complete' ? (
+                {job ? (
                   <div className="space-y-4">
+                    <div className="flex justify-between text-sm text-muted-foreground">
+                      <span>Job {job.id}</span>
+                      <span className="capitalize">{job.status}</span>
+                    </div>
+                    
                     <div className="space-y-2">
                       <div className="flex justify-between text-sm">
-                        <span>Progress</span>
-                        <span>{migrationProgress.percent}%</span>
+                        <span>Files</span>
+                        <span>{migrationPercent}%</span>
                       </div>
-                      <Progress value={migrationProgress.percent} className="w-full" />
+                      <Progress value={migrationPercent} className="w-full" />
+                      {bytesPercent !== null && (
+                        <>
+                          <div className="flex justify-between text-sm">
+                            <span>Data</span>
+                            <span>{bytesPercent}% of {formatBytes(migrationProgress.total_bytes)}</span>
+                          </div>
+                          <Progress value={bytesPercent} className="w-full" />
+                        </>
+                      )}
+                      {remainingSeconds !== null && (
+                        <p className="text-sm text-muted-foreground text-right">
+                          About {formatDuration(remainingSeconds)} remaining
+                        </p>
+                      )}
                     </div>
                     
+                    <ThroughputCharts samples={samples} />
+                    
+                    {migrationProgress.users && (
+                      <UserProgressTable users={migrationProgress.users} />
+                    )}
+                    
                     <div className="grid grid-cols-2 gap-4 border rounded-md p-4">
                       <div>
                         <p className="text-sm text-muted-foreground">Files Migrated</p>
@@ -670,15 +1040,108 @@ export default function MigrationTool() {
                       <p className="text-sm truncate">{migrationProgress.current_file}</p>
                     </div>
                     
-                    {migrationProgress.status === 'complete' && (
+                    {jobActive && (
+                      <UploadWorkers
+                        inFlight={migrationProgress.in_flight ?? 0}
+                        workers={migrationProgress.workers ?? []}
+                      />
+                    )}
+                    
+                    {jobActive && (
+                      <div className="flex justify-center gap-2">
+                        {job.status === 'paused' ? (
+                          <Button variant="outline" onClick={() => controlMigration('resume')}>
+                            <Play className="mr-2 h-4 w-4" />
+                            Resume
+                          </Button>
+                        ) : (
+                          <Button
+                            variant="outline"
+                            onClick={() => controlMigration('pause')}
+                            disabled={job.control === 'pause'}
+                          >
+                            <Pause className="mr-2 h-4 w-4" />
+                            Pause
+                          </Button>
+                        )}
+                        <Button
+                          variant="destructive"
+                          onClick={() => controlMigration('cancel')}
+                          disabled={job.control === 'cancel'}
+                        >
+                          <Square className="mr-2 h-4 w-4" />
+                          Cancel
+                        </Button>
+                      </div>
+                    )}
+                    
+                    {job.status === 'paused' && (
+                      <Alert>
+                        <Pause className="h-4 w-4" />
+                        <AlertTitle>Migration Paused</AlertTitle>
+                        <AlertDescription>
+                          The current transaction has been committed. Maintenance mode stays enabled until the migration is resumed or cancelled.
+                        </AlertDescription>
+                      </Alert>
+                    )}
+                    
+                    {job.status === 'cancelled' && (
+                      <Alert>
+                        <AlertCircle className="h-4 w-4" />
+                        <AlertTitle>Migration Cancelled</AlertTitle>
+                        <AlertDescription>
+                          Stopped after {migrationProgress.migrated} files. Storage providers were not updated and maintenance mode (if it was enabled) has been turned off.
+                        </AlertDescription>
+                      </Alert>
+                    )}
+                    
+                    {job.status === 'complete' && (
                       <Alert>
                         <CheckCircle className="h-4 w-4" />
                         <AlertTitle>Migration Complete</AlertTitle>
                         <AlertDescription>
-                          Successfully migrated {migrationProgress.migrated} files to S3 storage.
+                          Successfully migrated {migrationProgress.migrated} files
+                          {' '}{migrationDirectionOptions[getRunDirection(job)].done}.
+                          {' '}<Link to={`/history/${job.id}`} className="underline">View the run report</Link>
+                        </AlertDescription>
+                      </Alert>
+                    )}
+                    
+                    {job.status === 'failed' && (
+                      <Alert variant="destructive">
+                        <XCircle className="h-4 w-4" />
+                        <AlertTitle>Migration Failed</AlertTitle>
+                        <AlertDescription>
+                          {job.error || 'The migration job stopped with an error. Check the log file for details.'}
                         </AlertDescription>
                       </Alert>
                     )}
+                    
+                    {job.status === 'interrupted' && (
+                      <Alert variant="destructive">
+                        <AlertCircle className="h-4 w-4" />
+                        <AlertTitle>Migration Interrupted</AlertTitle>
+                        <AlertDescription>
+                          The worker process stopped unexpectedly. The migration can be resumed from its last checkpoint.
+                        </AlertDescription>
+                      </Alert>
+                    )}
+                    
+                    {api.isJobResumable(job) && (
+                      <ResumeMigrationCard jobs={[job]} onResume={resumeMigration} />
+                    )}
+                    
+                    {!jobActive && (
+                      <FailuresPanel refreshKey={job.status} onRetryStarted={setJob} />
+                    )}
+                    
+                    {!jobActive && (
+                      <div className="flex justify-center">
+                        <Button variant="outline" onClick={detachJob}>
+                          New Migration
+                        </Button>
+                      </div>
+                    )}
                   </div>
                 ) : (
                   <div className="space-y-4">
@@ -686,20 +1149,67 @@ export default function MigrationTool() {
                       Start the migration process by clicking the button below. This will:
                     </p>
                     
+                    <div className="space-y-2">
+                      <Label htmlFor="migration_direction">Direction</Label>
+                      <Select
+                        value={direction}
+                        onValueChange={value => {
+                          setDirection(value as MigrationDirection);
+                          setSelectedUsers(current => current === null ? null : []);
+                        }}
+                      >
+                        <SelectTrigger id="migration_direction" className="w-72">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {Object.entries(migrationDirectionOptions).map(([value, option]) => (
+                            <SelectItem key={value} value={value}>{option.label}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <p className="text-sm text-muted-foreground">{migrationDirectionOptions[direction].description}</p>
+                    </div>
+                    
                     <ul className="list-disc pl-5 space-y-1 text-sm">
                       <li>Create a database backup</li>
                       <li>Enable maintenance mode (if configured)</li>
-                      <li>Migrate files from local storage to S3</li>
-                      <li>Update database references</li>
+                      <li>
+                        {migrationDirectionOptions[direction].action}
+                        {!isRulesEmpty(config.rules) && ' (limited by the saved migration rules)'}
+                      </li>
+                      <li>Update database references{config.update_nextcloud_config && ' and the objectstore section of config.php'}</li>
                       <li>Disable maintenance mode when completed</li>
                     </ul>
                     
+                    {typeof config.test_mode !== 'string' && (
+                      <UserSelector value={selectedUsers} onChange={setSelectedUsers} direction={direction} />
+                    )}
+                    
+                    <NextcloudConfigPreview direction={direction} enabled={config.update_nextcloud_config} />
+                    
                     <div className="flex justify-center py-4">
                       <Button onClick={startMigration}>
                         Start Migration
                       </Button>
                     </div>
                     
+                    <ResumeMigrationCard jobs={resumableJobs} onResume={resumeMigration} />
+                    
+                    <FailuresPanel onRetryStarted={setJob} />
+                    
+                    <div className="border-t pt-4">
+                      <h4 className="font-medium mb-2">Finish Cutover</h4>
+                      <p className="text-sm mb-4">
+                        Runs limited by migration rules transfer files without switching any storage. Once every file
+                        has been transferred {migrationDirectionOptions[direction].done}, finish the cutover to switch the
+                        storage providers{config.update_nextcloud_config && ' and the objectstore section of config.php'} without
+                        transferring anything. It refuses while any file is left.
+                      </p>
+                      <Button variant="outline" onClick={finishCutover}>
+                        Finish Cutover
+                      </Button>
+                    </div>
+                    
                     <div className="border-t pt-4">
                       <h4 className="font-medium mb-2">Preview Cleanup</h4>
                       <p className="text-sm mb-4">
@@ -726,19 +1236,64 @@ export default function MigrationTool() {
                 <Button 
                   variant="outline" 
                   onClick={() => setActiveTab('checks')}
-                  disabled={migrationRunning}
+                  disabled={jobActive}
                 >
                   Back to Checks
                 </Button>
-                {migrationProgress.status === 'complete' && (
-                  <Button onClick={runPreMigrationChecks}>
-                    Run Post-Migration Checks
+                {job?.status === 'complete' && (
+                  <Button onClick={startAudit}>
+                    Run Integrity Audit
                   </Button>
                 )}
               </div>
             </CardFooter>
           </Card>
         </TabsContent>
+        
+        {/* Audit Tab */}
+        <TabsContent value="audit">
+          <Card>
+            <CardHeader>
+              <CardTitle>Integrity Audit</CardTitle>
+              <CardDescription>
+                Compare the files of the object storage with the objects in the bucket
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <IntegrityAudit startedJob={auditJob} />
+            </CardContent>
+          </Card>
+        </TabsContent>
+        
+        {/* Ledger Tab */}
+        <TabsContent value="ledger">
+          <Card>
+            <CardHeader>
+              <CardTitle>Migration Ledger</CardTitle>
+              <CardDescription>
+                Per-file record of every upload, verification and database update
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <LedgerView />
+            </CardContent>
+          </Card>
+        </TabsContent>
+        
+        {/* Logs Tab */}
+        <TabsContent value="logs">
+          <Card>
+            <CardHeader>
+              <CardTitle>Logs</CardTitle>
+              <CardDescription>
+                Follow the log of a running migration or open the log of a past one
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <LogViewer activeJobId={job?.id} />
+            </CardContent>
+          </Card>
+        </TabsContent>
       </Tabs>
     </div>
   );
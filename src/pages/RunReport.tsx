@@ -0,0 +1,262 @@
+import { useEffect, useState } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import { ArrowLeft, Download, FileText, Printer } from 'lucide-react';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { toast } from '@/components/ui/sonner';
+import { RunComparison } from '@/components/migration/RunComparison';
+import { ThroughputCharts } from '@/components/migration/ThroughputCharts';
+import * as api from '@/lib/api';
+import type { ErrorCategory, Job } from '@/lib/api';
+import { categoryLabels } from '@/lib/failures';
+import { formatBytes, formatDuration } from '@/lib/format';
+import { describeRun, formatConfigValue, getPhaseDurations, getRunDuration } from '@/lib/runs';
+
+export default function RunReportPage() {
+  const { jobId } = useParams<{ jobId: string }>();
+  const [job, setJob] = useState<Job | null>(null);
+  const [runs, setRuns] = useState<Job[]>([]);
+  const [compareWithId, setCompareWithId] = useState<string | null>(null);
+
+  useEffect(() => {
+    setJob(null);
+    setCompareWithId(null);
+    Promise.all([api.getJob(jobId), api.listJobs('migration')])
+      .then(([loaded, list]) => {
+        setJob(loaded);
+        setRuns(list);
+        // Runs are listed newest first, so the one after this is the run before it
+        const index = list.findIndex(run => run.id === loaded.id);
+        setCompareWithId(list[index + 1]?.id ?? null);
+      })
+      .catch(error => toast.error('Error loading run: ' + error.message));
+  }, [jobId]);
+
+  const back = (
+    <Button variant="outline" size="sm" asChild>
+      <Link to="/history">
+        <ArrowLeft className="mr-2 h-4 w-4" />
+        All Runs
+      </Link>
+    </Button>
+  );
+
+  if (!job) {
+    return (
+      <div className="container mx-auto py-8 max-w-5xl text-center space-y-4">
+        <p className="text-muted-foreground">Loading run...</p>
+        {back}
+      </div>
+    );
+  }
+
+  const duration = getRunDuration(job);
+  const phases = getPhaseDurations(job.result?.phases ?? job.checkpoint?.phases);
+  const failures = Object.entries(job.result?.failures ?? {});
+  const backupFile = job.result?.backup_file ?? job.checkpoint?.backup_file ?? null;
+  const settings = Object.entries(job.config ?? {}).sort(([a], [b]) => a.localeCompare(b));
+
+  const summary: [string, string][] = [
+    ['Mode', describeRun(job)],
+    ['Created', new Date(job.created_at).toLocaleString()],
+    ['Started', job.started_at ? new Date(job.started_at).toLocaleString() : '—'],
+    ['Finished', job.finished_at ? new Date(job.finished_at).toLocaleString() : '—'],
+    ['Duration', duration === null ? '—' : formatDuration(duration)],
+    ['Files in scope', (job.progress?.total ?? 0).toLocaleString()],
+    ['Files migrated', (job.progress?.migrated ?? 0).toLocaleString()],
+    ['Files failed', (job.progress?.failed ?? 0).toLocaleString()],
+    ['Data transferred', formatBytes(job.progress?.bytes ?? 0)],
+    ['Database backup', backupFile ?? 'None'],
+  ];
+
+  return (
+    <div className="container mx-auto py-8 max-w-5xl space-y-6">
+      <div className="text-center">
+        <h1 className="text-3xl font-bold">Migration Run Report</h1>
+        <p className="text-muted-foreground mt-2">Job {job.id}</p>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <CardTitle className="flex items-center">
+              <FileText className="mr-2 h-5 w-5" />
+              Summary
+              <Badge variant={job.status === 'failed' ? 'destructive' : 'secondary'} className="ml-3">{job.status}</Badge>
+            </CardTitle>
+            <div className="flex gap-2">
+              <Button variant="outline" size="sm" asChild>
+                <a href={api.getRunExportUrl(job.id, 'json')} download>
+                  <Download className="mr-2 h-4 w-4" />
+                  JSON
+                </a>
+              </Button>
+              <Button variant="outline" size="sm" asChild>
+                <a href={api.getRunExportUrl(job.id, 'csv')} download>
+                  <Download className="mr-2 h-4 w-4" />
+                  Files CSV
+                </a>
+              </Button>
+              <Button variant="outline" size="sm" asChild>
+                <a href={api.getRunExportUrl(job.id, 'html')} target="_blank" rel="noreferrer">
+                  <Printer className="mr-2 h-4 w-4" />
+                  Printable Report
+                </a>
+              </Button>
+              {back}
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {job.error && (
+            <Alert variant="destructive">
+              <AlertTitle>Run Failed</AlertTitle>
+              <AlertDescription>{job.error}</AlertDescription>
+            </Alert>
+          )}
+          <div className="grid grid-cols-2 gap-x-8 gap-y-2 text-sm">
+            {summary.map(([label, value]) => (
+              <div key={label} className="flex justify-between gap-4">
+                <span className="text-muted-foreground">{label}</span>
+                <span className="text-right break-all">{value}</span>
+              </div>
+            ))}
+          </div>
+          <ThroughputCharts samples={job.samples ?? []} />
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Pre-Migration Checks</CardTitle>
+          {job.checks && <CardDescription>Run at {new Date(job.checks.checked_at).toLocaleString()}</CardDescription>}
+        </CardHeader>
+        <CardContent>
+          {!job.checks ? (
+            <p className="text-sm text-muted-foreground">No pre-migration checks were run before this migration.</p>
+          ) : (
+            <Table>
+              <TableBody>
+                {Object.entries(job.checks.results.checks).map(([key, check]) => (
+                  <TableRow key={key}>
+                    <TableCell>{check.name}</TableCell>
+                    <TableCell>
+                      <Badge variant={check.status === 'error' ? 'destructive' : 'secondary'}>{check.status}</Badge>
+                    </TableCell>
+                    <TableCell>{check.message}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Phases</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {phases.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No phase times were recorded for this run.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Phase</TableHead>
+                  <TableHead>Started</TableHead>
+                  <TableHead>Finished</TableHead>
+                  <TableHead className="text-right">Duration</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {phases.map(phase => (
+                  <TableRow key={phase.phase}>
+                    <TableCell>{phase.label}</TableCell>
+                    <TableCell>{new Date(phase.started_at).toLocaleString()}</TableCell>
+                    <TableCell>{phase.finished_at ? new Date(phase.finished_at).toLocaleString() : '—'}</TableCell>
+                    <TableCell className="text-right">{phase.seconds === null ? '—' : formatDuration(phase.seconds)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Failures</CardTitle>
+          <CardDescription>Files this run left failed, by error category</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {failures.length === 0 ? (
+            <p className="text-sm text-muted-foreground">
+              {job.result?.failures ? 'No files failed in this run.' : 'No failure summary was recorded for this run.'}
+            </p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Category</TableHead>
+                  <TableHead className="text-right">Files</TableHead>
+                  <TableHead className="text-right">Size</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {failures.map(([category, summary]) => (
+                  <TableRow key={category}>
+                    <TableCell>{categoryLabels[category as ErrorCategory] ?? category}</TableCell>
+                    <TableCell className="text-right">{summary.count.toLocaleString()}</TableCell>
+                    <TableCell className="text-right">{formatBytes(summary.size)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Comparison</CardTitle>
+          <CardDescription>Compare with another run, for example a test run with the production run</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <RunComparison
+            job={job}
+            runs={runs}
+            compareWith={runs.find(run => run.id === compareWithId) ?? null}
+            onCompareWithChange={setCompareWithId}
+          />
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Settings</CardTitle>
+          <CardDescription>Configuration the run used; passwords and secrets are not recorded</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {settings.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No settings were recorded for this run.</p>
+          ) : (
+            <Table>
+              <TableBody>
+                {settings.map(([key, value]) => (
+                  <TableRow key={key}>
+                    <TableCell className="font-mono text-xs">{key}</TableCell>
+                    <TableCell className="font-mono text-xs break-all">{formatConfigValue(value)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}